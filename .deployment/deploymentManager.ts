@@ -6,10 +6,32 @@ export const CONTRACT_NAMES = [
   'KnowledgeLayerCourse',
   'KnowledgeLayerEscrow',
   'KnowledgeLayerReview',
+  'KnowledgeLayerCertificate',
 ] as const;
 
 export type ContractName = (typeof CONTRACT_NAMES)[number];
 
+// Contracts deployed behind a UUPS proxy, whose implementation can be upgraded
+export const UPGRADEABLE_CONTRACT_NAMES = [
+  'KnowledgeLayerID',
+  'KnowledgeLayerPlatformID',
+  'KnowledgeLayerCourse',
+  'KnowledgeLayerEscrow',
+  'KnowledgeLayerReview',
+] as const;
+
+export type UpgradeableContractName = (typeof UPGRADEABLE_CONTRACT_NAMES)[number];
+
+// Libraries deployed separately and linked to the contracts using them
+export const LIBRARY_NAMES = ['EscrowDisputes'] as const;
+
+export type LibraryName = (typeof LIBRARY_NAMES)[number];
+
+// Libraries linked to each contract
+export const LINKED_LIBRARIES: Partial<Record<ContractName, readonly LibraryName[]>> = {
+  KnowledgeLayerEscrow: ['EscrowDisputes'],
+};
+
 const getFilename = (network: string) => `${__dirname}/${network}.json`;
 
 export const getDeploymentAddress = (network: string, contractName: ContractName): string => {
@@ -37,3 +59,69 @@ export const removeDeploymentAddress = (network: string, contractName: ContractN
   delete obj[contractName];
   saveJSON(getFilename(network), obj);
 };
+
+/**
+ * Details of the deployment of a contract, recorded next to its address
+ * @param address Address of the contract, or of its proxy
+ * @param implementation Address of the implementation, for contracts deployed behind a proxy
+ * @param blockNumber Block in which the contract was deployed
+ * @param transactionHash Hash of the deployment transaction
+ * @param args Constructor arguments, or initializer arguments for contracts deployed behind a proxy
+ * @param deployer Address of the deployer
+ * @param commit Git commit the contract, or the current implementation of a proxy, was deployed from
+ * @param upgrade Last upgrade of the implementation, for proxies which were upgraded
+ */
+export type DeploymentRecord = {
+  address: string;
+  implementation?: string;
+  blockNumber: number;
+  transactionHash: string;
+  args: unknown[];
+  deployer: string;
+  commit: string;
+  upgrade?: UpgradeRecord;
+};
+
+/**
+ * Details of the upgrade of a contract deployed behind a proxy
+ * @param blockNumber Block in which the proxy was upgraded
+ * @param transactionHash Hash of the upgrade transaction
+ */
+export type UpgradeRecord = {
+  blockNumber: number;
+  transactionHash: string;
+};
+
+export const getDeploymentRecord = (
+  network: string,
+  contractName: ContractName | LibraryName,
+): DeploymentRecord | undefined => {
+  const obj = loadJSON(getFilename(network));
+  return obj.deployments?.[contractName];
+};
+
+export const setDeploymentRecord = (
+  network: string,
+  contractName: ContractName | LibraryName,
+  record: DeploymentRecord,
+) => {
+  const obj = loadJSON(getFilename(network));
+  obj[contractName] = record.address;
+  obj.deployments = { ...obj.deployments, [contractName]: record };
+  saveJSON(getFilename(network), obj);
+};
+
+export const setUpgradeRecord = (
+  network: string,
+  contractName: UpgradeableContractName,
+  implementation: string,
+  commit: string,
+  upgrade: UpgradeRecord,
+) => {
+  const obj = loadJSON(getFilename(network));
+  obj.deployments = {
+    ...obj.deployments,
+    [contractName]: { ...obj.deployments?.[contractName], implementation, commit, upgrade },
+  };
+  saveJSON(getFilename(network), obj);
+};
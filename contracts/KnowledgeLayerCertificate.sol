@@ -0,0 +1,247 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.9;
+
+import {IKnowledgeLayerID} from "./interfaces/IKnowledgeLayerID.sol";
+import {IKnowledgeLayerCourse} from "./interfaces/IKnowledgeLayerCourse.sol";
+
+import {Base64} from "@openzeppelin/contracts/utils/Base64.sol";
+import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
+import {Counters} from "@openzeppelin/contracts/utils/Counters.sol";
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+/**
+ * @title KnowledgeLayerCertificate Contract
+ */
+contract KnowledgeLayerCertificate is ERC721 {
+    using Strings for uint256;
+    using Counters for Counters.Counter;
+
+    /**
+     * @dev Certificate information struct
+     * @param id Id of the certificate
+     * @param courseId ID of the completed course
+     * @param issuerId KnowledgeLayer ID of the teacher who issued the certificate
+     * @param studentId KnowledgeLayer ID of the student who completed the course
+     * @param issuedAt Timestamp at which the certificate was issued
+     * @param gradeUri URI of the grade data
+     */
+    struct Certificate {
+        uint256 id;
+        uint256 courseId;
+        uint256 issuerId;
+        uint256 studentId;
+        uint256 issuedAt;
+        string gradeUri;
+    }
+
+    // Certificate id counter
+    Counters.Counter nextCertificateId;
+
+    // Certificate id to certificate
+    mapping(uint256 => Certificate) public certificates;
+
+    // Certificate id issued to a student for a course (course id -> student id -> certificate id)
+    mapping(uint256 => mapping(uint256 => uint256)) public certificateOf;
+
+    // KnowledgeLayerID contract
+    IKnowledgeLayerID private knowledgeLayerId;
+
+    // KnowledgeLayerCourse contract
+    IKnowledgeLayerCourse private knowledgeLayerCourse;
+
+    // =========================== Events ==============================
+
+    /**
+     * @dev Emitted when a new certificate is issued
+     * @param id ID of the certificate
+     * @param courseId ID of the completed course
+     * @param studentId KnowledgeLayer Id of the student receiving the certificate
+     * @param issuerId KnowledgeLayer Id of the teacher issuing the certificate
+     * @param gradeUri URI of the grade data
+     */
+    event CertificateIssued(
+        uint256 indexed id,
+        uint256 indexed courseId,
+        uint256 indexed studentId,
+        uint256 issuerId,
+        string gradeUri
+    );
+
+    // =========================== Modifiers ==============================
+
+    /**
+     * @notice Check if the given address is either the owner of the delegate of the given user
+     * @param _profileId The KnowledgeLayer ID of the user
+     */
+    modifier onlyOwnerOrDelegate(uint256 _profileId) {
+        require(knowledgeLayerId.isOwnerOrDelegate(_profileId, _msgSender()), "Not owner or delegate");
+        _;
+    }
+
+    // =========================== Constructor ==============================
+
+    constructor(
+        address _knowledgeLayerIdAddress,
+        address _knowledgeLayerCourseAddress
+    ) ERC721("KnowledgeLayerCertificate", "KLC") {
+        knowledgeLayerId = IKnowledgeLayerID(_knowledgeLayerIdAddress);
+        knowledgeLayerCourse = IKnowledgeLayerCourse(_knowledgeLayerCourseAddress);
+        nextCertificateId.increment();
+    }
+
+    // =========================== View functions ==============================
+
+    /**
+     * @notice Returns the certificate information
+     * @param _certificateId Certificate Id
+     */
+    function getCertificate(uint256 _certificateId) public view returns (Certificate memory) {
+        require(_certificateId > 0 && _certificateId < nextCertificateId.current(), "Invalid certificate ID");
+        return certificates[_certificateId];
+    }
+
+    /**
+     * @dev Returns the total number of tokens in existence.
+     */
+    function totalSupply() public view returns (uint256) {
+        return nextCertificateId.current() - 1;
+    }
+
+    // =========================== User functions ==============================
+
+    /**
+     * @notice Called by the teacher of a course to issue a certificate to a student who bought it
+     * @dev Only one certificate can be issued per course per student. The grade URI is written as is in the JSON
+     *      metadata of the token, so it can't contain quotes, backslashes or control characters.
+     * @param _profileId KnowledgeLayer ID of the teacher
+     * @param _courseId ID of the course
+     * @param _studentId KnowledgeLayer ID of the student
+     * @param _gradeUri URI of the grade data
+     */
+    function issue(
+        uint256 _profileId,
+        uint256 _courseId,
+        uint256 _studentId,
+        string calldata _gradeUri
+    ) public onlyOwnerOrDelegate(_profileId) returns (uint256) {
+        IKnowledgeLayerCourse.Course memory course = knowledgeLayerCourse.getCourse(_courseId);
+        address student = knowledgeLayerId.ownerOf(_studentId);
+
+        require(course.ownerId == _profileId, "Not the owner of the course");
+        require(certificateOf[_courseId][_studentId] == 0, "Already issued certificate");
+        require(knowledgeLayerCourse.balanceOf(student, _courseId) > 0, "Not a buyer of the course");
+        require(_isJsonSafe(_gradeUri), "Invalid grade URI");
+
+        uint256 id = nextCertificateId.current();
+        certificateOf[_courseId][_studentId] = id;
+
+        _safeMint(student, id);
+
+        certificates[id] = Certificate({
+            id: id,
+            courseId: _courseId,
+            issuerId: _profileId,
+            studentId: _studentId,
+            issuedAt: block.timestamp,
+            gradeUri: _gradeUri
+        });
+        nextCertificateId.increment();
+
+        emit CertificateIssued(id, _courseId, _studentId, _profileId, _gradeUri);
+
+        return id;
+    }
+
+    // =========================== Overrides ===================================
+
+    /**
+     * @dev Override to prevent token transfer.
+     */
+    function _transfer(address, address, uint256) internal virtual override(ERC721) {
+        revert("Token transfer is not allowed");
+    }
+
+    /**
+     * @dev Blocks the burn function
+     * @param _tokenId The ID of the token
+     */
+    function _burn(uint256 _tokenId) internal virtual override(ERC721) {}
+
+    /**
+     * @notice Implementation of the {IERC721Metadata-tokenURI} function.
+     * @param _tokenId The ID of the token
+     */
+    function tokenURI(uint256 _tokenId) public view virtual override(ERC721) returns (string memory) {
+        _requireMinted(_tokenId);
+        return _buildTokenURI(certificates[_tokenId]);
+    }
+
+    /**
+     * @notice Checks that a string can be written in a JSON string without escaping
+     * @param _value The string to check
+     */
+    function _isJsonSafe(string calldata _value) internal pure returns (bool) {
+        bytes calldata value = bytes(_value);
+        for (uint256 i = 0; i < value.length; i++) {
+            if (value[i] < 0x20 || value[i] == '"' || value[i] == "\\") {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * @notice Builds the token URI
+     * @param _certificate The certificate to build the token URI for
+     */
+    function _buildTokenURI(Certificate memory _certificate) internal pure returns (string memory) {
+        string memory courseId = _certificate.courseId.toString();
+        string memory issuerId = _certificate.issuerId.toString();
+        string memory issuedAt = _certificate.issuedAt.toString();
+
+        bytes memory image = abi.encodePacked(
+            "data:image/svg+xml;base64,",
+            Base64.encode(
+                abi.encodePacked(
+                    '<svg xmlns="http://www.w3.org/2000/svg" width="720" height="720"><rect width="100%" height="100%"/><svg xmlns="http://www.w3.org/2000/svg" width="150" height="150" version="1.2" viewBox="-200 -50 1000 1000"><path fill="#FFFFFF" d="M264.5 190.5c0-13.8 11.2-25 25-25H568c13.8 0 25 11.2 25 25v490c0 13.8-11.2 25-25 25H289.5c-13.8 0-25-11.2-25-25z"/><path fill="#FFFFFF" d="M265 624c0-13.8 11.2-25 25-25h543c13.8 0 25 11.2 25 25v56.5c0 13.8-11.2 25-25 25H290c-13.8 0-25-11.2-25-25z"/><path fill="#FFFFFF" d="M0 190.5c0-13.8 11.2-25 25-25h543c13.8 0 25 11.2 25 25V247c0 13.8-11.2 25-25 25H25c-13.8 0-25-11.2-25-25z"/></svg><text x="30" y="520" style="font:60px sans-serif;fill:#fff">certificate</text><text x="30" y="600" style="font:30px sans-serif;fill:#fff">course #',
+                    courseId,
+                    '</text><text x="30" y="670" style="font:30px sans-serif;fill:#fff">issued by #',
+                    issuerId,
+                    "</text></svg>"
+                )
+            )
+        );
+
+        bytes memory attributes = abi.encodePacked(
+            '[{"trait_type":"course","value":',
+            courseId,
+            '},{"trait_type":"issuer","value":',
+            issuerId,
+            '},{"trait_type":"student","value":',
+            _certificate.studentId.toString(),
+            '},{"display_type":"date","trait_type":"issued","value":',
+            issuedAt,
+            '},{"trait_type":"grade","value":"',
+            _certificate.gradeUri,
+            '"}]'
+        );
+
+        return
+            string(
+                abi.encodePacked(
+                    "data:application/json;base64,",
+                    Base64.encode(
+                        abi.encodePacked(
+                            '{"name":"KnowledgeLayer Certificate #',
+                            _certificate.id.toString(),
+                            '", "image":"',
+                            image,
+                            '", "attributes":',
+                            attributes,
+                            "}"
+                        )
+                    )
+                )
+            );
+    }
+}
@@ -1,22 +1,59 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.9;
 
-import {ERC1155} from "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {ERC1155Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC1155/ERC1155Upgradeable.sol";
 import {Counters} from "@openzeppelin/contracts/utils/Counters.sol";
-import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {AccessControlUpgradeable} from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
 import {Base64} from "@openzeppelin/contracts/utils/Base64.sol";
+import {ContextUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ContextUpgradeable.sol";
+import {EIP712Upgradeable} from "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 
 import {IKnowledgeLayerID} from "./interfaces/IKnowledgeLayerID.sol";
+import {IKnowledgeLayerPlatformID} from "./interfaces/IKnowledgeLayerPlatformID.sol";
+import {ERC2771Recipient} from "./libs/ERC2771Recipient.sol";
 
-contract KnowledgeLayerCourse is ERC1155, AccessControl {
+contract KnowledgeLayerCourse is
+    Initializable,
+    ERC1155Upgradeable,
+    AccessControlUpgradeable,
+    EIP712Upgradeable,
+    ERC2771Recipient,
+    UUPSUpgradeable
+{
     using Counters for Counters.Counter;
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    /**
+     * @notice Type of discount given by a coupon
+     */
+    enum DiscountType {
+        Percentage,
+        Fixed
+    }
+
+    /**
+     * @dev Course status. Only published courses can be bought, and archived courses can't be updated anymore.
+     */
+    enum CourseStatus {
+        Draft,
+        Published,
+        Paused,
+        Archived
+    }
 
     /**
      * @dev Course struct
      * @param ownerId KnowledgeLayer ID of the teacher
      * @param platformId Platform ID where the course was created
      * @param price Price of the course
+     * @param token Address of the token used to pay the course
      * @param dataUri URI of the course data
+     * @param accessDuration Duration (in seconds) of the access given by a purchase, 0 for a lifetime access
+     * @param status Status of the course
      */
     struct Course {
         uint256 ownerId;
@@ -24,20 +61,131 @@ contract KnowledgeLayerCourse is ERC1155, AccessControl {
         uint256 price;
         address token;
         string dataUri;
+        uint256 accessDuration;
+        CourseStatus status;
+    }
+
+    /**
+     * @dev Bundle struct
+     * @param ownerId KnowledgeLayer ID of the teacher
+     * @param platformId Platform ID where the bundle was created
+     * @param price Price of the bundle
+     * @param token Address of the token used to pay the bundle
+     * @param dataUri URI of the bundle data
+     * @param courseIds IDs of the courses included in the bundle
+     */
+    struct Bundle {
+        uint256 ownerId;
+        uint256 platformId;
+        uint256 price;
+        address token;
+        string dataUri;
+        uint256[] courseIds;
+    }
+
+    /**
+     * @dev Coupon struct
+     * @param courseId ID of the course the coupon can be used for, 0 for all the courses of the teacher
+     * @param discountType Whether the discount is a percentage of the price or a fixed amount
+     * @param discount The discount, in % (per ten thousands) or in amount of the course token
+     * @param maxUses Maximum number of times the coupon can be redeemed
+     * @param uses Number of times the coupon has been redeemed
+     * @param expiry Timestamp after which the coupon can't be redeemed
+     */
+    struct Coupon {
+        uint256 courseId;
+        DiscountType discountType;
+        uint256 discount;
+        uint256 maxUses;
+        uint256 uses;
+        uint256 expiry;
+    }
+
+    /**
+     * @dev Collaborator struct
+     * @param profileId KnowledgeLayer ID of the co-teacher
+     * @param share Share of the course revenue paid to the co-teacher, in % (per ten thousands)
+     */
+    struct Collaborator {
+        uint256 profileId;
+        uint16 share;
     }
 
+    // Divider used for percentage discounts
+    uint16 private constant DISCOUNT_DIVIDER = 10000;
+
+    // Divider used for collaborator shares
+    uint16 private constant SHARE_DIVIDER = 10000;
+
+    // Maximum number of collaborators of a course
+    uint256 private constant MAX_COLLABORATORS = 10;
+
     // Role granting Escrow permission
     bytes32 public constant ESCROW_ROLE = keccak256("ESCROW_ROLE");
 
+    // Typehash of the platform authorization to create a course
+    bytes32 public constant CREATE_COURSE_TYPEHASH =
+        keccak256(
+            "CreateCourse(uint256 profileId,uint256 platformId,uint256 price,address token,string dataUri,uint256 accessDuration,uint8 status,uint256 nonce,uint256 deadline)"
+        );
+
+    // Typehash of the platform authorization to update a course
+    bytes32 public constant UPDATE_COURSE_TYPEHASH =
+        keccak256(
+            "UpdateCourse(uint256 profileId,uint256 courseId,uint256 price,address token,string dataUri,uint256 nonce,uint256 deadline)"
+        );
+
+    // Typehash of the platform authorization to create a bundle
+    bytes32 public constant CREATE_BUNDLE_TYPEHASH =
+        keccak256(
+            "CreateBundle(uint256 profileId,uint256 platformId,uint256[] courseIds,uint256 price,address token,string dataUri,uint256 nonce,uint256 deadline)"
+        );
+
+    // Typehash of the platform authorization to update a bundle
+    bytes32 public constant UPDATE_BUNDLE_TYPEHASH =
+        keccak256(
+            "UpdateBundle(uint256 profileId,uint256 bundleId,uint256 price,address token,string dataUri,uint256 nonce,uint256 deadline)"
+        );
+
     // Course id to course
     mapping(uint256 => Course) public courses;
 
     // Course id counter
     Counters.Counter nextCourseId;
 
+    // Bundle id to bundle
+    mapping(uint256 => Bundle) private bundles;
+
+    // Bundle id counter
+    Counters.Counter nextBundleId;
+
+    // Course id to collaborators sharing the revenue of the course with its owner
+    mapping(uint256 => Collaborator[]) private collaborators;
+
+    // Course id to % fee (per ten thousands) of the course revenue paid to referrers
+    mapping(uint256 => uint16) public referralFees;
+
+    // Coupons of a teacher (teacher profile id -> hash of the coupon code -> coupon)
+    mapping(uint256 => mapping(bytes32 => Coupon)) public coupons;
+
+    // Tokens allowed by the protocol to price courses and bundles
+    EnumerableSet.AddressSet private allowedTokens;
+
+    // Profile id to nonce used in platform signatures
+    mapping(uint256 => uint256) public nonces;
+
+    // Timestamp at which the access of a profile to a course expires (course id -> profile id -> expiry)
+    mapping(uint256 => mapping(uint256 => uint256)) public accessExpiry;
+
+    // Platform id to balance accumulated from posting fees
+    mapping(uint256 => uint256) public platformBalance;
+
     // KnowledgeLayerID contract
     IKnowledgeLayerID private knowledgeLayerId;
 
+    // KnowledgeLayerPlatformID contract
+    IKnowledgeLayerPlatformID private knowledgeLayerPlatformId;
+
     // =========================== Events ==============================
 
     /**
@@ -49,7 +197,9 @@ contract KnowledgeLayerCourse is ERC1155, AccessControl {
         uint256 platformId,
         uint256 price,
         address token,
-        string dataUri
+        string dataUri,
+        uint256 accessDuration,
+        CourseStatus status
     );
 
     /**
@@ -57,6 +207,87 @@ contract KnowledgeLayerCourse is ERC1155, AccessControl {
      */
     event CourseUpdated(uint256 indexed courseId, uint256 price, address token, string dataUri);
 
+    /**
+     * @dev Emitted when the status of a course is updated
+     */
+    event CourseStatusUpdated(uint256 indexed courseId, CourseStatus status);
+
+    /**
+     * @dev Emitted when the collaborators of a course are updated
+     */
+    event CollaboratorsUpdated(uint256 indexed courseId, Collaborator[] collaborators);
+
+    /**
+     * @dev Emitted when the referral fee of a course is updated
+     */
+    event ReferralFeeUpdated(uint256 indexed courseId, uint16 referralFee);
+
+    /**
+     * @dev Emitted when a new bundle is created
+     */
+    event BundleCreated(
+        uint256 indexed bundleId,
+        uint256 ownerId,
+        uint256 platformId,
+        uint256 price,
+        address token,
+        string dataUri,
+        uint256[] courseIds
+    );
+
+    /**
+     * @dev Emitted when the price of a bundle is updated
+     */
+    event BundleUpdated(uint256 indexed bundleId, uint256 price, address token, string dataUri);
+
+    /**
+     * @dev Emitted when a token is allowed or disallowed by the protocol to price courses
+     */
+    event AllowedTokenUpdated(address token, bool isAllowed);
+
+    /**
+     * @dev Emitted when a teacher creates a coupon
+     */
+    event CouponCreated(
+        uint256 indexed ownerId,
+        bytes32 indexed codeHash,
+        uint256 courseId,
+        DiscountType discountType,
+        uint256 discount,
+        uint256 maxUses,
+        uint256 expiry
+    );
+
+    /**
+     * @dev Emitted when a teacher disables a coupon
+     */
+    event CouponDisabled(uint256 indexed ownerId, bytes32 indexed codeHash);
+
+    /**
+     * @dev Emitted when a coupon is redeemed for the purchase of a course
+     */
+    event CouponRedeemed(uint256 indexed ownerId, bytes32 indexed codeHash, uint256 courseId, uint256 profileId);
+
+    /**
+     * @dev Emitted when a use of a coupon is given back because the purchase it was redeemed for was reimbursed
+     */
+    event CouponUseRestored(uint256 indexed ownerId, bytes32 indexed codeHash, uint256 courseId);
+
+    /**
+     * @dev Emitted when a posting fee is released to a platform's balance
+     */
+    event PostingFeeReleased(uint256 platformId, uint256 courseId, uint256 amount);
+
+    /**
+     * @dev Emitted when a platform claims its balance accumulated from posting fees
+     */
+    event PostingFeesClaimed(uint256 platformId, uint256 amount);
+
+    /**
+     * @dev Emitted when the access of a profile to a time-limited course is extended or reduced
+     */
+    event AccessExpiryUpdated(uint256 indexed courseId, uint256 indexed profileId, uint256 expiry);
+
     // =========================== Modifiers ==============================
 
     /**
@@ -70,17 +301,48 @@ contract KnowledgeLayerCourse is ERC1155, AccessControl {
 
     // =========================== Constructor ==============================
 
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
     /**
+     * @notice Initializes the proxy, replacing the constructor
      * @param _knowledgeLayerIdAddress Address of the KnowledgeLayerID contract
+     * @param _knowledgeLayerPlatformIdAddress Address of the KnowledgeLayerPlatformID contract
      */
-    constructor(address _knowledgeLayerIdAddress) ERC1155("") {
+    function initialize(address _knowledgeLayerIdAddress, address _knowledgeLayerPlatformIdAddress) public initializer {
+        __ERC1155_init("");
+        __AccessControl_init();
+        __EIP712_init("KnowledgeLayerCourse", "1");
+        __UUPSUpgradeable_init();
         _setupRole(DEFAULT_ADMIN_ROLE, _msgSender());
         knowledgeLayerId = IKnowledgeLayerID(_knowledgeLayerIdAddress);
+        knowledgeLayerPlatformId = IKnowledgeLayerPlatformID(_knowledgeLayerPlatformIdAddress);
+        allowedTokens.add(address(0));
         nextCourseId.increment();
+        nextBundleId.increment();
     }
 
     // =========================== View functions ==============================
 
+    /**
+     * @notice Returns the tokens allowed by the protocol to price courses and bundles
+     */
+    function getAllowedTokens() external view returns (address[] memory) {
+        return allowedTokens.values();
+    }
+
+    /**
+     * @notice Returns whether a token can be used to price the courses and bundles of a platform. The token must be
+     *         allowed by the protocol, and by the platform if it restricts the tokens of its courses.
+     * @param _platformId Platform id
+     * @param _token Address of the token, zero address for ETH
+     */
+    function isTokenAllowed(uint256 _platformId, address _token) public view returns (bool) {
+        return allowedTokens.contains(_token) && knowledgeLayerPlatformId.isTokenAllowed(_platformId, _token);
+    }
+
     /**
      * @notice Returns the course information
      * @param _courseId Course id
@@ -90,52 +352,159 @@ contract KnowledgeLayerCourse is ERC1155, AccessControl {
         return courses[_courseId];
     }
 
+    /**
+     * @notice Returns the collaborators sharing the revenue of a course with its owner
+     * @param _courseId Course id
+     */
+    function getCollaborators(uint256 _courseId) external view returns (Collaborator[] memory) {
+        require(_courseId < nextCourseId.current(), "Invalid course ID");
+        return collaborators[_courseId];
+    }
+
+    /**
+     * @notice Returns the bundle information
+     * @param _bundleId Bundle id
+     */
+    function getBundle(uint256 _bundleId) external view returns (Bundle memory) {
+        require(_bundleId > 0 && _bundleId < nextBundleId.current(), "Invalid bundle ID");
+        return bundles[_bundleId];
+    }
+
+    /**
+     * @notice Returns the price of a course after applying a coupon. Reverts if the coupon can't be redeemed.
+     * @param _courseId Course id
+     * @param _couponCode Code of the coupon, empty for no coupon
+     */
+    function getDiscountedPrice(uint256 _courseId, string calldata _couponCode) public view returns (uint256) {
+        require(_courseId < nextCourseId.current(), "Invalid course ID");
+        Course storage course = courses[_courseId];
+        if (bytes(_couponCode).length == 0) {
+            return course.price;
+        }
+
+        Coupon storage coupon = coupons[course.ownerId][keccak256(bytes(_couponCode))];
+        require(coupon.maxUses > 0, "Invalid coupon");
+        require(coupon.courseId == 0 || coupon.courseId == _courseId, "Coupon not valid for this course");
+        require(block.timestamp <= coupon.expiry, "Coupon expired");
+        require(coupon.uses < coupon.maxUses, "Coupon fully redeemed");
+
+        uint256 discount = coupon.discountType == DiscountType.Percentage
+            ? (course.price * coupon.discount) / DISCOUNT_DIVIDER
+            : coupon.discount;
+        return discount >= course.price ? 0 : course.price - discount;
+    }
+
+    /**
+     * @notice Returns whether a profile has access to a course, taking into account the expiry of time-limited courses
+     * @param _profileId The KnowledgeLayer ID of the user
+     * @param _courseId Course id
+     */
+    function hasAccess(uint256 _profileId, uint256 _courseId) external view returns (bool) {
+        address user = knowledgeLayerId.ownerOf(_profileId);
+        if (balanceOf(user, _courseId) == 0) {
+            return false;
+        }
+        return courses[_courseId].accessDuration == 0 || block.timestamp < accessExpiry[_courseId][_profileId];
+    }
+
     // =========================== User functions ==============================
 
     /**
-     * @dev Creates a new course
+     * @dev Creates a new course, paying the posting fee of the platform where the course is created. A course created
+     *      as a draft can't be bought until its owner publishes it.
+     *      If the platform has a signer, the creation must be authorized with a signature of the signer.
      * @param _profileId The KnowledgeLayer ID of the user owner of the course
+     * @param _platformId Platform ID where the course is created
      * @param _price Price of the course
      * @param _token Address of the token used to pay the course
      * @param _dataUri URI of the course data
+     * @param _accessDuration Duration (in seconds) of the access given by a purchase, 0 for a lifetime access
+     * @param _status Initial status of the course, draft or published
+     * @param _deadline Timestamp after which the platform signature expires
+     * @param _signature Signature of the platform signer, empty if the platform has no signer
      */
     function createCourse(
         uint256 _profileId,
         uint256 _platformId,
         uint256 _price,
         address _token,
-        string memory _dataUri
-    ) public onlyOwnerOrDelegate(_profileId) {
-        uint256 id = nextCourseId.current();
-        courses[id] = Course({
+        string memory _dataUri,
+        uint256 _accessDuration,
+        CourseStatus _status,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) public payable onlyOwnerOrDelegate(_profileId) {
+        IKnowledgeLayerPlatformID.Platform memory platform = knowledgeLayerPlatformId.getPlatform(_platformId);
+        require(msg.value == platform.postingFee, "Non-matching funds");
+        require(isTokenAllowed(_platformId, _token), "Token not allowed");
+        require(_status == CourseStatus.Draft || _status == CourseStatus.Published, "Invalid status");
+
+        Course memory course = Course({
             ownerId: _profileId,
             platformId: _platformId,
             price: _price,
             dataUri: _dataUri,
-            token: _token
+            token: _token,
+            accessDuration: _accessDuration,
+            status: _status
         });
+
+        if (platform.signer != address(0)) {
+            _verifyPlatformSignature(platform.signer, _hashCreateCourse(course, _deadline), _deadline, _signature);
+        }
+
+        uint256 id = nextCourseId.current();
+        courses[id] = course;
         nextCourseId.increment();
 
-        emit CourseCreated(id, _profileId, _platformId, _price, _token, _dataUri);
+        platformBalance[_platformId] += platform.postingFee;
+
+        emit CourseCreated(id, _profileId, _platformId, _price, _token, _dataUri, _accessDuration, _status);
+        emit PostingFeeReleased(_platformId, id, platform.postingFee);
     }
 
     /**
-     * @dev Updates a course
+     * @dev Updates a course. If the platform of the course has a signer, the update must be authorized with a
+     *      signature of the signer.
      * @param _profileId The KnowledgeLayer ID of the user owner of the course
      * @param _courseId Id of the course
      * @param _price Price of the course
      * @param _token Address of the token used to pay the course
      * @param _dataUri URI of the course data
+     * @param _deadline Timestamp after which the platform signature expires
+     * @param _signature Signature of the platform signer, empty if the platform has no signer
      */
     function updateCourse(
         uint256 _profileId,
         uint256 _courseId,
         uint256 _price,
         address _token,
-        string memory _dataUri
+        string memory _dataUri,
+        uint256 _deadline,
+        bytes calldata _signature
     ) public onlyOwnerOrDelegate(_profileId) {
         Course storage course = courses[_courseId];
         require(course.ownerId == _profileId, "Not the owner");
+        require(course.status != CourseStatus.Archived, "Course archived");
+        require(isTokenAllowed(course.platformId, _token), "Token not allowed");
+
+        address signer = knowledgeLayerPlatformId.getSigner(course.platformId);
+        if (signer != address(0)) {
+            bytes32 structHash = keccak256(
+                abi.encode(
+                    UPDATE_COURSE_TYPEHASH,
+                    _profileId,
+                    _courseId,
+                    _price,
+                    _token,
+                    keccak256(bytes(_dataUri)),
+                    nonces[_profileId]++,
+                    _deadline
+                )
+            );
+            _verifyPlatformSignature(signer, structHash, _deadline, _signature);
+        }
+
         course.price = _price;
         course.token = _token;
         course.dataUri = _dataUri;
@@ -143,19 +512,467 @@ contract KnowledgeLayerCourse is ERC1155, AccessControl {
         emit CourseUpdated(_courseId, _price, _token, _dataUri);
     }
 
+    /**
+     * @dev Updates the status of a course. Only published courses can be bought, and archiving a course is final.
+     *      Buyers keep their access to the course whatever its status.
+     * @param _profileId The KnowledgeLayer ID of the user owner of the course
+     * @param _courseId Id of the course
+     * @param _status New status of the course
+     */
+    function updateCourseStatus(
+        uint256 _profileId,
+        uint256 _courseId,
+        CourseStatus _status
+    ) public onlyOwnerOrDelegate(_profileId) {
+        Course storage course = courses[_courseId];
+        require(course.ownerId == _profileId, "Not the owner");
+        require(course.status != CourseStatus.Archived, "Course archived");
+        require(course.status != _status, "Status unchanged");
+        course.status = _status;
+
+        emit CourseStatusUpdated(_courseId, _status);
+    }
+
+    /**
+     * @dev Sets the co-teachers of a course and their share of its revenue. The owner of the course receives the
+     *      rest of the revenue. Shares apply to the transactions released after the update. When the course is sold in
+     *      a bundle, shares apply to the part of the bundle revenue of the course, split evenly between its courses.
+     * @param _profileId The KnowledgeLayer ID of the user owner of the course
+     * @param _courseId Id of the course
+     * @param _collaborators Co-teachers of the course with their share, replacing the current ones
+     */
+    function updateCollaborators(
+        uint256 _profileId,
+        uint256 _courseId,
+        Collaborator[] calldata _collaborators
+    ) public onlyOwnerOrDelegate(_profileId) {
+        require(courses[_courseId].ownerId == _profileId, "Not the owner");
+        require(_collaborators.length <= MAX_COLLABORATORS, "Too many collaborators");
+
+        delete collaborators[_courseId];
+
+        uint256 totalShares;
+        for (uint256 i = 0; i < _collaborators.length; i++) {
+            require(_collaborators[i].profileId != _profileId, "Owner can't be a collaborator");
+            require(_collaborators[i].share > 0, "Invalid share");
+            knowledgeLayerId.isValid(_collaborators[i].profileId);
+
+            totalShares += _collaborators[i].share;
+            collaborators[_courseId].push(_collaborators[i]);
+        }
+        require(totalShares <= SHARE_DIVIDER, "Invalid shares");
+
+        emit CollaboratorsUpdated(_courseId, _collaborators);
+    }
+
+    /**
+     * @dev Updates the fee paid to referrers of a course, taken from the revenue of the course
+     * @param _profileId The KnowledgeLayer ID of the user owner of the course
+     * @param _courseId Id of the course
+     * @param _referralFee The % fee (per ten thousands) paid to referrers, 0 to disable referrals
+     */
+    function updateReferralFee(
+        uint256 _profileId,
+        uint256 _courseId,
+        uint16 _referralFee
+    ) public onlyOwnerOrDelegate(_profileId) {
+        require(courses[_courseId].ownerId == _profileId, "Not the owner");
+        require(_referralFee <= SHARE_DIVIDER, "Invalid referral fee");
+        referralFees[_courseId] = _referralFee;
+
+        emit ReferralFeeUpdated(_courseId, _referralFee);
+    }
+
+    /**
+     * @dev Creates a bundle of courses owned by the user, sold at a single price. If the platform has a signer, the
+     *      creation must be authorized with a signature of the signer.
+     * @param _profileId The KnowledgeLayer ID of the user owner of the courses
+     * @param _platformId Platform ID where the bundle is created
+     * @param _courseIds IDs of the courses included in the bundle, without duplicates
+     * @param _price Price of the bundle
+     * @param _token Address of the token used to pay the bundle
+     * @param _dataUri URI of the bundle data
+     * @param _deadline Timestamp after which the platform signature expires
+     * @param _signature Signature of the platform signer, empty if the platform has no signer
+     */
+    function createBundle(
+        uint256 _profileId,
+        uint256 _platformId,
+        uint256[] calldata _courseIds,
+        uint256 _price,
+        address _token,
+        string memory _dataUri,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) public onlyOwnerOrDelegate(_profileId) {
+        require(isTokenAllowed(_platformId, _token), "Token not allowed");
+        require(_courseIds.length > 1, "A bundle needs at least two courses");
+
+        for (uint256 i = 0; i < _courseIds.length; i++) {
+            require(_courseIds[i] < nextCourseId.current(), "Invalid course ID");
+            require(courses[_courseIds[i]].ownerId == _profileId, "Not the owner");
+            for (uint256 j = 0; j < i; j++) {
+                require(_courseIds[j] != _courseIds[i], "Duplicate course ID");
+            }
+        }
+
+        address signer = knowledgeLayerPlatformId.getSigner(_platformId);
+        if (signer != address(0)) {
+            bytes32 structHash = keccak256(
+                abi.encode(
+                    CREATE_BUNDLE_TYPEHASH,
+                    _profileId,
+                    _platformId,
+                    keccak256(abi.encodePacked(_courseIds)),
+                    _price,
+                    _token,
+                    keccak256(bytes(_dataUri)),
+                    nonces[_profileId]++,
+                    _deadline
+                )
+            );
+            _verifyPlatformSignature(signer, structHash, _deadline, _signature);
+        }
+
+        uint256 id = nextBundleId.current();
+        bundles[id] = Bundle({
+            ownerId: _profileId,
+            platformId: _platformId,
+            price: _price,
+            token: _token,
+            dataUri: _dataUri,
+            courseIds: _courseIds
+        });
+        nextBundleId.increment();
+
+        emit BundleCreated(id, _profileId, _platformId, _price, _token, _dataUri, _courseIds);
+    }
+
+    /**
+     * @dev Updates a bundle. If the platform of the bundle has a signer, the update must be authorized with a
+     *      signature of the signer.
+     * @param _profileId The KnowledgeLayer ID of the user owner of the bundle
+     * @param _bundleId Id of the bundle
+     * @param _price Price of the bundle
+     * @param _token Address of the token used to pay the bundle
+     * @param _dataUri URI of the bundle data
+     * @param _deadline Timestamp after which the platform signature expires
+     * @param _signature Signature of the platform signer, empty if the platform has no signer
+     */
+    function updateBundle(
+        uint256 _profileId,
+        uint256 _bundleId,
+        uint256 _price,
+        address _token,
+        string memory _dataUri,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) public onlyOwnerOrDelegate(_profileId) {
+        Bundle storage bundle = bundles[_bundleId];
+        require(bundle.ownerId == _profileId, "Not the owner");
+        require(isTokenAllowed(bundle.platformId, _token), "Token not allowed");
+
+        address signer = knowledgeLayerPlatformId.getSigner(bundle.platformId);
+        if (signer != address(0)) {
+            bytes32 structHash = keccak256(
+                abi.encode(
+                    UPDATE_BUNDLE_TYPEHASH,
+                    _profileId,
+                    _bundleId,
+                    _price,
+                    _token,
+                    keccak256(bytes(_dataUri)),
+                    nonces[_profileId]++,
+                    _deadline
+                )
+            );
+            _verifyPlatformSignature(signer, structHash, _deadline, _signature);
+        }
+
+        bundle.price = _price;
+        bundle.token = _token;
+        bundle.dataUri = _dataUri;
+
+        emit BundleUpdated(_bundleId, _price, _token, _dataUri);
+    }
+
+    /**
+     * @dev Creates a coupon giving a discount on the courses of the teacher
+     * @param _profileId The KnowledgeLayer ID of the teacher
+     * @param _codeHash Keccak256 hash of the coupon code
+     * @param _courseId ID of the course the coupon can be used for, 0 for all the courses of the teacher
+     * @param _discountType Whether the discount is a percentage of the price or a fixed amount
+     * @param _discount The discount, in % (per ten thousands) or in amount of the course token
+     * @param _maxUses Maximum number of times the coupon can be redeemed
+     * @param _expiry Timestamp after which the coupon can't be redeemed
+     */
+    function createCoupon(
+        uint256 _profileId,
+        bytes32 _codeHash,
+        uint256 _courseId,
+        DiscountType _discountType,
+        uint256 _discount,
+        uint256 _maxUses,
+        uint256 _expiry
+    ) public onlyOwnerOrDelegate(_profileId) {
+        if (_courseId != 0) {
+            require(courses[_courseId].ownerId == _profileId, "Not the owner");
+        }
+        require(_discountType == DiscountType.Fixed || _discount <= DISCOUNT_DIVIDER, "Invalid discount");
+        require(_maxUses > 0, "Invalid max uses");
+        require(_expiry > block.timestamp, "Invalid expiry");
+        require(coupons[_profileId][_codeHash].maxUses == 0, "Coupon already exists");
+
+        coupons[_profileId][_codeHash] = Coupon({
+            courseId: _courseId,
+            discountType: _discountType,
+            discount: _discount,
+            maxUses: _maxUses,
+            uses: 0,
+            expiry: _expiry
+        });
+
+        emit CouponCreated(_profileId, _codeHash, _courseId, _discountType, _discount, _maxUses, _expiry);
+    }
+
+    /**
+     * @dev Disables a coupon by expiring it, so that it can't be redeemed anymore
+     * @param _profileId The KnowledgeLayer ID of the teacher
+     * @param _codeHash Keccak256 hash of the coupon code
+     */
+    function disableCoupon(uint256 _profileId, bytes32 _codeHash) public onlyOwnerOrDelegate(_profileId) {
+        Coupon storage coupon = coupons[_profileId][_codeHash];
+        require(coupon.maxUses > 0, "Invalid coupon");
+        coupon.expiry = 0;
+
+        emit CouponDisabled(_profileId, _codeHash);
+    }
+
+    // =========================== Platform functions ==============================
+
+    /**
+     * @dev Allows a platform owner to claim its balance accumulated from posting fees.
+     * @param _platformId The ID of the platform.
+     */
+    function claim(uint256 _platformId) external {
+        address recipient = knowledgeLayerPlatformId.ownerOf(_platformId);
+
+        uint256 amount = platformBalance[_platformId];
+        require(amount > 0, "Nothing to claim");
+        platformBalance[_platformId] = 0;
+
+        (bool sent, ) = payable(recipient).call{value: amount}("");
+        require(sent, "Failed to claim Ether");
+
+        emit PostingFeesClaimed(_platformId, amount);
+    }
+
     // =========================== Escrow functions ==============================
 
     /**
      * @dev Buys the course by paying the price
+     * @param _profileId The KnowledgeLayer ID of the buyer
      * @param _courseId Id of the course
      */
     function buyCourse(uint256 _profileId, uint256 _courseId) public onlyRole(ESCROW_ROLE) {
         address user = knowledgeLayerId.ownerOf(_profileId);
-        _mint(user, _courseId, 1, "");
+        _grantAccess(user, _profileId, _courseId);
+    }
+
+    /**
+     * @dev Redeems a coupon for the purchase of a course
+     * @param _profileId The KnowledgeLayer ID of the buyer
+     * @param _courseId Id of the course
+     * @param _couponCode Code of the coupon
+     * @return The price of the course after applying the coupon
+     */
+    function redeemCoupon(
+        uint256 _profileId,
+        uint256 _courseId,
+        string calldata _couponCode
+    ) public onlyRole(ESCROW_ROLE) returns (uint256) {
+        uint256 price = getDiscountedPrice(_courseId, _couponCode);
+
+        uint256 ownerId = courses[_courseId].ownerId;
+        bytes32 codeHash = keccak256(bytes(_couponCode));
+        coupons[ownerId][codeHash].uses++;
+
+        emit CouponRedeemed(ownerId, codeHash, _courseId, _profileId);
+
+        return price;
+    }
+
+    /**
+     * @dev Gives back a use of a coupon redeemed for the purchase of a course, after the buyer has been reimbursed
+     * @param _courseId Id of the course
+     * @param _codeHash Keccak256 hash of the coupon code
+     */
+    function restoreCoupon(uint256 _courseId, bytes32 _codeHash) public onlyRole(ESCROW_ROLE) {
+        uint256 ownerId = courses[_courseId].ownerId;
+        coupons[ownerId][_codeHash].uses--;
+
+        emit CouponUseRestored(ownerId, _codeHash, _courseId);
+    }
+
+    /**
+     * @dev Buys all the courses of a bundle
+     * @param _profileId The KnowledgeLayer ID of the buyer
+     * @param _bundleId Id of the bundle
+     */
+    function buyBundle(uint256 _profileId, uint256 _bundleId) public onlyRole(ESCROW_ROLE) {
+        address user = knowledgeLayerId.ownerOf(_profileId);
+        uint256[] storage courseIds = bundles[_bundleId].courseIds;
+        for (uint256 i = 0; i < courseIds.length; i++) {
+            _grantAccess(user, _profileId, courseIds[i]);
+        }
+    }
+
+    /**
+     * @dev Revokes the access to a course after the buyer has been reimbursed
+     * @param _profileId The KnowledgeLayer ID of the buyer
+     * @param _courseId Id of the course
+     */
+    function revokeCourse(uint256 _profileId, uint256 _courseId) public onlyRole(ESCROW_ROLE) {
+        address user = knowledgeLayerId.ownerOf(_profileId);
+        _revokeAccess(user, _profileId, _courseId);
+    }
+
+    /**
+     * @dev Revokes the access to all the courses of a bundle after the buyer has been reimbursed
+     * @param _profileId The KnowledgeLayer ID of the buyer
+     * @param _bundleId Id of the bundle
+     */
+    function revokeBundle(uint256 _profileId, uint256 _bundleId) public onlyRole(ESCROW_ROLE) {
+        address user = knowledgeLayerId.ownerOf(_profileId);
+        uint256[] storage courseIds = bundles[_bundleId].courseIds;
+        for (uint256 i = 0; i < courseIds.length; i++) {
+            _revokeAccess(user, _profileId, courseIds[i]);
+        }
+    }
+
+    // =========================== Owner functions ==============================
+
+    /**
+     * @dev Allows or disallows a token to price courses and bundles. Courses already priced in a disallowed token
+     *      can still be bought.
+     * @param _token Address of the token, zero address for ETH
+     * @param _isAllowed Whether the token is allowed
+     */
+    function updateAllowedToken(address _token, bool _isAllowed) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_isAllowed) {
+            allowedTokens.add(_token);
+        } else {
+            allowedTokens.remove(_token);
+        }
+
+        emit AllowedTokenUpdated(_token, _isAllowed);
+    }
+
+    /**
+     * @dev Sets the forwarder allowed to relay meta-transactions, the zero address disables them
+     * @param _forwarder Address of the trusted forwarder
+     */
+    function setTrustedForwarder(address _forwarder) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setTrustedForwarder(_forwarder);
+    }
+
+    // =========================== Private functions ==============================
+
+    /**
+     * @notice Mints a course token to a buyer. For time-limited courses, the access is extended by the access
+     *         duration of the course, starting from the current expiry if the access has not expired yet.
+     * @param _user The address of the buyer
+     * @param _profileId The KnowledgeLayer ID of the buyer
+     * @param _courseId Id of the course
+     */
+    function _grantAccess(address _user, uint256 _profileId, uint256 _courseId) private {
+        require(courses[_courseId].status == CourseStatus.Published, "Course not published");
+        _mint(_user, _courseId, 1, "");
+
+        uint256 accessDuration = courses[_courseId].accessDuration;
+        if (accessDuration > 0) {
+            uint256 expiry = accessExpiry[_courseId][_profileId];
+            uint256 start = expiry > block.timestamp ? expiry : block.timestamp;
+            _updateAccessExpiry(_profileId, _courseId, start + accessDuration);
+        }
+    }
+
+    /**
+     * @notice Burns a course token of a buyer. For time-limited courses, the access given by the purchase is
+     *         removed from the expiry.
+     * @param _user The address of the buyer
+     * @param _profileId The KnowledgeLayer ID of the buyer
+     * @param _courseId Id of the course
+     */
+    function _revokeAccess(address _user, uint256 _profileId, uint256 _courseId) private {
+        _burn(_user, _courseId, 1);
+
+        uint256 accessDuration = courses[_courseId].accessDuration;
+        if (accessDuration > 0) {
+            uint256 expiry = accessExpiry[_courseId][_profileId];
+            _updateAccessExpiry(_profileId, _courseId, expiry > accessDuration ? expiry - accessDuration : 0);
+        }
+    }
+
+    /**
+     * @notice Returns the EIP-712 struct hash of a course creation, consuming the nonce of the owner profile
+     * @param _course The course to create
+     * @param _deadline Timestamp after which the platform signature expires
+     */
+    function _hashCreateCourse(Course memory _course, uint256 _deadline) private returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    CREATE_COURSE_TYPEHASH,
+                    _course.ownerId,
+                    _course.platformId,
+                    _course.price,
+                    _course.token,
+                    keccak256(bytes(_course.dataUri)),
+                    _course.accessDuration,
+                    _course.status,
+                    nonces[_course.ownerId]++,
+                    _deadline
+                )
+            );
+    }
+
+    /**
+     * @notice Updates the timestamp at which the access of a profile to a course expires
+     * @param _profileId The KnowledgeLayer ID of the user
+     * @param _courseId Id of the course
+     * @param _expiry The new expiry timestamp
+     */
+    function _updateAccessExpiry(uint256 _profileId, uint256 _courseId, uint256 _expiry) private {
+        accessExpiry[_courseId][_profileId] = _expiry;
+        emit AccessExpiryUpdated(_courseId, _profileId, _expiry);
+    }
+
+    /**
+     * @notice Checks that an operation has been authorized by the platform signer
+     * @param _signer Address of the platform signer
+     * @param _structHash Hash of the EIP-712 struct of the operation
+     * @param _deadline Timestamp after which the signature expires
+     * @param _signature Signature of the platform signer
+     */
+    function _verifyPlatformSignature(
+        address _signer,
+        bytes32 _structHash,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) private view {
+        require(block.timestamp <= _deadline, "Signature expired");
+        (address recovered, ) = ECDSA.tryRecover(_hashTypedDataV4(_structHash), _signature);
+        require(recovered == _signer, "Invalid signature");
     }
 
     // =========================== Overrides ==============================
 
+    /**
+     * @dev Restricts upgrades of the implementation to the admin
+     */
+    function _authorizeUpgrade(address) internal override(UUPSUpgradeable) onlyRole(DEFAULT_ADMIN_ROLE) {}
+
     /**
      * @dev Blocks token transfers
      */
@@ -179,7 +996,25 @@ contract KnowledgeLayerCourse is ERC1155, AccessControl {
     /**
      * @dev See {IERC165-supportsInterface}.
      */
-    function supportsInterface(bytes4 interfaceId) public view virtual override(ERC1155, AccessControl) returns (bool) {
-        return ERC1155.supportsInterface(interfaceId) || AccessControl.supportsInterface(interfaceId);
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view virtual override(ERC1155Upgradeable, AccessControlUpgradeable) returns (bool) {
+        return
+            ERC1155Upgradeable.supportsInterface(interfaceId) ||
+            AccessControlUpgradeable.supportsInterface(interfaceId);
+    }
+
+    /**
+     * @dev See {ERC2771Recipient-_msgSender}.
+     */
+    function _msgSender() internal view virtual override(ContextUpgradeable, ERC2771Recipient) returns (address) {
+        return ERC2771Recipient._msgSender();
+    }
+
+    /**
+     * @dev See {ERC2771Recipient-_msgData}.
+     */
+    function _msgData() internal view virtual override(ContextUpgradeable, ERC2771Recipient) returns (bytes calldata) {
+        return ERC2771Recipient._msgData();
     }
 }
@@ -1,18 +1,36 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.9;
 
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import {Counters} from "@openzeppelin/contracts/utils/Counters.sol";
-import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/draft-IERC20Permit.sol";
+import {ContextUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ContextUpgradeable.sol";
+import {EIP712Upgradeable} from "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 
 import {IKnowledgeLayerID} from "./interfaces/IKnowledgeLayerID.sol";
 import {IKnowledgeLayerPlatformID} from "./interfaces/IKnowledgeLayerPlatformID.sol";
 import {IKnowledgeLayerCourse} from "./interfaces/IKnowledgeLayerCourse.sol";
+import {IArbitrable} from "./interfaces/IArbitrable.sol";
+import {IArbitrator} from "./interfaces/IArbitrator.sol";
+import {ERC2771Recipient} from "./libs/ERC2771Recipient.sol";
+import {EscrowDisputes} from "./libs/EscrowDisputes.sol";
 
-contract KnowledgeLayerEscrow is Ownable {
+contract KnowledgeLayerEscrow is
+    Initializable,
+    OwnableUpgradeable,
+    EIP712Upgradeable,
+    IArbitrable,
+    ERC2771Recipient,
+    UUPSUpgradeable
+{
     using Counters for Counters.Counter;
     using SafeERC20 for IERC20;
+    using EscrowDisputes for EscrowDisputes.Dispute;
 
     /**
      * @notice Payment type
@@ -22,30 +40,92 @@ contract KnowledgeLayerEscrow is Ownable {
         Reimburse
     }
 
+    /**
+     * @notice Transaction status
+     */
+    enum TransactionStatus {
+        Pending,
+        Released,
+        Reimbursed,
+        Disputed
+    }
+
     /**
      * @notice Transaction struct
      * @param id Id of the transaction
      * @param sender The party paying the escrow amount
+     * @param beneficiaryId The KnowledgeLayer ID of the profile given access to the courses, the profile of the
+     *                      sender unless the purchase is a gift
      * @param receiver The intended receiver of the escrow amount
      * @param token The token used for the transaction
      * @param amount The amount of the transaction EXCLUDING FEES
-     * @param courseId The ID of the associated course
+     * @param courseId The ID of the associated course, 0 if a bundle is bought
+     * @param bundleId The ID of the associated bundle, 0 if a single course is bought
      * @param buyPlatformId The ID of the platform where the course is being bought
      * @param protocolFee The % fee (per ten thousands) to be paid to the protocol
      * @param originFee The % fee (per ten thousands) to be paid to the platform where the course was created
      * @param buyFee The % fee (per ten thousands) to be paid to the platform where the course is being bought
+     * @param referrerId The KnowledgeLayer ID of the referrer of the purchase, 0 if none
+     * @param referralFee The % fee (per ten thousands) of the amount to be paid to the referrer
+     * @param createdAt The timestamp of the creation of the transaction
+     * @param refundWindow The period (in seconds) during which the buyer can be reimbursed
+     * @param holdPeriod The period (in seconds) during which the funds can't be released
+     * @param status Status of the transaction. A disputed transaction is released if the seller receives any part
+     *               of the funds after the ruling, and reimbursed otherwise.
      */
     struct Transaction {
         uint256 id;
         address sender;
+        uint256 beneficiaryId;
         address receiver;
         address token;
         uint256 amount;
         uint256 courseId;
+        uint256 bundleId;
         uint256 buyPlatformId;
         uint16 protocolFee;
         uint16 originFee;
         uint16 buyFee;
+        uint256 referrerId;
+        uint16 referralFee;
+        uint256 createdAt;
+        uint256 refundWindow;
+        uint256 holdPeriod;
+        TransactionStatus status;
+    }
+
+    /**
+     * @notice Price quote struct
+     * @param token The token used to pay the course
+     * @param price The price of the course EXCLUDING FEES
+     * @param protocolFee The amount of the fee paid to the protocol
+     * @param originFee The amount of the fee paid to the platform where the course was created
+     * @param buyFee The amount of the fee paid to the platform where the course is bought
+     * @param totalPrice The total amount to pay to buy the course
+     */
+    struct PriceQuote {
+        address token;
+        uint256 price;
+        uint256 protocolFee;
+        uint256 originFee;
+        uint256 buyFee;
+        uint256 totalPrice;
+    }
+
+    /**
+     * @notice EIP-2612 permit struct
+     * @param value The amount the escrow is allowed to spend
+     * @param deadline The timestamp after which the permit expires
+     * @param v The recovery byte of the permit signature
+     * @param r The first 32 bytes of the permit signature
+     * @param s The second 32 bytes of the permit signature
+     */
+    struct Permit {
+        uint256 value;
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
     }
 
     // Divider used for fees
@@ -54,21 +134,69 @@ contract KnowledgeLayerEscrow is Ownable {
     // Index used to represent protocol where platform id is used
     uint8 private constant PROTOCOL_INDEX = 0;
 
+    // Ruling in favor of the sender, who gets reimbursed
+    uint8 private constant SENDER_WINS = 1;
+
+    // Ruling in favor of the receiver, who gets paid
+    uint8 private constant RECEIVER_WINS = 2;
+
+    // Typehash of the platform authorization to buy a course
+    bytes32 public constant CREATE_TRANSACTION_TYPEHASH =
+        keccak256(
+            "CreateTransaction(uint256 profileId,uint256 courseId,uint256 platformId,uint256 nonce,uint256 deadline)"
+        );
+
+    // Typehash of the platform authorization to buy a course as a gift for another profile
+    bytes32 public constant CREATE_GIFT_TRANSACTION_TYPEHASH =
+        keccak256(
+            "CreateGiftTransaction(uint256 profileId,uint256 beneficiaryId,uint256 courseId,uint256 platformId,uint256 nonce,uint256 deadline)"
+        );
+
+    // Typehash of the platform authorization to buy a bundle
+    bytes32 public constant CREATE_BUNDLE_TRANSACTION_TYPEHASH =
+        keccak256(
+            "CreateBundleTransaction(uint256 profileId,uint256 bundleId,uint256 platformId,uint256 nonce,uint256 deadline)"
+        );
+
     // Transaction id to transaction
     mapping(uint256 => Transaction) private transactions;
 
+    // Transaction id to dispute
+    mapping(uint256 => EscrowDisputes.Dispute) public disputes;
+
+    // Arbitrator address to dispute id to transaction id
+    mapping(address => mapping(uint256 => uint256)) private disputeIdToTransactionId;
+
     // Transaction id counter
     Counters.Counter nextTransactionId;
 
+    // Profile id to nonce used in platform signatures
+    mapping(uint256 => uint256) public nonces;
+
     // Protocol fee per sale (percentage per 10,000, upgradable)
     uint16 public protocolFee;
 
     // Platform id to balance accumulated for fees for each token
     mapping(uint256 => mapping(address => uint256)) public platformBalance;
 
+    // Profile id to balance withdrawable from released payments for each token
+    mapping(uint256 => mapping(address => uint256)) public profileBalance;
+
     // Address which will receive the protocol fees
     address payable public protocolTreasuryAddress;
 
+    // Buyer profile id to ids of the transactions it paid for
+    mapping(uint256 => uint256[]) private buyerTransactionIds;
+
+    // Teacher profile id to ids of the transactions of its courses and bundles
+    mapping(uint256 => uint256[]) private teacherTransactionIds;
+
+    // Course id to ids of the transactions buying it, bundle purchases excluded
+    mapping(uint256 => uint256[]) private courseTransactionIds;
+
+    // Platform id to ids of the transactions made through it
+    mapping(uint256 => uint256[]) private platformTransactionIds;
+
     // KnowledgeLayerID contract
     IKnowledgeLayerID private knowledgeLayerId;
 
@@ -78,6 +206,9 @@ contract KnowledgeLayerEscrow is Ownable {
     // KnowledgeLayerCourse contract
     IKnowledgeLayerCourse private knowledgeLayerCourse;
 
+    // Transaction id to the hash of the coupon code redeemed for the purchase, zero if none
+    mapping(uint256 => bytes32) private couponCodeHashes;
+
     // =========================== Events ==============================
 
     /**
@@ -90,10 +221,14 @@ contract KnowledgeLayerEscrow is Ownable {
         address token,
         uint256 amount,
         uint256 courseId,
+        uint256 bundleId,
         uint256 buyPlatformId,
         uint16 protocolFee,
         uint16 originFee,
-        uint16 buyFee
+        uint16 buyFee,
+        uint256 referrerId,
+        uint16 referralFee,
+        uint256 beneficiaryId
     );
 
     /**
@@ -106,6 +241,16 @@ contract KnowledgeLayerEscrow is Ownable {
      */
     event Payment(uint256 transactionId, PaymentType paymentType);
 
+    /**
+     * @dev Emitted when the funds of several transactions are released at once
+     */
+    event TransactionsReleased(uint256 profileId, uint256[] transactionIds);
+
+    /**
+     * @dev Emitted when a platform claims its balances, for one or several tokens
+     */
+    event FeesClaimed(uint256 platformId, address[] tokens, uint256[] amounts);
+
     /**
      * @dev Emitted when an origin fee is released to a platform's balance
      */
@@ -116,6 +261,42 @@ contract KnowledgeLayerEscrow is Ownable {
      */
     event BuyFeeReleased(uint256 platformId, uint256 courseId, address token, uint256 amount);
 
+    /**
+     * @dev Emitted when a referral fee is paid to the referrer of a purchase
+     */
+    event ReferralFeeReleased(uint256 referrerId, uint256 courseId, address token, uint256 amount);
+
+    /**
+     * @dev Emitted when a payment, refund or arbitration fee is credited to the balance of a profile
+     */
+    event BalanceCredited(uint256 profileId, address token, uint256 amount);
+
+    /**
+     * @dev Emitted when a profile withdraws its balance
+     */
+    event BalanceWithdrawn(uint256 profileId, address token, uint256 amount);
+
+    /**
+     * @dev Emitted when the share of a co-teacher of a course is paid
+     */
+    event CollaboratorShareReleased(uint256 transactionId, uint256 profileId, address token, uint256 amount);
+
+    /**
+     * @dev Emitted by EscrowDisputes when the sender raises a dispute and pays the arbitration fee
+     */
+    event DisputeRaised(uint256 transactionId, address arbitrator, uint256 senderFee);
+
+    /**
+     * @dev Emitted by EscrowDisputes when the receiver pays the arbitration fee and the dispute is created in the
+     *      arbitrator contract
+     */
+    event DisputeCreated(uint256 transactionId, address arbitrator, uint256 disputeId, uint256 receiverFee);
+
+    /**
+     * @dev Emitted when a dispute is resolved, either by the arbitrator or by timeout
+     */
+    event DisputeResolved(uint256 transactionId, uint256 ruling);
+
     // =========================== Modifiers ==============================
 
     /**
@@ -129,15 +310,27 @@ contract KnowledgeLayerEscrow is Ownable {
 
     // =========================== Constructor ==============================
 
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
     /**
+     * @notice Initializes the proxy, replacing the constructor
      * @param _knowledgeLayerIdAddress Address of the KnowledgeLayerID contract
+     * @param _knowledgeLayerPlatformIdAddress Address of the KnowledgeLayerPlatformID contract
+     * @param _knowledgeLayerCourseAddress Address of the KnowledgeLayerCourse contract
+     * @param _protocolTreasuryAddress Address receiving the protocol fees
      */
-    constructor(
+    function initialize(
         address _knowledgeLayerIdAddress,
         address _knowledgeLayerPlatformIdAddress,
         address _knowledgeLayerCourseAddress,
         address _protocolTreasuryAddress
-    ) {
+    ) public initializer {
+        __Ownable_init();
+        __EIP712_init("KnowledgeLayerEscrow", "1");
+        __UUPSUpgradeable_init();
         knowledgeLayerId = IKnowledgeLayerID(_knowledgeLayerIdAddress);
         knowledgeLayerPlatformId = IKnowledgeLayerPlatformID(_knowledgeLayerPlatformIdAddress);
         knowledgeLayerCourse = IKnowledgeLayerCourse(_knowledgeLayerCourseAddress);
@@ -150,42 +343,569 @@ contract KnowledgeLayerEscrow is Ownable {
     // =========================== View functions ==============================
 
     /**
-     * @dev Returns the details of a transaction. Only the transaction sender or receiver can call this function
+     * @dev Returns the details of a transaction. Only the transaction sender or receiver, or the owner of the
+     *      platform where the transaction was made, can call this function
      * @param _transactionId Id of the transaction
      */
     function getTransaction(uint256 _transactionId) external view returns (Transaction memory) {
-        require(_transactionId < nextTransactionId.current(), "Invalid transaction id");
+        _checkTransactionId(_transactionId);
         Transaction memory transaction = transactions[_transactionId];
 
         address sender = _msgSender();
         require(
-            sender == transaction.sender || sender == transaction.receiver,
+            sender == transaction.sender ||
+                sender == transaction.receiver ||
+                sender == knowledgeLayerPlatformId.ownerOf(transaction.buyPlatformId),
             "You are not related to this transaction"
         );
         return transaction;
     }
 
+    /**
+     * @dev Returns the status of a transaction
+     * @param _transactionId Id of the transaction
+     */
+    function getTransactionStatus(uint256 _transactionId) external view returns (TransactionStatus) {
+        _checkTransactionId(_transactionId);
+        return transactions[_transactionId].status;
+    }
+
+    /**
+     * @dev Returns a page of the ids of the transactions paid for by a profile
+     * @param _profileId The KnowledgeLayer ID of the buyer
+     * @param _offset Index of the first id to return
+     * @param _limit Maximum number of ids to return
+     * @return ids The ids of the transactions, oldest first
+     * @return total The total number of transactions of the buyer
+     */
+    function getBuyerTransactionIds(
+        uint256 _profileId,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory ids, uint256 total) {
+        return _paginate(buyerTransactionIds[_profileId], _offset, _limit);
+    }
+
+    /**
+     * @dev Returns a page of the ids of the transactions of the courses and bundles of a teacher
+     * @param _profileId The KnowledgeLayer ID of the teacher
+     * @param _offset Index of the first id to return
+     * @param _limit Maximum number of ids to return
+     * @return ids The ids of the transactions, oldest first
+     * @return total The total number of transactions of the teacher
+     */
+    function getTeacherTransactionIds(
+        uint256 _profileId,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory ids, uint256 total) {
+        return _paginate(teacherTransactionIds[_profileId], _offset, _limit);
+    }
+
+    /**
+     * @dev Returns a page of the ids of the transactions buying a course. Bundle purchases are not included.
+     * @param _courseId Id of the course
+     * @param _offset Index of the first id to return
+     * @param _limit Maximum number of ids to return
+     * @return ids The ids of the transactions, oldest first
+     * @return total The total number of transactions of the course
+     */
+    function getCourseTransactionIds(
+        uint256 _courseId,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory ids, uint256 total) {
+        return _paginate(courseTransactionIds[_courseId], _offset, _limit);
+    }
+
+    /**
+     * @dev Returns a page of the ids of the transactions made through a platform
+     * @param _platformId Id of the platform where the courses were bought
+     * @param _offset Index of the first id to return
+     * @param _limit Maximum number of ids to return
+     * @return ids The ids of the transactions, oldest first
+     * @return total The total number of transactions of the platform
+     */
+    function getPlatformTransactionIds(
+        uint256 _platformId,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory ids, uint256 total) {
+        return _paginate(platformTransactionIds[_platformId], _offset, _limit);
+    }
+
+    /**
+     * @dev Returns the price to pay to buy a course on a platform, with the breakdown of the fees.
+     *      The total price is the exact amount expected by createTransaction.
+     * @param _courseId Id of the course
+     * @param _buyPlatformId Id of the platform where the course is bought
+     * @param _couponCode Code of a coupon of the teacher to apply on the price, empty for no coupon
+     */
+    function getPriceQuote(
+        uint256 _courseId,
+        uint256 _buyPlatformId,
+        string calldata _couponCode
+    ) external view returns (PriceQuote memory) {
+        IKnowledgeLayerCourse.Course memory course = knowledgeLayerCourse.getCourse(_courseId);
+        course.price = knowledgeLayerCourse.getDiscountedPrice(_courseId, _couponCode);
+        return _getPriceQuote(course, _buyPlatformId);
+    }
+
+    /**
+     * @dev Returns the price to pay to buy a bundle on a platform, with the breakdown of the fees.
+     *      The total price is the exact amount expected by createBundleTransaction.
+     * @param _bundleId Id of the bundle
+     * @param _buyPlatformId Id of the platform where the bundle is bought
+     */
+    function getBundlePriceQuote(uint256 _bundleId, uint256 _buyPlatformId) external view returns (PriceQuote memory) {
+        return _getPriceQuote(_getItem(0, _bundleId), _buyPlatformId);
+    }
+
     // =========================== User functions ==============================
 
+    /**
+     * @dev Buys a course, paying its price and fees in escrow. If the platform where the course is bought has a
+     *      signer, the purchase must be authorized with a signature of the signer.
+     * @param _profileId The KnowledgeLayer ID of the buyer
+     * @param _courseId Id of the course
+     * @param _platformId Id of the platform where the course is bought
+     * @param _referrerId The KnowledgeLayer ID of the referrer of the purchase, 0 if none
+     * @param _couponCode Code of a coupon of the teacher to apply on the price, empty for no coupon
+     * @param _deadline Timestamp after which the platform signature expires
+     * @param _signature Signature of the platform signer, empty if the platform has no signer
+     */
     function createTransaction(
         uint256 _profileId,
         uint256 _courseId,
-        uint256 _platformId
+        uint256 _platformId,
+        uint256 _referrerId,
+        string calldata _couponCode,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) public payable returns (uint256) {
+        return
+            _buyCourse(_profileId, _profileId, _courseId, _platformId, _referrerId, _couponCode, _deadline, _signature);
+    }
+
+    /**
+     * @dev Buys a course as a gift for another profile, which is given access to the course. The buyer pays the
+     *      price and fees in escrow and is the one who can be reimbursed. If the platform has a signer, its signature
+     *      must authorize the gift to the beneficiary. See createTransaction for the other parameters.
+     * @param _beneficiaryId The KnowledgeLayer ID of the profile receiving the course
+     */
+    function createGiftTransaction(
+        uint256 _profileId,
+        uint256 _beneficiaryId,
+        uint256 _courseId,
+        uint256 _platformId,
+        uint256 _referrerId,
+        string calldata _couponCode,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) external payable returns (uint256) {
+        knowledgeLayerId.isValid(_beneficiaryId);
+        return
+            _buyCourse(
+                _profileId,
+                _beneficiaryId,
+                _courseId,
+                _platformId,
+                _referrerId,
+                _couponCode,
+                _deadline,
+                _signature
+            );
+    }
+
+    /**
+     * @dev Buys a course paid in an ERC20 token supporting EIP-2612, approving the escrow with a permit signed by
+     *      the buyer instead of a separate approval. See createTransaction for the other parameters.
+     * @param _permit Permit signed by the buyer allowing the escrow to spend the total price
+     */
+    function createTransactionWithPermit(
+        uint256 _profileId,
+        uint256 _courseId,
+        uint256 _platformId,
+        uint256 _referrerId,
+        string calldata _couponCode,
+        uint256 _deadline,
+        bytes calldata _signature,
+        Permit calldata _permit
+    ) external returns (uint256) {
+        address token = knowledgeLayerCourse.getCourse(_courseId).token;
+        require(token != address(0), "Permit not supported for ETH");
+
+        // The permit may have been front-run, in which case the allowance is already set
+        try
+            IERC20Permit(token).permit(
+                _msgSender(),
+                address(this),
+                _permit.value,
+                _permit.deadline,
+                _permit.v,
+                _permit.r,
+                _permit.s
+            )
+        {} catch {}
+
+        return createTransaction(_profileId, _courseId, _platformId, _referrerId, _couponCode, _deadline, _signature);
+    }
+
+    /**
+     * @dev Buys a bundle of courses, paying its price and fees in escrow in a single transaction. If the platform
+     *      where the bundle is bought has a signer, the purchase must be authorized with a signature of the signer.
+     * @param _profileId The KnowledgeLayer ID of the buyer
+     * @param _bundleId Id of the bundle
+     * @param _platformId Id of the platform where the bundle is bought
+     * @param _deadline Timestamp after which the platform signature expires
+     * @param _signature Signature of the platform signer, empty if the platform has no signer
+     */
+    function createBundleTransaction(
+        uint256 _profileId,
+        uint256 _bundleId,
+        uint256 _platformId,
+        uint256 _deadline,
+        bytes calldata _signature
     ) external payable returns (uint256) {
+        address signer = knowledgeLayerPlatformId.getSigner(_platformId);
+        if (signer != address(0)) {
+            bytes32 structHash = _hashPurchase(
+                CREATE_BUNDLE_TRANSACTION_TYPEHASH,
+                _profileId,
+                _bundleId,
+                _platformId,
+                _deadline
+            );
+            _verifyPlatformSignature(signer, structHash, _deadline, _signature);
+        }
+
+        return _createTransaction(_profileId, _profileId, 0, _bundleId, _platformId, 0, _getItem(0, _bundleId));
+    }
+
+    /**
+     * @dev Releases the funds of a transaction to the seller, once the hold period and the refund window have elapsed
+     * @param _profileId The KnowledgeLayer ID of the seller
+     * @param _transactionId Id of the transaction
+     */
+    function release(uint256 _profileId, uint256 _transactionId) public onlyOwnerOrDelegate(_profileId) {
+        _checkTransactionId(_transactionId);
+        _checkReceiver(transactions[_transactionId], _profileId);
+
+        _release(_transactionId);
+    }
+
+    /**
+     * @dev Releases the funds of several transactions to the seller, once their hold period and refund window have
+     *      elapsed
+     * @param _profileId The KnowledgeLayer ID of the seller
+     * @param _transactionIds Ids of the transactions
+     */
+    function releaseMany(
+        uint256 _profileId,
+        uint256[] calldata _transactionIds
+    ) external onlyOwnerOrDelegate(_profileId) {
+        address receiver = knowledgeLayerId.ownerOf(_profileId);
+
+        for (uint256 i = 0; i < _transactionIds.length; i++) {
+            _checkTransactionId(_transactionIds[i]);
+            require(transactions[_transactionIds[i]].receiver == receiver, "Not the receiver");
+
+            _release(_transactionIds[i]);
+        }
+
+        emit TransactionsReleased(_profileId, _transactionIds);
+    }
+
+    /**
+     * @dev Releases the funds of a transaction to the seller once the hold period and the refund window have elapsed,
+     *      so the buyer can't be deprived of a refund. Can be called by anyone.
+     * @param _transactionId Id of the transaction
+     */
+    function autoRelease(uint256 _transactionId) public {
+        _checkTransactionId(_transactionId);
+
+        _release(_transactionId);
+    }
+
+    /**
+     * @dev Reimburses the buyer of a course or bundle with the full amount paid, fees included, and revokes its access
+     *      to the courses. Only possible within the refund window of the platform where the purchase was made. The
+     *      amount is credited to the balance of the buyer, who withdraws it from the escrow.
+     * @param _profileId The KnowledgeLayer ID of the buyer
+     * @param _transactionId Id of the transaction
+     */
+    function reimburse(uint256 _profileId, uint256 _transactionId) public onlyOwnerOrDelegate(_profileId) {
+        _checkTransactionId(_transactionId);
+        Transaction storage transaction = transactions[_transactionId];
+
+        _checkSender(transaction, _profileId);
+        _checkPending(transaction);
+        require(block.timestamp <= transaction.createdAt + transaction.refundWindow, "Refund window expired");
+
+        transaction.status = TransactionStatus.Reimbursed;
+
+        uint256 totalAmount = _getAmountWithFees(
+            transaction.amount,
+            transaction.protocolFee,
+            transaction.originFee,
+            transaction.buyFee
+        );
+
+        _revokeAccess(transaction);
+
+        _creditBalance(_profileId, transaction.token, totalAmount);
+
+        emit Payment(_transactionId, PaymentType.Reimburse);
+    }
+
+    /**
+     * @dev Withdraws the balance of a profile accumulated from released payments, for a specific token, to the
+     *      address owning the profile.
+     * @param _profileId The KnowledgeLayer ID of the user
+     * @param _tokenAddress The address of the token to withdraw
+     */
+    function withdraw(uint256 _profileId, address _tokenAddress) external onlyOwnerOrDelegate(_profileId) {
+        uint256 amount = profileBalance[_profileId][_tokenAddress];
+        require(amount > 0, "Nothing to withdraw");
+        profileBalance[_profileId][_tokenAddress] = 0;
+
+        _transferBalance(knowledgeLayerId.ownerOf(_profileId), _tokenAddress, amount);
+
+        emit BalanceWithdrawn(_profileId, _tokenAddress, amount);
+    }
+
+    // =========================== Dispute functions ==============================
+
+    /**
+     * @dev Allows the buyer to raise a dispute on a transaction which has not been settled yet, paying the arbitration
+     *      fee. The funds are frozen until the dispute is resolved by the arbitrator of the platform where the course
+     *      was bought.
+     * @param _profileId The KnowledgeLayer ID of the buyer
+     * @param _transactionId Id of the transaction
+     */
+    function raiseDispute(uint256 _profileId, uint256 _transactionId) external payable onlyOwnerOrDelegate(_profileId) {
+        _checkTransactionId(_transactionId);
+        Transaction storage transaction = transactions[_transactionId];
+
+        _checkSender(transaction, _profileId);
+        require(transaction.status != TransactionStatus.Disputed, "Dispute already raised");
+        require(transaction.status == TransactionStatus.Pending, "Transaction already settled");
+
+        transaction.status = TransactionStatus.Disputed;
+
+        disputes[_transactionId].raise(knowledgeLayerPlatformId, transaction.buyPlatformId, _transactionId, msg.value);
+    }
+
+    /**
+     * @dev Allows the seller to pay the arbitration fee after a dispute has been raised, which creates the dispute in
+     *      the arbitrator contract. If the seller doesn't pay before the timeout, the buyer wins the dispute.
+     * @param _profileId The KnowledgeLayer ID of the seller
+     * @param _transactionId Id of the transaction
+     */
+    function payArbitrationFee(
+        uint256 _profileId,
+        uint256 _transactionId
+    ) external payable onlyOwnerOrDelegate(_profileId) {
+        _checkTransactionId(_transactionId);
+        _checkReceiver(transactions[_transactionId], _profileId);
+
+        disputes[_transactionId].create(disputeIdToTransactionId, _transactionId, msg.value);
+    }
+
+    /**
+     * @dev Resolves a dispute in favor of the buyer if the seller didn't pay the arbitration fee before the timeout.
+     *      Can be called by anyone.
+     * @param _transactionId Id of the transaction
+     */
+    function arbitrationFeeTimeout(uint256 _transactionId) external {
+        _checkTransactionId(_transactionId);
+        disputes[_transactionId].timeout();
+
+        _executeRuling(_transactionId, SENDER_WINS);
+    }
+
+    /**
+     * @dev Gives a ruling for a dispute. Must be called by the arbitrator of the dispute.
+     *      Ruling 1 reimburses the buyer, ruling 2 pays the seller and ruling 0 splits the funds between both.
+     * @param _disputeId Id of the dispute in the arbitrator contract
+     * @param _ruling Ruling given by the arbitrator
+     */
+    function rule(uint256 _disputeId, uint256 _ruling) external override {
+        uint256 transactionId = disputeIdToTransactionId[msg.sender][_disputeId];
+        EscrowDisputes.Dispute storage dispute = disputes[transactionId];
+        dispute.resolve(transactionId, _ruling);
+
+        emit Ruling(dispute.arbitrator, _disputeId, _ruling);
+
+        _executeRuling(transactionId, _ruling);
+    }
+
+    // =========================== Platform functions ==============================
+
+    /**
+     * @dev Allows a platform owner to claim its balances accumulated from fees, for a specific token.
+     * @param _platformId The ID of the platform.
+     * @param _tokenAddress The address of the token to claim.
+     */
+    function claim(uint256 _platformId, address _tokenAddress) external {
+        address payable recipient = _getClaimRecipient(_platformId);
+
+        require(platformBalance[_platformId][_tokenAddress] > 0, "Nothing to claim");
+
+        address[] memory tokens = new address[](1);
+        uint256[] memory amounts = new uint256[](1);
+        tokens[0] = _tokenAddress;
+        amounts[0] = _claim(recipient, _platformId, _tokenAddress);
+
+        emit FeesClaimed(_platformId, tokens, amounts);
+    }
+
+    /**
+     * @dev Allows a platform owner to claim its balances accumulated from fees for several tokens at once.
+     *      Tokens without balance are skipped.
+     * @param _platformId The ID of the platform.
+     * @param _tokenAddresses The addresses of the tokens to claim.
+     */
+    function claimMany(uint256 _platformId, address[] calldata _tokenAddresses) external {
+        address payable recipient = _getClaimRecipient(_platformId);
+
+        uint256[] memory amounts = new uint256[](_tokenAddresses.length);
+        bool claimed;
+        for (uint256 i = 0; i < _tokenAddresses.length; i++) {
+            amounts[i] = _claim(recipient, _platformId, _tokenAddresses[i]);
+            claimed = claimed || amounts[i] > 0;
+        }
+        require(claimed, "Nothing to claim");
+
+        emit FeesClaimed(_platformId, _tokenAddresses, amounts);
+    }
+
+    // =========================== Owner functions ==============================
+
+    /**
+     * @dev Sets the protocol fee per sale
+     * @param _protocolFee Protocol fee per sale (percentage per 10,000)
+     */
+    function setProtocolFee(uint16 _protocolFee) public onlyOwner {
+        protocolFee = _protocolFee;
+
+        emit ProtocolFeeUpdated(_protocolFee);
+    }
+
+    /**
+     * @dev Sets the address which will receive the protocol fees
+     * @param _protocolTreasuryAddress The address
+     */
+    function setProtocolTreasuryAddress(address payable _protocolTreasuryAddress) external onlyOwner {
+        protocolTreasuryAddress = _protocolTreasuryAddress;
+    }
+
+    /**
+     * @dev Sets the forwarder allowed to relay meta-transactions, the zero address disables them
+     * @param _forwarder Address of the trusted forwarder
+     */
+    function setTrustedForwarder(address _forwarder) external onlyOwner {
+        _setTrustedForwarder(_forwarder);
+    }
+
+    // =========================== Private functions ==============================
+
+    /**
+     * @notice Verifies the platform signature and applies the coupon of a course purchase, then creates its transaction
+     * @param _profileId The KnowledgeLayer ID of the buyer
+     * @param _beneficiaryId The KnowledgeLayer ID of the profile receiving the course
+     */
+    function _buyCourse(
+        uint256 _profileId,
+        uint256 _beneficiaryId,
+        uint256 _courseId,
+        uint256 _platformId,
+        uint256 _referrerId,
+        string calldata _couponCode,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) private returns (uint256) {
+        address signer = knowledgeLayerPlatformId.getSigner(_platformId);
+        if (signer != address(0)) {
+            bytes32 structHash = _beneficiaryId == _profileId
+                ? _hashPurchase(CREATE_TRANSACTION_TYPEHASH, _profileId, _courseId, _platformId, _deadline)
+                : keccak256(
+                    abi.encode(
+                        CREATE_GIFT_TRANSACTION_TYPEHASH,
+                        _profileId,
+                        _beneficiaryId,
+                        _courseId,
+                        _platformId,
+                        nonces[_profileId]++,
+                        _deadline
+                    )
+                );
+            _verifyPlatformSignature(signer, structHash, _deadline, _signature);
+        }
+
         IKnowledgeLayerCourse.Course memory course = knowledgeLayerCourse.getCourse(_courseId);
-        (address sender, address receiver) = knowledgeLayerId.ownersOf(_profileId, course.ownerId);
+        if (bytes(_couponCode).length > 0) {
+            course.price = knowledgeLayerCourse.redeemCoupon(_profileId, _courseId, _couponCode);
+        }
+
+        if (_referrerId != 0) {
+            require(_referrerId != _profileId && _referrerId != _beneficiaryId, "Invalid referrer");
+            knowledgeLayerId.isValid(_referrerId);
+        }
+
+        uint256 transactionId = _createTransaction(
+            _profileId,
+            _beneficiaryId,
+            _courseId,
+            0,
+            _platformId,
+            _referrerId,
+            course
+        );
+        if (bytes(_couponCode).length > 0) {
+            couponCodeHashes[transactionId] = keccak256(bytes(_couponCode));
+        }
+        return transactionId;
+    }
+
+    /**
+     * @notice Creates a transaction for the purchase of a course or a bundle and mints the course tokens to the
+     *         beneficiary
+     * @param _profileId The KnowledgeLayer ID of the buyer
+     * @param _beneficiaryId The KnowledgeLayer ID of the profile receiving the courses
+     * @param _courseId Id of the course, 0 if a bundle is bought
+     * @param _bundleId Id of the bundle, 0 if a single course is bought
+     * @param _platformId Id of the platform where the course is bought
+     * @param _referrerId The KnowledgeLayer ID of the referrer of the purchase, 0 if none
+     * @param _course The course, or the bundle as a course, being bought, with its price after discount
+     */
+    function _createTransaction(
+        uint256 _profileId,
+        uint256 _beneficiaryId,
+        uint256 _courseId,
+        uint256 _bundleId,
+        uint256 _platformId,
+        uint256 _referrerId,
+        IKnowledgeLayerCourse.Course memory _course
+    ) private returns (uint256) {
+        (address sender, address receiver) = knowledgeLayerId.ownersOf(_profileId, _course.ownerId);
 
         require(sender == _msgSender(), "Not the owner");
 
         IKnowledgeLayerPlatformID.Platform memory originPlatform = knowledgeLayerPlatformId.getPlatform(
-            course.platformId
+            _course.platformId
         );
-        IKnowledgeLayerPlatformID.Platform memory buyPlatform = course.platformId != _platformId
+        IKnowledgeLayerPlatformID.Platform memory buyPlatform = _course.platformId != _platformId
             ? knowledgeLayerPlatformId.getPlatform(_platformId)
             : originPlatform;
-        uint256 totalAmount = _getAmountWithFees(course.price, originPlatform.originFee, buyPlatform.buyFee);
+        uint256 totalAmount = _getAmountWithFees(
+            _course.price,
+            protocolFee,
+            originPlatform.originFee,
+            buyPlatform.buyFee
+        );
 
-        if (course.token == address(0)) {
+        if (_course.token == address(0)) {
             require(msg.value == totalAmount, "Non-matching funds");
         } else {
             require(msg.value == 0, "Non-matching funds");
@@ -197,113 +917,400 @@ contract KnowledgeLayerEscrow is Ownable {
         transactions[id] = Transaction({
             id: id,
             sender: sender,
+            beneficiaryId: _beneficiaryId,
             receiver: receiver,
-            token: course.token,
-            amount: course.price,
+            token: _course.token,
+            amount: _course.price,
             courseId: _courseId,
+            bundleId: _bundleId,
             buyPlatformId: _platformId,
             protocolFee: protocolFee,
             originFee: originPlatform.originFee,
-            buyFee: buyPlatform.buyFee
+            buyFee: buyPlatform.buyFee,
+            referrerId: _referrerId,
+            referralFee: _referrerId != 0 ? knowledgeLayerCourse.referralFees(_courseId) : 0,
+            createdAt: block.timestamp,
+            refundWindow: buyPlatform.refundWindow,
+            holdPeriod: buyPlatform.holdPeriod,
+            status: TransactionStatus.Pending
         });
 
-        if (course.token != address(0)) {
-            IERC20(course.token).safeTransferFrom(sender, address(this), totalAmount);
+        if (_course.token != address(0)) {
+            IERC20(_course.token).safeTransferFrom(sender, address(this), totalAmount);
         }
 
-        knowledgeLayerCourse.buyCourse(_profileId, _courseId);
+        if (_bundleId != 0) {
+            knowledgeLayerCourse.buyBundle(_beneficiaryId, _bundleId);
+        } else {
+            knowledgeLayerCourse.buyCourse(_beneficiaryId, _courseId);
+        }
 
-        emit TransactionCreated(
-            id,
-            _profileId,
-            course.ownerId,
-            course.token,
-            course.price,
-            _courseId,
-            _platformId,
-            protocolFee,
-            originPlatform.originFee,
-            buyPlatform.buyFee
-        );
+        buyerTransactionIds[_profileId].push(id);
+        teacherTransactionIds[_course.ownerId].push(id);
+        if (_courseId != 0) {
+            courseTransactionIds[_courseId].push(id);
+        }
+        platformTransactionIds[_platformId].push(id);
+
+        _emitTransactionCreated(id, _profileId, _course.ownerId);
 
         return id;
     }
 
-    function release(uint256 _profileId, uint256 _transactionId) public onlyOwnerOrDelegate(_profileId) {
-        require(_transactionId < nextTransactionId.current(), "Invalid transaction id");
-        Transaction memory transaction = transactions[_transactionId];
+    /**
+     * @notice Emits the event of the creation of a transaction
+     * @param _transactionId Id of the transaction
+     * @param _senderId The KnowledgeLayer ID of the buyer
+     * @param _receiverId The KnowledgeLayer ID of the seller
+     */
+    function _emitTransactionCreated(uint256 _transactionId, uint256 _senderId, uint256 _receiverId) private {
+        Transaction storage transaction = transactions[_transactionId];
 
-        require(transaction.receiver == knowledgeLayerId.ownerOf(_profileId), "Not the receiver");
+        emit TransactionCreated(
+            _transactionId,
+            _senderId,
+            _receiverId,
+            transaction.token,
+            transaction.amount,
+            transaction.courseId,
+            transaction.bundleId,
+            transaction.buyPlatformId,
+            transaction.protocolFee,
+            transaction.originFee,
+            transaction.buyFee,
+            transaction.referrerId,
+            transaction.referralFee,
+            transaction.beneficiaryId
+        );
+    }
+
+    /**
+     * @notice Returns a page of a list of transaction ids
+     * @param _ids The list of transaction ids
+     * @param _offset Index of the first id to return
+     * @param _limit Maximum number of ids to return
+     * @return page The ids from the offset, at most the limit
+     * @return total The length of the list
+     */
+    function _paginate(
+        uint256[] storage _ids,
+        uint256 _offset,
+        uint256 _limit
+    ) private view returns (uint256[] memory page, uint256 total) {
+        total = _ids.length;
+        if (_offset >= total) {
+            return (page, total);
+        }
 
-        _distributeFees(_transactionId);
+        uint256 length = total - _offset < _limit ? total - _offset : _limit;
+        page = new uint256[](length);
+        for (uint256 i = 0; i < length; ++i) {
+            page[i] = _ids[_offset + i];
+        }
+    }
 
-        _transferBalance(transaction.receiver, transaction.token, transaction.amount);
+    /**
+     * @notice Checks that a transaction exists
+     * @param _transactionId Id of the transaction
+     */
+    function _checkTransactionId(uint256 _transactionId) private view {
+        require(_transactionId != 0 && _transactionId < nextTransactionId.current(), "Invalid transaction id");
+    }
 
-        emit Payment(_transactionId, PaymentType.Release);
+    /**
+     * @notice Checks that a profile is the seller of a transaction
+     * @param _transaction The transaction
+     * @param _profileId The KnowledgeLayer ID of the seller
+     */
+    function _checkReceiver(Transaction storage _transaction, uint256 _profileId) private view {
+        require(_transaction.receiver == knowledgeLayerId.ownerOf(_profileId), "Not the receiver");
     }
 
-    // =========================== Platform functions ==============================
+    /**
+     * @notice Checks that a profile is the buyer of a transaction
+     * @param _transaction The transaction
+     * @param _profileId The KnowledgeLayer ID of the buyer
+     */
+    function _checkSender(Transaction storage _transaction, uint256 _profileId) private view {
+        require(_transaction.sender == knowledgeLayerId.ownerOf(_profileId), "Not the sender");
+    }
 
     /**
-     * @dev Allows a platform owner to claim its balances accumulated from fees, for a specific token.
-     * @param _platformId The ID of the platform.
-     * @param _tokenAddress The address of the token to claim.
+     * @notice Checks that a transaction is neither disputed nor settled
+     * @param _transaction The transaction
      */
-    function claim(uint256 _platformId, address _tokenAddress) external {
-        address payable recipient;
+    function _checkPending(Transaction storage _transaction) private view {
+        require(_transaction.status != TransactionStatus.Disputed, "Transaction in dispute");
+        require(_transaction.status == TransactionStatus.Pending, "Transaction already settled");
+    }
 
-        if (owner() == _msgSender()) {
-            require(_platformId == PROTOCOL_INDEX, "Access denied");
-            recipient = protocolTreasuryAddress;
-        } else {
-            knowledgeLayerPlatformId.isValid(_platformId);
-            recipient = payable(knowledgeLayerPlatformId.ownerOf(_platformId));
+    /**
+     * @notice Returns the course, or the bundle as a course, being bought
+     * @param _courseId Id of the course, 0 if a bundle is bought
+     * @param _bundleId Id of the bundle, 0 if a single course is bought
+     */
+    function _getItem(uint256 _courseId, uint256 _bundleId) private view returns (IKnowledgeLayerCourse.Course memory) {
+        if (_bundleId == 0) {
+            return knowledgeLayerCourse.getCourse(_courseId);
         }
 
-        uint256 amount = platformBalance[_platformId][_tokenAddress];
-        require(amount > 0, "Nothing to claim");
-        platformBalance[_platformId][_tokenAddress] = 0;
-
-        _transferBalance(recipient, _tokenAddress, amount);
+        IKnowledgeLayerCourse.Bundle memory bundle = knowledgeLayerCourse.getBundle(_bundleId);
+        return
+            IKnowledgeLayerCourse.Course({
+                ownerId: bundle.ownerId,
+                platformId: bundle.platformId,
+                price: bundle.price,
+                token: bundle.token,
+                dataUri: bundle.dataUri,
+                accessDuration: 0,
+                status: IKnowledgeLayerCourse.CourseStatus.Published
+            });
     }
 
-    // =========================== Owner functions ==============================
+    /**
+     * @notice Returns the price to pay to buy a course or a bundle on a platform, with the breakdown of the fees
+     * @param _course The course, or the bundle as a course, being bought
+     * @param _buyPlatformId Id of the platform where the course is bought
+     */
+    function _getPriceQuote(
+        IKnowledgeLayerCourse.Course memory _course,
+        uint256 _buyPlatformId
+    ) private view returns (PriceQuote memory) {
+        uint16 originFee = knowledgeLayerPlatformId.getOriginFee(_course.platformId);
+        uint16 buyFee = knowledgeLayerPlatformId.getBuyFee(_buyPlatformId);
+
+        return
+            PriceQuote({
+                token: _course.token,
+                price: _course.price,
+                protocolFee: (_course.price * protocolFee) / FEE_DIVIDER,
+                originFee: (_course.price * originFee) / FEE_DIVIDER,
+                buyFee: (_course.price * buyFee) / FEE_DIVIDER,
+                totalPrice: _getAmountWithFees(_course.price, protocolFee, originFee, buyFee)
+            });
+    }
 
     /**
-     * @dev Sets the protocol fee per sale
-     * @param _protocolFee Protocol fee per sale (percentage per 10,000)
+     * @notice Revokes the access of the beneficiary to the course, or the courses of the bundle, of a reimbursed
+     *         transaction, and gives back the use of the coupon redeemed for the purchase
+     * @param _transaction The transaction
      */
-    function setProtocolFee(uint16 _protocolFee) public onlyOwner {
-        protocolFee = _protocolFee;
+    function _revokeAccess(Transaction storage _transaction) private {
+        if (_transaction.bundleId != 0) {
+            knowledgeLayerCourse.revokeBundle(_transaction.beneficiaryId, _transaction.bundleId);
+        } else {
+            knowledgeLayerCourse.revokeCourse(_transaction.beneficiaryId, _transaction.courseId);
 
-        emit ProtocolFeeUpdated(_protocolFee);
+            bytes32 couponCodeHash = couponCodeHashes[_transaction.id];
+            if (couponCodeHash != 0) {
+                knowledgeLayerCourse.restoreCoupon(_transaction.courseId, couponCodeHash);
+            }
+        }
     }
 
     /**
-     * @dev Sets the address which will receive the protocol fees
-     * @param _protocolTreasuryAddress The address
+     * @notice Returns the EIP-712 struct hash of a purchase, consuming the nonce of the buyer
+     * @param _typehash Typehash of the purchase, for a course or a bundle
+     * @param _profileId The KnowledgeLayer ID of the buyer
+     * @param _itemId Id of the course or bundle
+     * @param _platformId Id of the platform where the purchase is made
+     * @param _deadline Timestamp after which the signature expires
      */
-    function setProtocolTreasuryAddress(address payable _protocolTreasuryAddress) external onlyOwner {
-        protocolTreasuryAddress = _protocolTreasuryAddress;
+    function _hashPurchase(
+        bytes32 _typehash,
+        uint256 _profileId,
+        uint256 _itemId,
+        uint256 _platformId,
+        uint256 _deadline
+    ) private returns (bytes32) {
+        return keccak256(abi.encode(_typehash, _profileId, _itemId, _platformId, nonces[_profileId]++, _deadline));
     }
 
-    // =========================== Private functions ==============================
+    /**
+     * @notice Checks that a purchase has been authorized by the platform signer
+     * @param _signer Address of the platform signer
+     * @param _structHash Hash of the EIP-712 struct of the purchase
+     * @param _deadline Timestamp after which the signature expires
+     * @param _signature Signature of the platform signer
+     */
+    function _verifyPlatformSignature(
+        address _signer,
+        bytes32 _structHash,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) private view {
+        require(block.timestamp <= _deadline, "Signature expired");
+        (address recovered, ) = ECDSA.tryRecover(_hashTypedDataV4(_structHash), _signature);
+        require(recovered == _signer, "Invalid signature");
+    }
 
     function _getAmountWithFees(
         uint256 _amount,
+        uint16 _protocolFee,
         uint16 _originFee,
         uint16 _buyFee
-    ) private view returns (uint256 totalEscrowAmount) {
-        return _amount + ((_amount * (protocolFee + _originFee + _buyFee)) / FEE_DIVIDER);
+    ) private pure returns (uint256 totalEscrowAmount) {
+        return _amount + ((_amount * (_protocolFee + _originFee + _buyFee)) / FEE_DIVIDER);
+    }
+
+    /**
+     * @notice Releases the funds of a transaction to the seller and distributes the fees, once the hold period has
+     *         elapsed and the buyer can no longer be reimbursed
+     * @param _transactionId Id of the transaction
+     */
+    function _release(uint256 _transactionId) private {
+        Transaction storage transaction = transactions[_transactionId];
+
+        _checkPending(transaction);
+        require(block.timestamp >= transaction.createdAt + transaction.holdPeriod, "Hold period not elapsed");
+        require(block.timestamp > transaction.createdAt + transaction.refundWindow, "Refund window not expired");
+
+        transaction.status = TransactionStatus.Released;
+
+        _distributeFees(_transactionId, transaction.amount);
+
+        _payReceiver(_transactionId, transaction.amount);
+
+        emit Payment(_transactionId, PaymentType.Release);
     }
 
-    function _distributeFees(uint256 _transactionId) private {
+    /**
+     * @notice Settles a disputed transaction according to the ruling, and gives back the remaining arbitration fees.
+     *         The party who wins gets the arbitration fee paid by the sender, which is split when there is no winner.
+     *         Amounts are credited to the balances of the parties, so a party unable to receive funds can't block the
+     *         ruling.
+     * @param _transactionId Id of the transaction
+     * @param _ruling Ruling of the dispute
+     */
+    function _executeRuling(uint256 _transactionId, uint256 _ruling) private {
         Transaction storage transaction = transactions[_transactionId];
-        IKnowledgeLayerCourse.Course memory course = knowledgeLayerCourse.getCourse(transaction.courseId);
+        EscrowDisputes.Dispute storage dispute = disputes[_transactionId];
+
+        transaction.status = _ruling == SENDER_WINS ? TransactionStatus.Reimbursed : TransactionStatus.Released;
+
+        uint256 releasedAmount;
+        uint256 receiverArbitrationFee;
+        if (_ruling == RECEIVER_WINS) {
+            releasedAmount = transaction.amount;
+            receiverArbitrationFee = dispute.senderFee;
+        } else if (_ruling != SENDER_WINS) {
+            releasedAmount = transaction.amount / 2;
+            receiverArbitrationFee = dispute.senderFee / 2;
+        }
+
+        uint256 reimbursedAmount = _getAmountWithFees(
+            transaction.amount,
+            transaction.protocolFee,
+            transaction.originFee,
+            transaction.buyFee
+        ) - releasedAmount;
+
+        if (releasedAmount > 0) {
+            reimbursedAmount -= _distributeFees(_transactionId, releasedAmount);
+            _payReceiver(_transactionId, releasedAmount);
+            emit Payment(_transactionId, PaymentType.Release);
+        }
+
+        if (_ruling == SENDER_WINS) {
+            _revokeAccess(transaction);
+        }
 
-        uint256 protocolFeeAmount = (transaction.protocolFee * transaction.amount) / FEE_DIVIDER;
-        uint256 originFeeAmount = (transaction.originFee * transaction.amount) / FEE_DIVIDER;
-        uint256 buyFeeAmount = (transaction.buyFee * transaction.amount) / FEE_DIVIDER;
+        uint256 senderId = knowledgeLayerId.ids(transaction.sender);
+        if (reimbursedAmount > 0) {
+            _creditBalance(senderId, transaction.token, reimbursedAmount);
+            emit Payment(_transactionId, PaymentType.Reimburse);
+        }
+
+        if (receiverArbitrationFee > 0) {
+            _creditBalance(knowledgeLayerId.ids(transaction.receiver), address(0), receiverArbitrationFee);
+        }
+        if (dispute.senderFee > receiverArbitrationFee) {
+            _creditBalance(senderId, address(0), dispute.senderFee - receiverArbitrationFee);
+        }
+
+        emit DisputeResolved(_transactionId, _ruling);
+    }
+
+    /**
+     * @notice Credits the released amount of a transaction to the balance of the teacher, after crediting the
+     *         referral fee to the referrer and their share to the co-teachers of the course, or of each course of
+     *         the bundle
+     * @param _transactionId Id of the transaction
+     * @param _amount The released amount, without fees
+     */
+    function _payReceiver(uint256 _transactionId, uint256 _amount) private {
+        Transaction storage transaction = transactions[_transactionId];
+
+        uint256 referralFeeAmount = (_amount * transaction.referralFee) / FEE_DIVIDER;
+        if (referralFeeAmount > 0) {
+            _creditBalance(transaction.referrerId, transaction.token, referralFeeAmount);
+            emit ReferralFeeReleased(
+                transaction.referrerId,
+                transaction.courseId,
+                transaction.token,
+                referralFeeAmount
+            );
+        }
+
+        uint256 revenue = _amount - referralFeeAmount;
+        uint256 receiverAmount = revenue;
+
+        // The revenue of a bundle is split evenly between its courses, each paying its own co-teachers
+        uint256[] memory courseIds;
+        if (transaction.bundleId == 0) {
+            courseIds = new uint256[](1);
+            courseIds[0] = transaction.courseId;
+        } else {
+            courseIds = knowledgeLayerCourse.getBundle(transaction.bundleId).courseIds;
+        }
+        uint256 courseRevenue = revenue / courseIds.length;
+
+        for (uint256 i = 0; i < courseIds.length; i++) {
+            IKnowledgeLayerCourse.Collaborator[] memory collaborators = knowledgeLayerCourse.getCollaborators(
+                courseIds[i]
+            );
+            for (uint256 j = 0; j < collaborators.length; j++) {
+                uint256 shareAmount = (courseRevenue * collaborators[j].share) / FEE_DIVIDER;
+                receiverAmount -= shareAmount;
+
+                _creditBalance(collaborators[j].profileId, transaction.token, shareAmount);
+                emit CollaboratorShareReleased(
+                    _transactionId,
+                    collaborators[j].profileId,
+                    transaction.token,
+                    shareAmount
+                );
+            }
+        }
+
+        _creditBalance(knowledgeLayerId.ids(transaction.receiver), transaction.token, receiverAmount);
+    }
+
+    /**
+     * @notice Credits an amount to the withdrawable balance of a profile
+     * @param _profileId The KnowledgeLayer ID of the user
+     * @param _tokenAddress The token address, or zero address for ETH
+     * @param _amount The amount to credit
+     */
+    function _creditBalance(uint256 _profileId, address _tokenAddress, uint256 _amount) private {
+        profileBalance[_profileId][_tokenAddress] += _amount;
+
+        emit BalanceCredited(_profileId, _tokenAddress, _amount);
+    }
+
+    /**
+     * @notice Credits the fees of a transaction to the protocol and platforms balances
+     * @param _transactionId Id of the transaction
+     * @param _amount The amount of the transaction on which fees are applied
+     * @return The total amount of fees distributed
+     */
+    function _distributeFees(uint256 _transactionId, uint256 _amount) private returns (uint256) {
+        Transaction storage transaction = transactions[_transactionId];
+        IKnowledgeLayerCourse.Course memory course = _getItem(transaction.courseId, transaction.bundleId);
+
+        uint256 protocolFeeAmount = (transaction.protocolFee * _amount) / FEE_DIVIDER;
+        uint256 originFeeAmount = (transaction.originFee * _amount) / FEE_DIVIDER;
+        uint256 buyFeeAmount = (transaction.buyFee * _amount) / FEE_DIVIDER;
 
         platformBalance[PROTOCOL_INDEX][transaction.token] += protocolFeeAmount;
         platformBalance[course.platformId][transaction.token] += originFeeAmount;
@@ -311,19 +1318,77 @@ contract KnowledgeLayerEscrow is Ownable {
 
         emit OriginFeeReleased(course.platformId, transaction.courseId, transaction.token, originFeeAmount);
         emit BuyFeeReleased(transaction.buyPlatformId, transaction.courseId, transaction.token, buyFeeAmount);
+
+        return protocolFeeAmount + originFeeAmount + buyFeeAmount;
     }
 
     /**
-     * @notice Transfers a token or ETH balance from the escrow to a recipient's address.
+     * @notice Returns the address receiving the fees claimed for a platform, or for the protocol if claimed by the
+     *         owner
+     * @param _platformId The ID of the platform
+     */
+    function _getClaimRecipient(uint256 _platformId) private view returns (address payable) {
+        if (owner() == _msgSender()) {
+            require(_platformId == PROTOCOL_INDEX, "Access denied");
+            return protocolTreasuryAddress;
+        }
+
+        knowledgeLayerPlatformId.isValid(_platformId);
+        return payable(knowledgeLayerPlatformId.ownerOf(_platformId));
+    }
+
+    /**
+     * @notice Transfers the balance of a platform for a token to the recipient
+     * @param _recipient The address receiving the balance
+     * @param _platformId The ID of the platform
+     * @param _tokenAddress The token address, or zero address for ETH
+     * @return amount The claimed amount
+     */
+    function _claim(
+        address payable _recipient,
+        uint256 _platformId,
+        address _tokenAddress
+    ) private returns (uint256 amount) {
+        amount = platformBalance[_platformId][_tokenAddress];
+        if (amount > 0) {
+            platformBalance[_platformId][_tokenAddress] = 0;
+            _transferBalance(_recipient, _tokenAddress, amount);
+        }
+    }
+
+    /**
+     * @notice Transfers a token or ETH balance from the escrow to a recipient's address. Reverts if the transfer fails.
      * @param _recipient The address to transfer the balance to
      * @param _tokenAddress The token address, or zero address for ETH
      * @param _amount The amount to transfer
      */
     function _transferBalance(address _recipient, address _tokenAddress, uint256 _amount) private {
         if (address(0) == _tokenAddress) {
-            payable(_recipient).call{value: _amount}("");
+            (bool sent, ) = payable(_recipient).call{value: _amount}("");
+            require(sent, "Transfer failed");
         } else {
-            IERC20(_tokenAddress).transfer(_recipient, _amount);
+            IERC20(_tokenAddress).safeTransfer(_recipient, _amount);
         }
     }
+
+    // =========================== Overrides ==============================
+
+    /**
+     * @dev Restricts upgrades of the implementation to the owner
+     */
+    function _authorizeUpgrade(address) internal override(UUPSUpgradeable) onlyOwner {}
+
+    /**
+     * @dev See {ERC2771Recipient-_msgSender}.
+     */
+    function _msgSender() internal view virtual override(ContextUpgradeable, ERC2771Recipient) returns (address) {
+        return ERC2771Recipient._msgSender();
+    }
+
+    /**
+     * @dev See {ERC2771Recipient-_msgData}.
+     */
+    function _msgData() internal view virtual override(ContextUpgradeable, ERC2771Recipient) returns (bytes calldata) {
+        return ERC2771Recipient._msgData();
+    }
 }
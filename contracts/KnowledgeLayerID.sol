@@ -1,20 +1,23 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.9;
 
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import {Base64} from "@openzeppelin/contracts/utils/Base64.sol";
 import {Counters} from "@openzeppelin/contracts/utils/Counters.sol";
-import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {ERC721Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
 import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
-import {Context} from "@openzeppelin/contracts/utils/Context.sol";
+import {ContextUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ContextUpgradeable.sol";
 import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
-import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 
 import {IKnowledgeLayerPlatformID} from "./interfaces/IKnowledgeLayerPlatformID.sol";
+import {ERC2771Recipient} from "./libs/ERC2771Recipient.sol";
 
 /**
  * @title KnowledgeLayer ID Contract
  */
-contract KnowledgeLayerID is Ownable, ERC721 {
+contract KnowledgeLayerID is Initializable, OwnableUpgradeable, ERC721Upgradeable, ERC2771Recipient, UUPSUpgradeable {
     using Counters for Counters.Counter;
     using MerkleProof for bytes32[];
 
@@ -217,7 +220,19 @@ contract KnowledgeLayerID is Ownable, ERC721 {
 
     // =========================== Constructor ==============================
 
-    constructor(address _platformIdAddress) ERC721("KnowledgeLayerID", "KLID") {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @notice Initializes the proxy, replacing the constructor
+     * @param _platformIdAddress Address of the KnowledgeLayerPlatformID contract
+     */
+    function initialize(address _platformIdAddress) public initializer {
+        __Ownable_init();
+        __ERC721_init("KnowledgeLayerID", "KLID");
+        __UUPSUpgradeable_init();
         knowledgeLayerPlatformId = IKnowledgeLayerPlatformID(_platformIdAddress);
 
         // Increment counter to start profile ids at index 1
@@ -396,6 +411,14 @@ contract KnowledgeLayerID is Ownable, ERC721 {
 
     // =========================== Owner functions ==============================
 
+    /**
+     * @notice Sets the forwarder allowed to relay meta-transactions, the zero address disables them
+     * @param _forwarder Address of the trusted forwarder
+     */
+    function setTrustedForwarder(address _forwarder) external onlyOwner {
+        _setTrustedForwarder(_forwarder);
+    }
+
     /**
      * @notice Updates the mint fee.
      * @param _mintFee The new mint fee
@@ -506,10 +529,29 @@ contract KnowledgeLayerID is Ownable, ERC721 {
 
     // =========================== Overrides ==============================
 
+    /**
+     * @dev Restricts upgrades of the implementation to the owner
+     */
+    function _authorizeUpgrade(address) internal override(UUPSUpgradeable) onlyOwner {}
+
+    /**
+     * @dev See {ERC2771Recipient-_msgSender}.
+     */
+    function _msgSender() internal view virtual override(ContextUpgradeable, ERC2771Recipient) returns (address) {
+        return ERC2771Recipient._msgSender();
+    }
+
+    /**
+     * @dev See {ERC2771Recipient-_msgData}.
+     */
+    function _msgData() internal view virtual override(ContextUpgradeable, ERC2771Recipient) returns (bytes calldata) {
+        return ERC2771Recipient._msgData();
+    }
+
     /**
      * @dev Override to prevent token transfer.
      */
-    function _transfer(address, address, uint256) internal virtual override(ERC721) {
+    function _transfer(address, address, uint256) internal virtual override(ERC721Upgradeable) {
         revert("Token transfer is not allowed");
     }
 
@@ -517,13 +559,13 @@ contract KnowledgeLayerID is Ownable, ERC721 {
      * @dev Blocks the burn function
      * @param tokenId The ID of the token
      */
-    function _burn(uint256 tokenId) internal virtual override(ERC721) {}
+    function _burn(uint256 tokenId) internal virtual override(ERC721Upgradeable) {}
 
     /**
      * @notice Implementation of the {IERC721Metadata-tokenURI} function.
      * @param tokenId The ID of the token
      */
-    function tokenURI(uint256 tokenId) public view virtual override(ERC721) returns (string memory) {
+    function tokenURI(uint256 tokenId) public view virtual override(ERC721Upgradeable) returns (string memory) {
         return _buildTokenURI(tokenId);
     }
 
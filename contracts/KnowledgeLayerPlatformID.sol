@@ -1,13 +1,17 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.9;
 
-import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {AccessControlUpgradeable} from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
 import {Base64} from "@openzeppelin/contracts/utils/Base64.sol";
 import {Counters} from "@openzeppelin/contracts/utils/Counters.sol";
-import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {ERC721Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 
-contract KnowledgeLayerPlatformID is ERC721, AccessControl {
+contract KnowledgeLayerPlatformID is Initializable, ERC721Upgradeable, AccessControlUpgradeable, UUPSUpgradeable {
     using Counters for Counters.Counter;
+    using EnumerableSet for EnumerableSet.AddressSet;
 
     /**
      * @notice Enum for the mint status
@@ -27,6 +31,11 @@ contract KnowledgeLayerPlatformID is ERC721, AccessControl {
      * @param buyFee the %fee (per ten thousands) asked by the platform for sales of courses purchased on the platform
      * @param postingFee the fee (flat) asked by the platform to post a course on the platform
      * @param signer address used to sign operations which need platform authorization
+     * @param refundWindow the period (in seconds) during which a buyer can be reimbursed for courses purchased on the platform
+     * @param holdPeriod the period (in seconds) during which payments for courses purchased on the platform are held in escrow
+     * @param arbitrator address of the arbitrator contract which resolves disputes for courses purchased on the platform
+     * @param arbitratorExtraData extra data passed to the arbitrator when creating a dispute
+     * @param arbitrationFeeTimeout timeout (in seconds) for the seller to pay the arbitration fee once a dispute is raised
      */
     struct Platform {
         uint256 id;
@@ -36,6 +45,11 @@ contract KnowledgeLayerPlatformID is ERC721, AccessControl {
         uint16 buyFee;
         uint256 postingFee;
         address signer;
+        uint256 refundWindow;
+        uint256 holdPeriod;
+        address arbitrator;
+        bytes arbitratorExtraData;
+        uint256 arbitrationFeeTimeout;
     }
 
     /**
@@ -66,6 +80,11 @@ contract KnowledgeLayerPlatformID is ERC721, AccessControl {
      */
     mapping(address => uint256) public ids;
 
+    /**
+     * @notice Platform ID to tokens allowed to price the courses of the platform, all tokens if empty
+     */
+    mapping(uint256 => EnumerableSet.AddressSet) private allowedTokens;
+
     /**
      * @notice Price to mint a platform id (in wei, upgradable)
      */
@@ -81,6 +100,11 @@ contract KnowledgeLayerPlatformID is ERC721, AccessControl {
      */
     MintStatus public mintStatus;
 
+    /**
+     * @notice Minimum timeout to pay the arbitration fee (in seconds, upgradable)
+     */
+    uint256 public minArbitrationFeeTimeout;
+
     // =========================== Errors ==============================
 
     /**
@@ -150,6 +174,49 @@ contract KnowledgeLayerPlatformID is ERC721, AccessControl {
      */
     event SignerUpdated(uint256 platformId, address signer);
 
+    /**
+     * @notice Emit when a token is allowed or disallowed to price the courses of a platform
+     * @param platformId The Platform Id
+     * @param token The token address
+     * @param isAllowed Whether the token is allowed
+     */
+    event AllowedTokenUpdated(uint256 platformId, address token, bool isAllowed);
+
+    /**
+     * @notice Emit when the refund window is updated for a platform
+     * @param platformId The Platform Id
+     * @param refundWindow The new refund window (in seconds)
+     */
+    event RefundWindowUpdated(uint256 platformId, uint256 refundWindow);
+
+    /**
+     * @notice Emit when the hold period is updated for a platform
+     * @param platformId The Platform Id
+     * @param holdPeriod The new hold period (in seconds)
+     */
+    event HoldPeriodUpdated(uint256 platformId, uint256 holdPeriod);
+
+    /**
+     * @notice Emit when the arbitrator is updated for a platform
+     * @param platformId The Platform Id
+     * @param arbitrator The new arbitrator address
+     * @param extraData The new arbitrator extra data
+     */
+    event ArbitratorUpdated(uint256 platformId, address arbitrator, bytes extraData);
+
+    /**
+     * @notice Emit when the arbitration fee timeout is updated for a platform
+     * @param platformId The Platform Id
+     * @param arbitrationFeeTimeout The new arbitration fee timeout (in seconds)
+     */
+    event ArbitrationFeeTimeoutUpdated(uint256 platformId, uint256 arbitrationFeeTimeout);
+
+    /**
+     * @notice Emit when the minimum arbitration fee timeout is updated
+     * @param minArbitrationFeeTimeout The new minimum arbitration fee timeout (in seconds)
+     */
+    event MinArbitrationFeeTimeoutUpdated(uint256 minArbitrationFeeTimeout);
+
     /**
      * @notice Emit when the minting status is updated
      * @param mintStatus The new mint status
@@ -194,7 +261,17 @@ contract KnowledgeLayerPlatformID is ERC721, AccessControl {
     // =========================== Constructor ==============================
 
     /// @custom:oz-upgrades-unsafe-allow constructor
-    constructor() ERC721("KnowledgeLayerPlatformID", "KLPID") {
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @notice Initializes the proxy, replacing the constructor
+     */
+    function initialize() public initializer {
+        __ERC721_init("KnowledgeLayerPlatformID", "KLPID");
+        __AccessControl_init();
+        __UUPSUpgradeable_init();
         _setupRole(DEFAULT_ADMIN_ROLE, msg.sender);
         _setupRole(MINT_ROLE, msg.sender);
         mintFee = 0;
@@ -202,6 +279,7 @@ contract KnowledgeLayerPlatformID is ERC721, AccessControl {
         // Increment counter to start platform ids at index 1
         nextPlatformId.increment();
         mintStatus = MintStatus.ONLY_WHITELIST;
+        updateMinArbitrationFeeTimeout(10 days);
     }
 
     // =========================== View functions ==============================
@@ -254,6 +332,57 @@ contract KnowledgeLayerPlatformID is ERC721, AccessControl {
         return platforms[_platformId].signer;
     }
 
+    /**
+     * @notice Allows retrieval of the tokens allowed to price the courses of a platform
+     * @param _platformId The Platform Id
+     * @return The allowed tokens, empty if the platform allows all tokens
+     */
+    function getAllowedTokens(uint256 _platformId) external view returns (address[] memory) {
+        isValid(_platformId);
+        return allowedTokens[_platformId].values();
+    }
+
+    /**
+     * @notice Returns whether a token can be used to price the courses of a platform
+     * @param _platformId The Platform Id
+     * @param _token The token address
+     * @return Whether the token is allowed by the platform
+     */
+    function isTokenAllowed(uint256 _platformId, address _token) external view returns (bool) {
+        isValid(_platformId);
+        return allowedTokens[_platformId].length() == 0 || allowedTokens[_platformId].contains(_token);
+    }
+
+    /**
+     * @notice Allows retrieval of the refund window of a platform
+     * @param _platformId The Platform Id
+     * @return The refund window of the platform (in seconds)
+     */
+    function getRefundWindow(uint256 _platformId) external view returns (uint256) {
+        isValid(_platformId);
+        return platforms[_platformId].refundWindow;
+    }
+
+    /**
+     * @notice Allows retrieval of the hold period of a platform
+     * @param _platformId The Platform Id
+     * @return The hold period of the platform (in seconds)
+     */
+    function getHoldPeriod(uint256 _platformId) external view returns (uint256) {
+        isValid(_platformId);
+        return platforms[_platformId].holdPeriod;
+    }
+
+    /**
+     * @notice Allows retrieval of the arbitrator of a platform
+     * @param _platformId The Platform Id
+     * @return The arbitrator address and the arbitrator extra data of the platform
+     */
+    function getArbitrator(uint256 _platformId) external view returns (address, bytes memory) {
+        isValid(_platformId);
+        return (platforms[_platformId].arbitrator, platforms[_platformId].arbitratorExtraData);
+    }
+
     /**
      * @notice Allows retrieval of a Platform data
      * @param _platformId The Platform Id
@@ -350,6 +479,77 @@ contract KnowledgeLayerPlatformID is ERC721, AccessControl {
         emit SignerUpdated(_platformId, _signer);
     }
 
+    /**
+     * @notice Allows a platform to restrict the tokens used to price its courses. The platform allows all tokens
+     *         as long as no token is allowed.
+     * @param _platformId The platform Id of the platform
+     * @param _token The token address
+     * @param _isAllowed Whether the token is allowed
+     */
+    function updateAllowedToken(
+        uint256 _platformId,
+        address _token,
+        bool _isAllowed
+    ) public onlyPlatformOwner(_platformId) {
+        if (_isAllowed) {
+            allowedTokens[_platformId].add(_token);
+        } else {
+            allowedTokens[_platformId].remove(_token);
+        }
+        emit AllowedTokenUpdated(_platformId, _token, _isAllowed);
+    }
+
+    /**
+     * @notice Allows a platform to update the period during which buyers can be reimbursed
+     * @param _platformId The platform Id of the platform
+     * @param _refundWindow The new refund window (in seconds)
+     */
+    function updateRefundWindow(uint256 _platformId, uint256 _refundWindow) public onlyPlatformOwner(_platformId) {
+        platforms[_platformId].refundWindow = _refundWindow;
+        emit RefundWindowUpdated(_platformId, _refundWindow);
+    }
+
+    /**
+     * @notice Allows a platform to update the period during which payments are held before they can be released
+     * @param _platformId The platform Id of the platform
+     * @param _holdPeriod The new hold period (in seconds)
+     */
+    function updateHoldPeriod(uint256 _platformId, uint256 _holdPeriod) public onlyPlatformOwner(_platformId) {
+        platforms[_platformId].holdPeriod = _holdPeriod;
+        emit HoldPeriodUpdated(_platformId, _holdPeriod);
+    }
+
+    /**
+     * @notice Allows a platform to update the arbitrator in charge of resolving disputes
+     * @dev Setting the zero address disables disputes for courses purchased on the platform
+     * @param _platformId The platform Id of the platform
+     * @param _arbitrator The new arbitrator address
+     * @param _extraData The extra data passed to the arbitrator when creating a dispute
+     */
+    function updateArbitrator(
+        uint256 _platformId,
+        address _arbitrator,
+        bytes memory _extraData
+    ) public onlyPlatformOwner(_platformId) {
+        platforms[_platformId].arbitrator = _arbitrator;
+        platforms[_platformId].arbitratorExtraData = _extraData;
+        emit ArbitratorUpdated(_platformId, _arbitrator, _extraData);
+    }
+
+    /**
+     * @notice Allows a platform to update the timeout for the seller to pay the arbitration fee
+     * @param _platformId The platform Id of the platform
+     * @param _arbitrationFeeTimeout The new arbitration fee timeout (in seconds)
+     */
+    function updateArbitrationFeeTimeout(
+        uint256 _platformId,
+        uint256 _arbitrationFeeTimeout
+    ) public onlyPlatformOwner(_platformId) {
+        require(_arbitrationFeeTimeout >= minArbitrationFeeTimeout, "The timeout must be greater than the minimum");
+        platforms[_platformId].arbitrationFeeTimeout = _arbitrationFeeTimeout;
+        emit ArbitrationFeeTimeoutUpdated(_platformId, _arbitrationFeeTimeout);
+    }
+
     // =========================== Owner functions ==============================
 
     /**
@@ -379,6 +579,15 @@ contract KnowledgeLayerPlatformID is ERC721, AccessControl {
         emit MintFeeUpdated(_mintFee);
     }
 
+    /**
+     * @notice Updates the minimum timeout to pay the arbitration fee.
+     * @param _minArbitrationFeeTimeout The new minimum arbitration fee timeout (in seconds)
+     */
+    function updateMinArbitrationFeeTimeout(uint256 _minArbitrationFeeTimeout) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        minArbitrationFeeTimeout = _minArbitrationFeeTimeout;
+        emit MinArbitrationFeeTimeoutUpdated(_minArbitrationFeeTimeout);
+    }
+
     /**
      * Withdraws the contract balance to the admin.
      */
@@ -402,6 +611,7 @@ contract KnowledgeLayerPlatformID is ERC721, AccessControl {
         platform.name = _platformName;
         platform.id = platformId;
         platform.signer = address(0);
+        platform.arbitrationFeeTimeout = minArbitrationFeeTimeout;
         takenNames[_platformName] = true;
         ids[_platformAddress] = platformId;
 
@@ -434,17 +644,25 @@ contract KnowledgeLayerPlatformID is ERC721, AccessControl {
 
     // =========================== Overrides ==============================
 
+    /**
+     * @dev Restricts upgrades of the implementation to the admin
+     */
+    function _authorizeUpgrade(address) internal override(UUPSUpgradeable) onlyRole(DEFAULT_ADMIN_ROLE) {}
+
     /**
      * @dev See {IERC165-supportsInterface}.
      */
-    function supportsInterface(bytes4 interfaceId) public view virtual override(ERC721, AccessControl) returns (bool) {
-        return ERC721.supportsInterface(interfaceId) || AccessControl.supportsInterface(interfaceId);
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view virtual override(ERC721Upgradeable, AccessControlUpgradeable) returns (bool) {
+        return
+            ERC721Upgradeable.supportsInterface(interfaceId) || AccessControlUpgradeable.supportsInterface(interfaceId);
     }
 
     /**
      * @dev Override to prevent token transfer.
      */
-    function _transfer(address, address, uint256) internal virtual override(ERC721) {
+    function _transfer(address, address, uint256) internal virtual override(ERC721Upgradeable) {
         revert("Token transfer is not allowed");
     }
 
@@ -452,7 +670,7 @@ contract KnowledgeLayerPlatformID is ERC721, AccessControl {
      * @notice Implementation of the {IERC721Metadata-tokenURI} function.
      * @param tokenId The ID of the token
      */
-    function tokenURI(uint256 tokenId) public view virtual override(ERC721) returns (string memory) {
+    function tokenURI(uint256 tokenId) public view virtual override(ERC721Upgradeable) returns (string memory) {
         return _buildTokenURI(tokenId);
     }
 
@@ -1,22 +1,31 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.9;
 
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import {IKnowledgeLayerID} from "./interfaces/IKnowledgeLayerID.sol";
 import {IKnowledgeLayerCourse} from "./interfaces/IKnowledgeLayerCourse.sol";
 import {IKnowledgeLayerPlatformID} from "./interfaces/IKnowledgeLayerPlatformID.sol";
+import {ERC2771Recipient} from "./libs/ERC2771Recipient.sol";
 
 import {Base64} from "@openzeppelin/contracts/utils/Base64.sol";
 import {Address} from "@openzeppelin/contracts/utils/Address.sol";
-import {Context} from "@openzeppelin/contracts/utils/Context.sol";
+import {ContextUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ContextUpgradeable.sol";
 import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
 import {Counters} from "@openzeppelin/contracts/utils/Counters.sol";
-import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
-import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {ERC721Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
+import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 
 /**
  * @title KnowledgeLayerReview Contract
  */
-contract KnowledgeLayerReview is ERC721 {
+contract KnowledgeLayerReview is
+    Initializable,
+    OwnableUpgradeable,
+    ERC721Upgradeable,
+    ERC2771Recipient,
+    UUPSUpgradeable
+{
     using Address for address;
     using Strings for uint256;
     using Counters for Counters.Counter;
@@ -85,10 +94,20 @@ contract KnowledgeLayerReview is ERC721 {
 
     // =========================== Constructor ==============================
 
-    constructor(
-        address _knowledgeLayerIdAddress,
-        address _knowledgeLayerCourseAddress
-    ) ERC721("KnowledgeLayerReview", "KLR") {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @notice Initializes the proxy, replacing the constructor
+     * @param _knowledgeLayerIdAddress Address of the KnowledgeLayerID contract
+     * @param _knowledgeLayerCourseAddress Address of the KnowledgeLayerCourse contract
+     */
+    function initialize(address _knowledgeLayerIdAddress, address _knowledgeLayerCourseAddress) public initializer {
+        __Ownable_init();
+        __ERC721_init("KnowledgeLayerReview", "KLR");
+        __UUPSUpgradeable_init();
         knowledgeLayerId = IKnowledgeLayerID(_knowledgeLayerIdAddress);
         knowledgeLayerCourse = IKnowledgeLayerCourse(_knowledgeLayerCourseAddress);
         nextReviewId.increment();
@@ -155,12 +174,41 @@ contract KnowledgeLayerReview is ERC721 {
         return id;
     }
 
+    // =========================== Owner functions ==============================
+
+    /**
+     * @dev Sets the forwarder allowed to relay meta-transactions, the zero address disables them
+     * @param _forwarder Address of the trusted forwarder
+     */
+    function setTrustedForwarder(address _forwarder) external onlyOwner {
+        _setTrustedForwarder(_forwarder);
+    }
+
     // =========================== Overrides ===================================
 
+    /**
+     * @dev Restricts upgrades of the implementation to the owner
+     */
+    function _authorizeUpgrade(address) internal override(UUPSUpgradeable) onlyOwner {}
+
+    /**
+     * @dev See {ERC2771Recipient-_msgSender}.
+     */
+    function _msgSender() internal view virtual override(ContextUpgradeable, ERC2771Recipient) returns (address) {
+        return ERC2771Recipient._msgSender();
+    }
+
+    /**
+     * @dev See {ERC2771Recipient-_msgData}.
+     */
+    function _msgData() internal view virtual override(ContextUpgradeable, ERC2771Recipient) returns (bytes calldata) {
+        return ERC2771Recipient._msgData();
+    }
+
     /**
      * @dev Override to prevent token transfer.
      */
-    function _transfer(address, address, uint256) internal virtual override(ERC721) {
+    function _transfer(address, address, uint256) internal virtual override(ERC721Upgradeable) {
         revert("Token transfer is not allowed");
     }
 
@@ -168,12 +216,12 @@ contract KnowledgeLayerReview is ERC721 {
      * @dev Blocks the burn function
      * @param _tokenId The ID of the token
      */
-    function _burn(uint256 _tokenId) internal virtual override(ERC721) {}
+    function _burn(uint256 _tokenId) internal virtual override(ERC721Upgradeable) {}
 
     /**
      * @notice Implementation of the {IERC721Metadata-tokenURI} function.
      */
-    function tokenURI(uint256) public view virtual override(ERC721) returns (string memory) {
+    function tokenURI(uint256) public view virtual override(ERC721Upgradeable) returns (string memory) {
         return _buildTokenURI();
     }
 
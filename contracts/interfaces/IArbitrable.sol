@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.9;
+
+import {IArbitrator} from "./IArbitrator.sol";
+
+/**
+ * @title Arbitrable interface (ERC-792)
+ * @notice Arbitrable contracts create disputes in an arbitrator contract and enforce its rulings
+ */
+interface IArbitrable {
+    /**
+     * @dev Emitted when a ruling is given
+     * @param _arbitrator The arbitrator giving the ruling
+     * @param _disputeId Id of the dispute in the arbitrator contract
+     * @param _ruling The ruling given by the arbitrator
+     */
+    event Ruling(IArbitrator indexed _arbitrator, uint256 indexed _disputeId, uint256 _ruling);
+
+    /**
+     * @dev Gives a ruling for a dispute. Must be called by the arbitrator.
+     * @param _disputeId Id of the dispute in the arbitrator contract
+     * @param _ruling Ruling given by the arbitrator. 0 is reserved for "Not able/wanting to make a decision".
+     */
+    function rule(uint256 _disputeId, uint256 _ruling) external;
+}
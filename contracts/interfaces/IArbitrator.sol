@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.9;
+
+import {IArbitrable} from "./IArbitrable.sol";
+
+/**
+ * @title Arbitrator interface (ERC-792)
+ * @notice Arbitrator contracts give rulings on disputes created by arbitrable contracts
+ */
+interface IArbitrator {
+    enum DisputeStatus {
+        Waiting,
+        Appealable,
+        Solved
+    }
+
+    /**
+     * @dev Emitted when a dispute is created
+     * @param _disputeId Id of the dispute
+     * @param _arbitrable The contract which created the dispute
+     */
+    event DisputeCreation(uint256 indexed _disputeId, IArbitrable indexed _arbitrable);
+
+    /**
+     * @dev Creates a dispute. Must be called by the arbitrable contract and pay the arbitration cost.
+     * @param _choices Amount of choices the arbitrator can make in this dispute
+     * @param _extraData Can be used to give additional info on the dispute to be created
+     * @return disputeId Id of the dispute created
+     */
+    function createDispute(uint256 _choices, bytes calldata _extraData) external payable returns (uint256 disputeId);
+
+    /**
+     * @dev Returns the cost of arbitration
+     * @param _extraData Can be used to give additional info on the dispute to be created
+     * @return cost Amount to be paid
+     */
+    function arbitrationCost(bytes calldata _extraData) external view returns (uint256 cost);
+
+    /**
+     * @dev Returns the status of a dispute
+     * @param _disputeId Id of the dispute
+     */
+    function disputeStatus(uint256 _disputeId) external view returns (DisputeStatus status);
+
+    /**
+     * @dev Returns the current ruling of a dispute
+     * @param _disputeId Id of the dispute
+     */
+    function currentRuling(uint256 _disputeId) external view returns (uint256 ruling);
+}
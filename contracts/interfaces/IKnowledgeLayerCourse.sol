@@ -4,15 +4,62 @@ pragma solidity ^0.8.9;
 import {IERC1155} from "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
 
 interface IKnowledgeLayerCourse is IERC1155 {
+    enum CourseStatus {
+        Draft,
+        Published,
+        Paused,
+        Archived
+    }
+
     struct Course {
         uint256 ownerId;
         uint256 platformId;
         uint256 price;
         address token;
         string dataUri;
+        uint256 accessDuration;
+        CourseStatus status;
+    }
+
+    struct Bundle {
+        uint256 ownerId;
+        uint256 platformId;
+        uint256 price;
+        address token;
+        string dataUri;
+        uint256[] courseIds;
+    }
+
+    struct Collaborator {
+        uint256 profileId;
+        uint16 share;
     }
 
     function getCourse(uint256 _courseId) external view returns (Course memory);
 
+    function getBundle(uint256 _bundleId) external view returns (Bundle memory);
+
+    function getCollaborators(uint256 _courseId) external view returns (Collaborator[] memory);
+
+    function referralFees(uint256 _courseId) external view returns (uint16);
+
+    function getDiscountedPrice(uint256 _courseId, string calldata _couponCode) external view returns (uint256);
+
+    function hasAccess(uint256 _profileId, uint256 _courseId) external view returns (bool);
+
     function buyCourse(uint256 _profileId, uint256 _courseId) external payable;
+
+    function revokeCourse(uint256 _profileId, uint256 _courseId) external;
+
+    function redeemCoupon(
+        uint256 _profileId,
+        uint256 _courseId,
+        string calldata _couponCode
+    ) external returns (uint256);
+
+    function restoreCoupon(uint256 _courseId, bytes32 _codeHash) external;
+
+    function buyBundle(uint256 _profileId, uint256 _bundleId) external;
+
+    function revokeBundle(uint256 _profileId, uint256 _bundleId) external;
 }
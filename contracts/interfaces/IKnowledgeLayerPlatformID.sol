@@ -12,6 +12,11 @@ interface IKnowledgeLayerPlatformID is IERC721 {
         uint16 buyFee;
         uint256 postingFee;
         address signer;
+        uint256 refundWindow;
+        uint256 holdPeriod;
+        address arbitrator;
+        bytes arbitratorExtraData;
+        uint256 arbitrationFeeTimeout;
     }
 
     function balanceOf(address _platformAddress) external view returns (uint256);
@@ -22,6 +27,12 @@ interface IKnowledgeLayerPlatformID is IERC721 {
 
     function getSigner(uint256 _platformId) external view returns (address);
 
+    function getRefundWindow(uint256 _platformId) external view returns (uint256);
+
+    function getHoldPeriod(uint256 _platformId) external view returns (uint256);
+
+    function getArbitrator(uint256 _platformId) external view returns (address, bytes memory);
+
     function getPlatform(uint256 _platformId) external view returns (Platform memory);
 
     function mint(string memory _platformName) external payable returns (uint256);
@@ -51,4 +62,6 @@ interface IKnowledgeLayerPlatformID is IERC721 {
     function updatePostingFee(uint256 _platformId, uint256 _postingFee) external;
 
     function ids(address _user) external view returns (uint256);
+
+    function isTokenAllowed(uint256 _platformId, address _token) external view returns (bool);
 }
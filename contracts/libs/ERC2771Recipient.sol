@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.9;
+
+import {ContextUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ContextUpgradeable.sol";
+
+/**
+ * @title ERC2771Recipient Contract
+ * @dev Context variant accepting meta-transactions relayed by a trusted forwarder (ERC-2771). Unlike the
+ *      OpenZeppelin ERC2771Context, the forwarder is not immutable and can be updated by the inheriting contract.
+ */
+abstract contract ERC2771Recipient is ContextUpgradeable {
+    // Forwarder allowed to relay meta-transactions
+    address private trustedForwarder;
+
+    // =========================== Events ==============================
+
+    /**
+     * @dev Emitted when the trusted forwarder is updated
+     * @param forwarder Address of the new trusted forwarder
+     */
+    event TrustedForwarderUpdated(address forwarder);
+
+    // =========================== View functions ==============================
+
+    /**
+     * @dev Returns the forwarder allowed to relay meta-transactions
+     */
+    function getTrustedForwarder() public view returns (address) {
+        return trustedForwarder;
+    }
+
+    /**
+     * @dev Returns whether the given address is the trusted forwarder
+     * @param _forwarder Address to check
+     */
+    function isTrustedForwarder(address _forwarder) public view returns (bool) {
+        return _forwarder != address(0) && _forwarder == trustedForwarder;
+    }
+
+    // =========================== Internal functions ==============================
+
+    /**
+     * @dev Updates the trusted forwarder. Setting the zero address disables meta-transactions.
+     * @param _forwarder Address of the new trusted forwarder
+     */
+    function _setTrustedForwarder(address _forwarder) internal {
+        trustedForwarder = _forwarder;
+        emit TrustedForwarderUpdated(_forwarder);
+    }
+
+    // =========================== Overrides ==============================
+
+    /**
+     * @dev Returns the address of the signer of the meta-transaction, appended to the calldata by the
+     *      trusted forwarder, or the direct caller otherwise
+     */
+    function _msgSender() internal view virtual override returns (address sender) {
+        if (isTrustedForwarder(msg.sender)) {
+            /// @solidity memory-safe-assembly
+            assembly {
+                sender := shr(96, calldataload(sub(calldatasize(), 20)))
+            }
+        } else {
+            return super._msgSender();
+        }
+    }
+
+    /**
+     * @dev Returns the calldata of the meta-transaction without the appended signer address
+     */
+    function _msgData() internal view virtual override returns (bytes calldata) {
+        if (isTrustedForwarder(msg.sender)) {
+            return msg.data[:msg.data.length - 20];
+        } else {
+            return super._msgData();
+        }
+    }
+
+    /**
+     * @dev Reserved storage slots for variables added by future versions of this contract
+     */
+    uint256[49] private __gap;
+}
@@ -0,0 +1,152 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.9;
+
+import {IArbitrator} from "../interfaces/IArbitrator.sol";
+import {IKnowledgeLayerPlatformID} from "../interfaces/IKnowledgeLayerPlatformID.sol";
+
+/**
+ * @title EscrowDisputes Library
+ * @notice Raises, creates and resolves the disputes of the transactions of KnowledgeLayerEscrow. Deployed separately
+ *         and linked to the escrow, which keeps the disputes in its storage, to keep the escrow under the contract size
+ *         limit.
+ */
+library EscrowDisputes {
+    /**
+     * @notice Dispute status
+     */
+    enum DisputeStatus {
+        NoDispute,
+        WaitingReceiver,
+        DisputeCreated,
+        Resolved
+    }
+
+    /**
+     * @notice Dispute struct
+     * @param arbitrator The arbitrator contract in charge of the dispute
+     * @param arbitratorExtraData Extra data passed to the arbitrator when creating the dispute
+     * @param arbitrationFeeTimeout Timeout (in seconds) for the receiver to pay the arbitration fee
+     * @param senderFee Arbitration fee paid by the sender
+     * @param receiverFee Arbitration fee paid by the receiver
+     * @param lastInteraction Timestamp of the last interaction with the dispute
+     * @param disputeId Id of the dispute in the arbitrator contract
+     * @param status Status of the dispute
+     */
+    struct Dispute {
+        IArbitrator arbitrator;
+        bytes arbitratorExtraData;
+        uint256 arbitrationFeeTimeout;
+        uint256 senderFee;
+        uint256 receiverFee;
+        uint256 lastInteraction;
+        uint256 disputeId;
+        DisputeStatus status;
+    }
+
+    // Amount of choices an arbitrator can make in a dispute
+    uint8 private constant AMOUNT_OF_CHOICES = 2;
+
+    // =========================== Events ==============================
+
+    /**
+     * @dev Emitted when the sender raises a dispute and pays the arbitration fee
+     */
+    event DisputeRaised(uint256 transactionId, address arbitrator, uint256 senderFee);
+
+    /**
+     * @dev Emitted when the receiver pays the arbitration fee and the dispute is created in the arbitrator contract
+     */
+    event DisputeCreated(uint256 transactionId, address arbitrator, uint256 disputeId, uint256 receiverFee);
+
+    // =========================== Library functions ==============================
+
+    /**
+     * @dev Raises a dispute with the arbitrator of the platform where the transaction was made, the sender paying
+     *      the arbitration fee
+     * @param _dispute The dispute of the transaction
+     * @param _knowledgeLayerPlatformId The KnowledgeLayerPlatformID contract
+     * @param _platformId Id of the platform where the transaction was made
+     * @param _transactionId Id of the transaction
+     * @param _senderFee Arbitration fee paid by the sender
+     */
+    function raise(
+        Dispute storage _dispute,
+        IKnowledgeLayerPlatformID _knowledgeLayerPlatformId,
+        uint256 _platformId,
+        uint256 _transactionId,
+        uint256 _senderFee
+    ) public {
+        IKnowledgeLayerPlatformID.Platform memory platform = _knowledgeLayerPlatformId.getPlatform(_platformId);
+        require(platform.arbitrator != address(0), "Arbitration not enabled");
+
+        IArbitrator arbitrator = IArbitrator(platform.arbitrator);
+        require(_senderFee == arbitrator.arbitrationCost(platform.arbitratorExtraData), "Non-matching funds");
+
+        _dispute.arbitrator = arbitrator;
+        _dispute.arbitratorExtraData = platform.arbitratorExtraData;
+        _dispute.arbitrationFeeTimeout = platform.arbitrationFeeTimeout;
+        _dispute.senderFee = _senderFee;
+        _dispute.lastInteraction = block.timestamp;
+        _dispute.status = DisputeStatus.WaitingReceiver;
+
+        emit DisputeRaised(_transactionId, platform.arbitrator, _senderFee);
+    }
+
+    /**
+     * @dev Creates the dispute in the arbitrator contract once the receiver pays the arbitration fee
+     * @param _dispute The dispute of the transaction
+     * @param _disputeIdToTransactionId Arbitrator address to dispute id to transaction id
+     * @param _transactionId Id of the transaction
+     * @param _receiverFee Arbitration fee paid by the receiver
+     */
+    function create(
+        Dispute storage _dispute,
+        mapping(address => mapping(uint256 => uint256)) storage _disputeIdToTransactionId,
+        uint256 _transactionId,
+        uint256 _receiverFee
+    ) public {
+        require(_dispute.status == DisputeStatus.WaitingReceiver, "Not waiting for arbitration fee");
+
+        uint256 arbitrationCost = _dispute.arbitrator.arbitrationCost(_dispute.arbitratorExtraData);
+        require(_receiverFee == arbitrationCost, "Non-matching funds");
+
+        uint256 disputeId = _dispute.arbitrator.createDispute{value: arbitrationCost}(
+            AMOUNT_OF_CHOICES,
+            _dispute.arbitratorExtraData
+        );
+
+        _dispute.receiverFee = _receiverFee;
+        _dispute.lastInteraction = block.timestamp;
+        _dispute.disputeId = disputeId;
+        _dispute.status = DisputeStatus.DisputeCreated;
+        _disputeIdToTransactionId[address(_dispute.arbitrator)][disputeId] = _transactionId;
+
+        emit DisputeCreated(_transactionId, address(_dispute.arbitrator), disputeId, _receiverFee);
+    }
+
+    /**
+     * @dev Resolves a dispute in favor of the sender once the receiver didn't pay the arbitration fee before the
+     *      timeout
+     * @param _dispute The dispute of the transaction
+     */
+    function timeout(Dispute storage _dispute) public {
+        require(_dispute.status == DisputeStatus.WaitingReceiver, "Not waiting for arbitration fee");
+        require(block.timestamp >= _dispute.lastInteraction + _dispute.arbitrationFeeTimeout, "Timeout is not over");
+
+        _dispute.status = DisputeStatus.Resolved;
+    }
+
+    /**
+     * @dev Resolves a dispute with the ruling of its arbitrator, which must be the caller
+     * @param _dispute The dispute of the transaction
+     * @param _transactionId Id of the transaction, 0 if the dispute is unknown to the escrow
+     * @param _ruling Ruling given by the arbitrator
+     */
+    function resolve(Dispute storage _dispute, uint256 _transactionId, uint256 _ruling) public {
+        require(_transactionId != 0 && address(_dispute.arbitrator) == msg.sender, "Not the arbitrator");
+        require(_dispute.status == DisputeStatus.DisputeCreated, "Dispute already resolved");
+        require(_ruling <= AMOUNT_OF_CHOICES, "Invalid ruling");
+
+        _dispute.status = DisputeStatus.Resolved;
+    }
+}
@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: Unlicensed
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/utils/Address.sol";
+
+/**
+ * @dev Account which rejects any ETH sent to it, used to test failing payouts
+ */
+contract EtherRejecter {
+    function execute(address _target, bytes calldata _data) external {
+        Address.functionCall(_target, _data);
+    }
+}
@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: Unlicensed
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/metatx/MinimalForwarder.sol";
+
+/**
+ * @dev Minimal ERC-2771 forwarder used to relay meta-transactions in local tests
+ */
+contract KnowledgeLayerForwarder is MinimalForwarder {
+
+}
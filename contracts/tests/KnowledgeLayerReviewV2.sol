@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: Unlicensed
+pragma solidity ^0.8.9;
+
+import {KnowledgeLayerReview} from "../KnowledgeLayerReview.sol";
+
+/**
+ * @dev New implementation of KnowledgeLayerReview appending a variable to its storage, used to test upgrades
+ */
+contract KnowledgeLayerReviewV2 is KnowledgeLayerReview {
+    uint256 public reviewCountLimit;
+
+    function setReviewCountLimit(uint256 _reviewCountLimit) external onlyOwner {
+        reviewCountLimit = _reviewCountLimit;
+    }
+}
+
+/**
+ * @dev Variable inserted before the storage of KnowledgeLayerReview
+ */
+abstract contract StorageShift {
+    uint256 private shift;
+}
+
+/**
+ * @dev New implementation of KnowledgeLayerReview shifting its storage, rejected by the storage layout checks
+ */
+contract KnowledgeLayerReviewStorageShift is StorageShift, KnowledgeLayerReview {
+
+}
@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: Unlicensed
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+import {IArbitrable} from "../interfaces/IArbitrable.sol";
+import {IArbitrator} from "../interfaces/IArbitrator.sol";
+
+contract MockArbitrator is IArbitrator, Ownable {
+    struct Dispute {
+        IArbitrable arbitrated;
+        uint256 choices;
+        uint256 ruling;
+        DisputeStatus status;
+    }
+
+    uint256 public arbitrationPrice;
+
+    Dispute[] public disputes;
+
+    constructor(uint256 _arbitrationPrice) {
+        arbitrationPrice = _arbitrationPrice;
+    }
+
+    function setArbitrationPrice(uint256 _arbitrationPrice) external onlyOwner {
+        arbitrationPrice = _arbitrationPrice;
+    }
+
+    function createDispute(uint256 _choices, bytes calldata _extraData) external payable returns (uint256 disputeId) {
+        require(msg.value >= arbitrationCost(_extraData), "Not enough ETH to cover arbitration costs");
+
+        disputes.push(
+            Dispute({arbitrated: IArbitrable(msg.sender), choices: _choices, ruling: 0, status: DisputeStatus.Waiting})
+        );
+        disputeId = disputes.length - 1;
+
+        emit DisputeCreation(disputeId, IArbitrable(msg.sender));
+    }
+
+    function giveRuling(uint256 _disputeId, uint256 _ruling) external onlyOwner {
+        Dispute storage dispute = disputes[_disputeId];
+        require(_ruling <= dispute.choices, "Invalid ruling");
+        require(dispute.status != DisputeStatus.Solved, "The dispute must not be solved already");
+
+        dispute.ruling = _ruling;
+        dispute.status = DisputeStatus.Solved;
+
+        dispute.arbitrated.rule(_disputeId, _ruling);
+    }
+
+    function arbitrationCost(bytes calldata) public view returns (uint256) {
+        return arbitrationPrice;
+    }
+
+    function disputeStatus(uint256 _disputeId) external view returns (DisputeStatus) {
+        return disputes[_disputeId].status;
+    }
+
+    function currentRuling(uint256 _disputeId) external view returns (uint256) {
+        return disputes[_disputeId].ruling;
+    }
+}
@@ -2,11 +2,12 @@
 pragma solidity ^0.8.9;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/draft-ERC20Permit.sol";
 
-contract SimpleERC20 is ERC20 {
+contract SimpleERC20 is ERC20, ERC20Permit {
     address public owner;
 
-    constructor() ERC20("SimpleERC20", "SERC20") {
+    constructor() ERC20("SimpleERC20", "SERC20") ERC20Permit("SimpleERC20") {
         _mint(msg.sender, 1000000 ether);
         owner = msg.sender;
     }
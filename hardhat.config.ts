@@ -1,8 +1,11 @@
 import { HardhatUserConfig } from 'hardhat/config';
 import 'hardhat-contract-sizer';
 import '@nomicfoundation/hardhat-toolbox';
+import '@openzeppelin/hardhat-upgrades';
 
 import './scripts/tasks/deploy';
+import './scripts/tasks/upgrade';
+import './scripts/tasks/indexer';
 
 import dotenv from 'dotenv';
 
@@ -31,6 +34,16 @@ const config: HardhatUserConfig = {
         },
       },
     ],
+    overrides: {
+      'contracts/KnowledgeLayerCourse.sol': {
+        version: '0.8.17',
+        settings: { viaIR: true, optimizer: { enabled: true, runs: 1 } },
+      },
+      'contracts/KnowledgeLayerEscrow.sol': {
+        version: '0.8.17',
+        settings: { viaIR: true, optimizer: { enabled: true, runs: 1 } },
+      },
+    },
   },
   networks: {
     mumbai: {
@@ -47,7 +60,7 @@ const config: HardhatUserConfig = {
     alphaSort: true,
     disambiguatePaths: false,
     runOnCompile: true,
-    only: ['KnowledgeLayer'],
+    only: ['KnowledgeLayer', 'EscrowDisputes'],
   },
 };
 
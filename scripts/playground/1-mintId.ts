@@ -1,6 +1,7 @@
 import hre, { ethers } from 'hardhat';
 import { getDeploymentAddress } from '../../.deployment/deploymentManager';
 import { MintStatus } from '../../utils/constants';
+import { KnowledgeLayerClient } from '../../sdk';
 
 async function main() {
   const network = hre.network.name;
@@ -19,16 +20,10 @@ async function main() {
   await tx1.wait();
 
   // Mint IDs
-  const tx2 = await knowledgeLayerID.connect(alice).mint(0, 'alice');
-  await tx2.wait();
-
-  const aliceId = await knowledgeLayerID.ids(alice.address);
+  const aliceId = await new KnowledgeLayerClient(alice, network).mintProfile(0, 'alice');
   console.log(`Minted ID ${aliceId} for Alice`);
 
-  const tx3 = await knowledgeLayerID.connect(bob).mint(0, 'bob__');
-  await tx3.wait();
-
-  const bobId = await knowledgeLayerID.ids(bob.address);
+  const bobId = await new KnowledgeLayerClient(bob, network).mintProfile(0, 'bob__');
   console.log(`Minted ID ${bobId} for Bob`);
 }
 
@@ -1,7 +1,6 @@
 import hre, { ethers } from 'hardhat';
-import { getDeploymentAddress } from '../../.deployment/deploymentManager';
 import uploadToIPFS from '../../utils/uploadToIpfs';
-import { ETH_ADDRESS } from '../../utils/constants';
+import { KnowledgeLayerClient } from '../../sdk';
 
 async function main() {
   const network = hre.network.name;
@@ -9,16 +8,7 @@ async function main() {
 
   const [, alice] = await ethers.getSigners();
 
-  // Get contracts
-  const knowledgeLayerID = await ethers.getContractAt(
-    'KnowledgeLayerID',
-    getDeploymentAddress(network, 'KnowledgeLayerID'),
-  );
-
-  const knowledgeLayerCourse = await ethers.getContractAt(
-    'KnowledgeLayerCourse',
-    getDeploymentAddress(network, 'KnowledgeLayerCourse'),
-  );
+  const client = new KnowledgeLayerClient(alice, network);
 
   // Upload course data to IPFS
   const courseData = {
@@ -43,17 +33,10 @@ async function main() {
   // Create course
   const coursePrice = ethers.utils.parseEther('0.00000001');
   const platformId = 1;
-  const aliceId = await knowledgeLayerID.connect(alice).ids(alice.address);
-
-  const tx = await knowledgeLayerCourse
-    .connect(alice)
-    .createCourse(aliceId, platformId, coursePrice, ETH_ADDRESS, dataUri);
-  const receipt = await tx.wait();
-
-  const id = receipt.events?.find((e) => e.event === 'CourseCreated')?.args?.courseId;
+  const id = await client.createCourse(platformId, coursePrice, dataUri);
   console.log('Created new course with id: ', id);
 
-  const course = await knowledgeLayerCourse.courses(0);
+  const course = await client.knowledgeLayerCourse.courses(id);
   console.log('Course: ', course);
 }
 
@@ -1,5 +1,5 @@
 import hre, { ethers } from 'hardhat';
-import { getDeploymentAddress } from '../../.deployment/deploymentManager';
+import { KnowledgeLayerClient } from '../../sdk';
 
 async function main() {
   const network = hre.network.name;
@@ -7,24 +7,18 @@ async function main() {
 
   const [, alice] = await ethers.getSigners();
 
-  // Get contract
-  const knowledgeLayerID = await ethers.getContractAt(
-    'KnowledgeLayerID',
-    getDeploymentAddress(network, 'KnowledgeLayerID'),
-  );
+  const client = new KnowledgeLayerClient(alice, network);
 
-  const knowledgeLayerEscrow = await ethers.getContractAt(
-    'KnowledgeLayerEscrow',
-    getDeploymentAddress(network, 'KnowledgeLayerEscrow'),
-  );
-
-  // Buy course
+  // Release payment
   const transactionId = 1;
-  const aliceId = await knowledgeLayerID.connect(alice).ids(alice.address);
-  const tx = await knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId);
-  await tx.wait();
+  await client.release(transactionId);
 
   console.log('Released payment for transaction with id: ', transactionId);
+
+  // Withdraw the released payment
+  await client.withdraw();
+
+  console.log('Withdrew balance');
 }
 
 // We recommend this pattern to be able to use async/await everywhere
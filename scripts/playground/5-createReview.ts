@@ -1,5 +1,5 @@
 import hre, { ethers } from 'hardhat';
-import { getDeploymentAddress } from '../../.deployment/deploymentManager';
+import { KnowledgeLayerClient } from '../../sdk';
 import uploadToIPFS from '../../utils/uploadToIpfs';
 
 async function main() {
@@ -8,16 +8,7 @@ async function main() {
 
   const [, , bob] = await ethers.getSigners();
 
-  // Get contracts
-  const knowledgeLayerReview = await ethers.getContractAt(
-    'KnowledgeLayerReview',
-    getDeploymentAddress(network, 'KnowledgeLayerReview'),
-  );
-
-  const knowledgeLayerID = await ethers.getContractAt(
-    'KnowledgeLayerID',
-    getDeploymentAddress(network, 'KnowledgeLayerID'),
-  );
+  const client = new KnowledgeLayerClient(bob, network);
 
   // Upload review data to IPFS
   const rating = 5;
@@ -28,14 +19,9 @@ async function main() {
   const dataUri = await uploadToIPFS(courseData);
   if (!dataUri) throw new Error('Failed to upload to IPFS');
 
-  // Create course
+  // Create review
   const courseId = 1;
-  const bobId = await knowledgeLayerID.connect(bob).ids(bob.address);
-
-  const tx = await knowledgeLayerReview.connect(bob).mint(bobId, courseId, dataUri, rating);
-  const receipt = await tx.wait();
-
-  const id = receipt.events?.find((e) => e.event === 'Mint')?.args?.id;
+  const id = await client.review(courseId, dataUri, rating);
   console.log('Created new review with id: ', id);
 }
 
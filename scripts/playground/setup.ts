@@ -1,7 +1,7 @@
 import hre, { ethers } from 'hardhat';
 import { getDeploymentAddress } from '../../.deployment/deploymentManager';
 import uploadToIPFS from '../../utils/uploadToIpfs';
-import { ETH_ADDRESS, MintStatus } from '../../utils/constants';
+import { CourseStatus, ETH_ADDRESS, MintStatus } from '../../utils/constants';
 
 async function main() {
   const network = hre.network.name;
@@ -127,10 +127,24 @@ async function main() {
     if (!dataUri) throw new Error('Failed to upload to IPFS');
 
     const profileId = await knowledgeLayerID.ids(user.address);
+    const postingFee = await knowledgeLayerPlatformID.getPostingFee(platformId);
 
     const tx = await knowledgeLayerCourse
       .connect(user)
-      .createCourse(profileId, platformId, price, ETH_ADDRESS, dataUri);
+      .createCourse(
+        profileId,
+        platformId,
+        price,
+        ETH_ADDRESS,
+        dataUri,
+        0,
+        CourseStatus.Published,
+        0,
+        '0x',
+        {
+          value: postingFee,
+        },
+      );
     await tx.wait();
   }
 
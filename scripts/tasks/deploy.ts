@@ -1,10 +1,231 @@
-import { setDeploymentAddress } from '../../.deployment/deploymentManager';
+import { execSync } from 'child_process';
+import { Contract } from 'ethers';
+import {
+  ContractName,
+  LIBRARY_NAMES,
+  LibraryName,
+  UpgradeableContractName,
+  getDeploymentRecord,
+  setDeploymentRecord,
+} from '../../.deployment/deploymentManager';
 import { verifyAddress } from '../../utils/verifyAddress';
 import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
 
-task('deploy', 'Deploy all contracts')
+/**
+ * Returns the git commit the contracts are deployed from.
+ */
+export function getCommit(): string {
+  try {
+    return execSync('git rev-parse HEAD', { stdio: ['ignore', 'pipe', 'ignore'] })
+      .toString()
+      .trim();
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Removes the CBOR-encoded metadata appended to the runtime bytecode by the compiler, whose length is given by the
+ * last two bytes of the code.
+ */
+function stripMetadata(code: Uint8Array): Uint8Array {
+  if (code.length < 2) return code;
+  const metadataLength = (code[code.length - 2] << 8) + code[code.length - 1] + 2;
+  return metadataLength <= code.length ? code.slice(0, code.length - metadataLength) : code;
+}
+
+/**
+ * Checks that the code deployed at an address is the runtime bytecode of a contract compiled from the current
+ * sources, linked to the given libraries. Immutable variables, and the address of libraries, are only known once
+ * deployed, so they are ignored, as well as the metadata hash which changes with the comments of the sources.
+ */
+export async function isCodeUpToDate(
+  { artifacts, ethers }: HardhatRuntimeEnvironment,
+  contractName: ContractName | LibraryName,
+  address: string,
+  libraries: Record<string, string>,
+): Promise<boolean> {
+  const artifact = await artifacts.readArtifact(contractName);
+
+  let expectedCode = artifact.deployedBytecode;
+  for (const references of Object.values(artifact.deployedLinkReferences)) {
+    for (const [libraryName, offsets] of Object.entries(references)) {
+      const libraryAddress = libraries[libraryName];
+      if (!libraryAddress) return false;
+
+      for (const { start, length } of offsets) {
+        const position = 2 + start * 2;
+        expectedCode =
+          expectedCode.slice(0, position) +
+          libraryAddress.slice(2).toLowerCase() +
+          expectedCode.slice(position + length * 2);
+      }
+    }
+  }
+
+  const code = ethers.utils.arrayify(await ethers.provider.getCode(address));
+
+  const buildInfo = await artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+  const { immutableReferences = {} } =
+    buildInfo?.output.contracts[artifact.sourceName][artifact.contractName].evm.deployedBytecode ??
+    {};
+  for (const references of Object.values(immutableReferences)) {
+    for (const { start, length } of references) {
+      code.fill(0, start, start + length);
+    }
+  }
+
+  // Libraries start by pushing their own address, to prevent calls which are not delegate calls
+  if ((LIBRARY_NAMES as readonly string[]).includes(contractName)) {
+    code.fill(0, 1, 21);
+  }
+
+  return (
+    ethers.utils.hexlify(stripMetadata(code)) ===
+    ethers.utils.hexlify(stripMetadata(ethers.utils.arrayify(expectedCode)))
+  );
+}
+
+/**
+ * Returns the address of a contract recorded as deployed on the network. A contract is deployed again if it was
+ * deployed with other arguments or its code doesn't match the current sources, but a proxy, which holds the state of
+ * the contract, is always kept: the task stops if its implementation doesn't match the current sources, so that it's
+ * upgraded instead.
+ * @param libraries Addresses of the libraries linked to the contract
+ * @returns The address of the contract, undefined if it must be deployed
+ */
+async function getDeployedAddress(
+  hre: HardhatRuntimeEnvironment,
+  contractName: ContractName | LibraryName,
+  args: unknown[],
+  isProxy: boolean,
+  libraries: Record<string, string> = {},
+): Promise<string | undefined> {
+  const { ethers, network, upgrades } = hre;
+  const record = getDeploymentRecord(network.name, contractName);
+  if (!record) return undefined;
+
+  if ((await ethers.provider.getCode(record.address)) === '0x') {
+    console.log(`No code at the recorded address of ${contractName}, deploying it again`);
+    return undefined;
+  }
+
+  if (isProxy) {
+    // The initializer arguments of a proxy only matter when it's deployed
+    const implementation = await upgrades.erc1967.getImplementationAddress(record.address);
+    if (!(await isCodeUpToDate(hre, contractName, implementation, libraries))) {
+      throw new Error(
+        `The implementation of ${contractName} doesn't match the current sources, run \`hardhat upgrade ${contractName}\``,
+      );
+    }
+  } else {
+    if (JSON.stringify(record.args) !== JSON.stringify(args)) {
+      console.log(`${contractName} was deployed with other arguments, deploying it again`);
+      return undefined;
+    }
+
+    if (!(await isCodeUpToDate(hre, contractName, record.address, libraries))) {
+      console.log(`${contractName} was deployed from other sources, deploying it again`);
+      return undefined;
+    }
+  }
+
+  console.log(`${contractName} already deployed at`, record.address);
+  return record.address;
+}
+
+/**
+ * Records the address and the deployment details of a contract once its deployment is mined.
+ */
+async function recordDeployment(
+  { network }: HardhatRuntimeEnvironment,
+  contractName: ContractName | LibraryName,
+  contract: Contract,
+  args: unknown[],
+  commit: string,
+  implementation?: string,
+) {
+  const receipt = await contract.deployTransaction.wait();
+
+  setDeploymentRecord(network.name, contractName, {
+    address: contract.address,
+    implementation,
+    blockNumber: receipt.blockNumber,
+    transactionHash: receipt.transactionHash,
+    args,
+    deployer: receipt.from,
+    commit,
+  });
+}
+
+/**
+ * Deploys a contract behind a UUPS proxy, unless it's already deployed.
+ * @param libraries Addresses of the libraries linked to the contract
+ * @returns The address of the proxy
+ */
+async function deployProxy(
+  hre: HardhatRuntimeEnvironment,
+  contractName: UpgradeableContractName,
+  args: unknown[],
+  verify: boolean,
+  commit: string,
+  libraries: Record<string, string> = {},
+): Promise<string> {
+  const deployedAddress = await getDeployedAddress(hre, contractName, args, true, libraries);
+  if (deployedAddress) return deployedAddress;
+
+  const { ethers, upgrades } = hre;
+  const factory = await ethers.getContractFactory(contractName, { libraries });
+  const proxy = await upgrades.deployProxy(factory, args, {
+    kind: 'uups',
+    unsafeAllowLinkedLibraries: Object.keys(libraries).length > 0,
+  });
+  await proxy.deployed();
+
+  const implementation = await upgrades.erc1967.getImplementationAddress(proxy.address);
+  await recordDeployment(hre, contractName, proxy, args, commit, implementation);
+  console.log(`Deployed ${contractName} at`, proxy.address, 'with implementation', implementation);
+
+  if (verify) {
+    await verifyAddress(implementation);
+  }
+
+  return proxy.address;
+}
+
+/**
+ * Deploys a contract, unless it's already deployed.
+ * @returns The address of the contract
+ */
+async function deployContract(
+  hre: HardhatRuntimeEnvironment,
+  contractName: ContractName | LibraryName,
+  args: unknown[],
+  verify: boolean,
+  commit: string,
+): Promise<string> {
+  const deployedAddress = await getDeployedAddress(hre, contractName, args, false);
+  if (deployedAddress) return deployedAddress;
+
+  const factory = await hre.ethers.getContractFactory(contractName);
+  const contract = await factory.deploy(...args);
+  await contract.deployed();
+
+  await recordDeployment(hre, contractName, contract, args, commit);
+  console.log(`Deployed ${contractName} at`, contract.address);
+
+  if (verify) {
+    await verifyAddress(contract.address, args);
+  }
+
+  return contract.address;
+}
+
+task('deploy', 'Deploy all contracts, skipping the ones already deployed')
   .addFlag('verify', 'verify contracts on etherscan')
-  .setAction(async (args, { ethers, network }) => {
+  .setAction(async (args, hre) => {
+    const { ethers, network } = hre;
     const { verify } = args;
     console.log('Network:', network.name);
 
@@ -14,83 +235,82 @@ task('deploy', 'Deploy all contracts')
     const balance = await ethers.provider.getBalance(deployer.address);
     console.log('Balance: ', ethers.utils.formatEther(balance));
 
-    // Deploy KnowledgeLayerPlatformID
-    const KnowledgeLayerPlatformID = await ethers.getContractFactory('KnowledgeLayerPlatformID');
-    const knowledgeLayerPlatformID = await KnowledgeLayerPlatformID.deploy();
-    await knowledgeLayerPlatformID.deployed();
-
-    if (verify) {
-      await verifyAddress(knowledgeLayerPlatformID.address);
-    }
+    const commit = getCommit();
 
-    console.log('Deployed KnowledgeLayerPlatformID at', knowledgeLayerPlatformID.address);
-    setDeploymentAddress(
-      network.name,
+    // Deploy KnowledgeLayerPlatformID
+    const knowledgeLayerPlatformIDAddress = await deployProxy(
+      hre,
       'KnowledgeLayerPlatformID',
-      knowledgeLayerPlatformID.address,
+      [],
+      verify,
+      commit,
     );
 
     // Deploy KnowledgeLayerID
-    const KnowledgeLayerID = await ethers.getContractFactory('KnowledgeLayerID');
-    const knowledgeLayerIDconstructorArgs: [string] = [knowledgeLayerPlatformID.address];
-    const knowledgeLayerID = await KnowledgeLayerID.deploy(...knowledgeLayerIDconstructorArgs);
-    await knowledgeLayerID.deployed();
-
-    if (verify) {
-      await verifyAddress(knowledgeLayerID.address, knowledgeLayerIDconstructorArgs);
-    }
-
-    console.log('Deployed KnowledgeLayerID at', knowledgeLayerID.address);
-    setDeploymentAddress(network.name, 'KnowledgeLayerID', knowledgeLayerID.address);
+    const knowledgeLayerIDAddress = await deployProxy(
+      hre,
+      'KnowledgeLayerID',
+      [knowledgeLayerPlatformIDAddress],
+      verify,
+      commit,
+    );
 
     // Deploy KnowledgeLayerCourse
-    const KnowledgeLayerCourse = await ethers.getContractFactory('KnowledgeLayerCourse');
-    const knowledgeLayerCourseArgs: [string] = [knowledgeLayerID.address];
-    const knowledgeLayerCourse = await KnowledgeLayerCourse.deploy(...knowledgeLayerCourseArgs);
-    await knowledgeLayerCourse.deployed();
-
-    if (verify) {
-      await verifyAddress(knowledgeLayerCourse.address, knowledgeLayerCourseArgs);
-    }
+    const knowledgeLayerCourseAddress = await deployProxy(
+      hre,
+      'KnowledgeLayerCourse',
+      [knowledgeLayerIDAddress, knowledgeLayerPlatformIDAddress],
+      verify,
+      commit,
+    );
 
-    console.log('Deployed KnowledgeLayerCourse at', knowledgeLayerCourse.address);
-    setDeploymentAddress(network.name, 'KnowledgeLayerCourse', knowledgeLayerCourse.address);
+    // Deploy EscrowDisputes, linked to KnowledgeLayerEscrow
+    const escrowDisputesAddress = await deployContract(hre, 'EscrowDisputes', [], verify, commit);
 
     // Deploy KnowledgeLayerEscrow
-    const KnowledgeLayerEscrow = await ethers.getContractFactory('KnowledgeLayerEscrow');
-    const knowledgeLayerEscrowArgs: [string, string, string, string] = [
-      knowledgeLayerID.address,
-      knowledgeLayerPlatformID.address,
-      knowledgeLayerCourse.address,
-      deployer.address,
-    ];
-    const knowledgeLayerEscrow = await KnowledgeLayerEscrow.deploy(...knowledgeLayerEscrowArgs);
-    await knowledgeLayerEscrow.deployed();
-
-    if (verify) {
-      await verifyAddress(knowledgeLayerEscrow.address, knowledgeLayerEscrowArgs);
-    }
-
-    console.log('Deployed KnowledgeLayerEscrow at', knowledgeLayerEscrow.address);
-    setDeploymentAddress(network.name, 'KnowledgeLayerEscrow', knowledgeLayerEscrow.address);
+    const knowledgeLayerEscrowAddress = await deployProxy(
+      hre,
+      'KnowledgeLayerEscrow',
+      [
+        knowledgeLayerIDAddress,
+        knowledgeLayerPlatformIDAddress,
+        knowledgeLayerCourseAddress,
+        deployer.address,
+      ],
+      verify,
+      commit,
+      { EscrowDisputes: escrowDisputesAddress },
+    );
 
-    // Grant esrow role to KnowledgeLayerEscrow
+    // Grant escrow role to KnowledgeLayerEscrow, unless it already has it
+    const knowledgeLayerCourse = await ethers.getContractAt(
+      'KnowledgeLayerCourse',
+      knowledgeLayerCourseAddress,
+    );
     const escrowRole = await knowledgeLayerCourse.ESCROW_ROLE();
-    await knowledgeLayerCourse.grantRole(escrowRole, knowledgeLayerEscrow.address);
+    if (await knowledgeLayerCourse.hasRole(escrowRole, knowledgeLayerEscrowAddress)) {
+      console.log('KnowledgeLayerEscrow already has the escrow role');
+    } else {
+      const tx = await knowledgeLayerCourse.grantRole(escrowRole, knowledgeLayerEscrowAddress);
+      await tx.wait();
+      console.log('Granted the escrow role to KnowledgeLayerEscrow');
+    }
 
     // Deploy KnowledgeLayerReview
-    const KnowledgeLayerReview = await ethers.getContractFactory('KnowledgeLayerReview');
-    const knowledgeLayerReviewArgs: [string, string] = [
-      knowledgeLayerID.address,
-      knowledgeLayerCourse.address,
-    ];
-    const knowledgeLayerReview = await KnowledgeLayerReview.deploy(...knowledgeLayerReviewArgs);
-    await knowledgeLayerReview.deployed();
-
-    if (verify) {
-      await verifyAddress(knowledgeLayerReview.address, knowledgeLayerReviewArgs);
-    }
+    await deployProxy(
+      hre,
+      'KnowledgeLayerReview',
+      [knowledgeLayerIDAddress, knowledgeLayerCourseAddress],
+      verify,
+      commit,
+    );
 
-    console.log('Deployed KnowledgeLayerReview at', knowledgeLayerReview.address);
-    setDeploymentAddress(network.name, 'KnowledgeLayerReview', knowledgeLayerReview.address);
+    // Deploy KnowledgeLayerCertificate
+    await deployContract(
+      hre,
+      'KnowledgeLayerCertificate',
+      [knowledgeLayerIDAddress, knowledgeLayerCourseAddress],
+      verify,
+      commit,
+    );
   });
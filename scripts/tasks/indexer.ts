@@ -0,0 +1,89 @@
+import { task, types } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { getDeploymentAddress } from '../../.deployment/deploymentManager';
+import { CourseStatus, TransactionStatus } from '../../utils/constants';
+import {
+  IndexerContracts,
+  IndexerStore,
+  indexEvents,
+  loadStore,
+  queryCourses,
+  queryReviews,
+  querySales,
+  saveStore,
+} from '../../utils/indexer';
+
+const getStoreFilename = (network: string) => `${__dirname}/../../.indexer/${network}.json`;
+
+/**
+ * Replays the new events of the deployed contracts into the local store of the network.
+ */
+async function syncStore({ ethers, network }: HardhatRuntimeEnvironment): Promise<IndexerStore> {
+  const contracts: IndexerContracts = {
+    knowledgeLayerCourse: await ethers.getContractAt(
+      'KnowledgeLayerCourse',
+      getDeploymentAddress(network.name, 'KnowledgeLayerCourse'),
+    ),
+    knowledgeLayerEscrow: await ethers.getContractAt(
+      'KnowledgeLayerEscrow',
+      getDeploymentAddress(network.name, 'KnowledgeLayerEscrow'),
+    ),
+    knowledgeLayerReview: await ethers.getContractAt(
+      'KnowledgeLayerReview',
+      getDeploymentAddress(network.name, 'KnowledgeLayerReview'),
+    ),
+  };
+
+  const filename = getStoreFilename(network.name);
+  const store = loadStore(filename, contracts.knowledgeLayerEscrow.address);
+  const count = await indexEvents(contracts, store);
+  saveStore(filename, store);
+
+  console.log(`Indexed ${count} events up to block ${store.lastBlock}`);
+  return store;
+}
+
+task('index', 'Replay the events of the deployed contracts into the local store').setAction(
+  async (_, hre) => {
+    await syncStore(hre);
+  },
+);
+
+task('query', 'Query the courses, sales or reviews of the local store')
+  .addPositionalParam('entity', 'courses, sales or reviews')
+  .addOptionalParam('course', 'Filter by course id', undefined, types.string)
+  .addOptionalParam('teacher', 'Filter by teacher profile id', undefined, types.string)
+  .addOptionalParam('buyer', 'Filter by buyer profile id', undefined, types.string)
+  .addOptionalParam('platform', 'Filter by platform id', undefined, types.string)
+  .setAction(async (args, hre) => {
+    const { entity, course, teacher, buyer, platform } = args;
+    const store = await syncStore(hre);
+
+    switch (entity) {
+      case 'courses':
+        console.table(
+          queryCourses(store, { ownerId: teacher, platformId: platform }).map((item) => ({
+            ...item,
+            status: CourseStatus[item.status],
+          })),
+        );
+        break;
+      case 'sales':
+        console.table(
+          querySales(store, {
+            courseId: course,
+            teacherId: teacher,
+            buyerId: buyer,
+            platformId: platform,
+          }).map((item) => ({ ...item, status: TransactionStatus[item.status] })),
+        );
+        break;
+      case 'reviews':
+        console.table(
+          queryReviews(store, { courseId: course, teacherId: teacher, studentId: buyer }),
+        );
+        break;
+      default:
+        throw new Error(`Unknown entity ${entity}, expected courses, sales or reviews`);
+    }
+  });
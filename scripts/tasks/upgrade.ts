@@ -0,0 +1,103 @@
+import {
+  LINKED_LIBRARIES,
+  UPGRADEABLE_CONTRACT_NAMES,
+  UpgradeableContractName,
+  getDeploymentAddress,
+  getDeploymentRecord,
+  setDeploymentRecord,
+  setUpgradeRecord,
+} from '../../.deployment/deploymentManager';
+import { verifyAddress } from '../../utils/verifyAddress';
+import { getCommit, isCodeUpToDate } from './deploy';
+import { task } from 'hardhat/config';
+
+task('upgrade', 'Upgrade the implementation of a deployed contract')
+  .addPositionalParam('contract', `Contract to upgrade: ${UPGRADEABLE_CONTRACT_NAMES.join(', ')}`)
+  .addOptionalParam(
+    'implementation',
+    'Name of the new implementation contract, defaults to the contract to upgrade',
+  )
+  .addFlag('check', 'only check that the storage layout of the new implementation is compatible')
+  .addFlag('verify', 'verify the new implementation on etherscan')
+  .setAction(async (args, hre) => {
+    const { ethers, network, upgrades } = hre;
+    const { contract, implementation, check, verify } = args;
+    console.log('Network:', network.name);
+
+    if (!UPGRADEABLE_CONTRACT_NAMES.includes(contract)) {
+      throw new Error(
+        `Unknown contract ${contract}, expected one of ${UPGRADEABLE_CONTRACT_NAMES.join(', ')}`,
+      );
+    }
+    const contractName = contract as UpgradeableContractName;
+    const implementationName: string = implementation ?? contractName;
+
+    const proxyAddress = getDeploymentAddress(network.name, contractName);
+    if (!ethers.utils.isAddress(proxyAddress)) {
+      throw new Error(`${contractName} is not deployed on ${network.name}`);
+    }
+
+    const commit = getCommit();
+
+    // Libraries hold no state, so the new implementation is linked to the recorded instances of its libraries if
+    // their code matches the current sources, and to new instances otherwise. The storage layout check doesn't
+    // depend on the linked addresses.
+    const libraryNames = LINKED_LIBRARIES[contractName] ?? [];
+    const libraries: Record<string, string> = {};
+    for (const libraryName of libraryNames) {
+      if (check) {
+        libraries[libraryName] = ethers.constants.AddressZero;
+        continue;
+      }
+
+      const record = getDeploymentRecord(network.name, libraryName);
+      if (record && (await isCodeUpToDate(hre, libraryName, record.address, {}))) {
+        console.log(`${libraryName} already deployed at`, record.address);
+        libraries[libraryName] = record.address;
+        continue;
+      }
+
+      const library = await (await ethers.getContractFactory(libraryName)).deploy();
+      const receipt = await library.deployTransaction.wait();
+
+      if (verify) {
+        await verifyAddress(library.address);
+      }
+
+      console.log(`Deployed ${libraryName} at`, library.address);
+      setDeploymentRecord(network.name, libraryName, {
+        address: library.address,
+        blockNumber: receipt.blockNumber,
+        transactionHash: receipt.transactionHash,
+        args: [],
+        deployer: receipt.from,
+        commit,
+      });
+      libraries[libraryName] = library.address;
+    }
+    const options = { kind: 'uups', unsafeAllowLinkedLibraries: libraryNames.length > 0 } as const;
+
+    // Throws if the storage layout of the new implementation is not compatible with the current one
+    const factory = await ethers.getContractFactory(implementationName, { libraries });
+    await upgrades.validateUpgrade(proxyAddress, factory, options);
+    console.log(`Storage layout of ${implementationName} is compatible`);
+
+    if (check) {
+      return;
+    }
+
+    const proxy = await upgrades.upgradeProxy(proxyAddress, factory, options);
+    const receipt = await proxy.deployTransaction.wait();
+
+    const implementationAddress = await upgrades.erc1967.getImplementationAddress(proxyAddress);
+
+    if (verify) {
+      await verifyAddress(implementationAddress);
+    }
+
+    console.log(`Upgraded ${contractName} at`, proxyAddress, 'to', implementationAddress);
+    setUpgradeRecord(network.name, contractName, implementationAddress, commit, {
+      blockNumber: receipt.blockNumber,
+      transactionHash: receipt.transactionHash,
+    });
+  });
@@ -0,0 +1,619 @@
+import { TypedDataSigner } from '@ethersproject/abstract-signer';
+import { Provider } from '@ethersproject/providers';
+import { BigNumber, BigNumberish, ContractReceipt, Signer } from 'ethers';
+import { ContractName, getDeployment } from '../.deployment/deploymentManager';
+import { CourseStatus, DiscountType, ETH_ADDRESS, TransactionStatus } from '../utils/constants';
+import { getCouponCodeHash } from '../utils/coupon';
+import { signPermit } from '../utils/signature';
+import {
+  ERC20Permit__factory,
+  IERC20__factory,
+  KnowledgeLayerCertificate,
+  KnowledgeLayerCertificate__factory,
+  KnowledgeLayerCourse,
+  KnowledgeLayerCourse__factory,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerEscrow__factory,
+  KnowledgeLayerID,
+  KnowledgeLayerID__factory,
+  KnowledgeLayerPlatformID,
+  KnowledgeLayerPlatformID__factory,
+  KnowledgeLayerReview,
+  KnowledgeLayerReview__factory,
+} from '../typechain-types';
+
+export type KnowledgeLayerAddresses = Record<ContractName, string>;
+
+export type PriceQuote = KnowledgeLayerEscrow.PriceQuoteStructOutput;
+
+export type Collaborator = KnowledgeLayerCourse.CollaboratorStruct;
+
+export type Transaction = KnowledgeLayerEscrow.TransactionStructOutput;
+
+/**
+ * Page of transaction ids, oldest first, with the total number of ids of the list.
+ */
+export type TransactionIdsPage = {
+  ids: BigNumber[];
+  total: BigNumber;
+};
+
+/**
+ * Authorization of the platform signer, required when the platform has one.
+ */
+export type PlatformAuthorization = {
+  deadline: BigNumberish;
+  signature: string;
+};
+
+const NO_AUTHORIZATION: PlatformAuthorization = { deadline: 0, signature: '0x' };
+
+/**
+ * High-level client for the KnowledgeLayer contracts.
+ * Write methods act on behalf of the profile owned by the signer.
+ */
+export class KnowledgeLayerClient {
+  readonly knowledgeLayerID: KnowledgeLayerID;
+  readonly knowledgeLayerPlatformID: KnowledgeLayerPlatformID;
+  readonly knowledgeLayerCourse: KnowledgeLayerCourse;
+  readonly knowledgeLayerEscrow: KnowledgeLayerEscrow;
+  readonly knowledgeLayerReview: KnowledgeLayerReview;
+  readonly knowledgeLayerCertificate: KnowledgeLayerCertificate;
+
+  /**
+   * @param signerOrProvider Signer used to send transactions, or provider for read-only usage
+   * @param network Name of the network, used to load the deployment addresses
+   * @param addresses Addresses overriding the ones of the deployment
+   */
+  constructor(
+    private readonly signerOrProvider: Signer | Provider,
+    network: string,
+    addresses: Partial<KnowledgeLayerAddresses> = {},
+  ) {
+    const deployment = { ...getDeployment(network), ...addresses };
+
+    this.knowledgeLayerID = KnowledgeLayerID__factory.connect(
+      deployment.KnowledgeLayerID,
+      signerOrProvider,
+    );
+    this.knowledgeLayerPlatformID = KnowledgeLayerPlatformID__factory.connect(
+      deployment.KnowledgeLayerPlatformID,
+      signerOrProvider,
+    );
+    this.knowledgeLayerCourse = KnowledgeLayerCourse__factory.connect(
+      deployment.KnowledgeLayerCourse,
+      signerOrProvider,
+    );
+    this.knowledgeLayerEscrow = KnowledgeLayerEscrow__factory.connect(
+      deployment.KnowledgeLayerEscrow,
+      signerOrProvider,
+    );
+    this.knowledgeLayerReview = KnowledgeLayerReview__factory.connect(
+      deployment.KnowledgeLayerReview,
+      signerOrProvider,
+    );
+    this.knowledgeLayerCertificate = KnowledgeLayerCertificate__factory.connect(
+      deployment.KnowledgeLayerCertificate,
+      signerOrProvider,
+    );
+  }
+
+  // =========================== View functions ==============================
+
+  /**
+   * Returns the profile id owned by the given address, or by the signer if none is given.
+   * Returns 0 if the address has no profile.
+   */
+  async getProfileId(address?: string): Promise<BigNumber> {
+    return this.knowledgeLayerID.ids(address ?? (await this.getSigner().getAddress()));
+  }
+
+  /**
+   * Returns the price to pay for a course bought on a platform, with the breakdown of the fees.
+   * The discount of the coupon, if any, is applied before the fees.
+   */
+  async getPriceQuote(
+    courseId: BigNumberish,
+    buyPlatformId: BigNumberish,
+    couponCode = '',
+  ): Promise<PriceQuote> {
+    return this.knowledgeLayerEscrow.getPriceQuote(courseId, buyPlatformId, couponCode);
+  }
+
+  /**
+   * Returns the price to pay for a bundle bought on a platform, with the breakdown of the fees.
+   */
+  async getBundlePriceQuote(
+    bundleId: BigNumberish,
+    buyPlatformId: BigNumberish,
+  ): Promise<PriceQuote> {
+    return this.knowledgeLayerEscrow.getBundlePriceQuote(bundleId, buyPlatformId);
+  }
+
+  /**
+   * Returns the total price to pay for a course bought on a platform, including all fees.
+   */
+  async getTotalPrice(
+    courseId: BigNumberish,
+    buyPlatformId: BigNumberish,
+    couponCode = '',
+  ): Promise<BigNumber> {
+    const { totalPrice } = await this.getPriceQuote(courseId, buyPlatformId, couponCode);
+    return totalPrice;
+  }
+
+  /**
+   * Returns whether a token is allowed by the protocol and by a platform to price courses.
+   */
+  async isTokenAllowed(platformId: BigNumberish, token: string): Promise<boolean> {
+    return this.knowledgeLayerCourse.isTokenAllowed(platformId, token);
+  }
+
+  /**
+   * Returns whether the given profile, or the profile of the signer if none is given, has access to a course.
+   */
+  async hasAccess(courseId: BigNumberish, profileId?: BigNumberish): Promise<boolean> {
+    return this.knowledgeLayerCourse.hasAccess(profileId ?? (await this.getProfileId()), courseId);
+  }
+
+  /**
+   * Returns the balance withdrawable by the given profile, or by the profile of the signer if none is given,
+   * for a token.
+   */
+  async getBalance(token: string = ETH_ADDRESS, profileId?: BigNumberish): Promise<BigNumber> {
+    return this.knowledgeLayerEscrow.profileBalance(
+      profileId ?? (await this.getProfileId()),
+      token,
+    );
+  }
+
+  /**
+   * Returns the status of a transaction: pending, released, reimbursed or disputed.
+   */
+  async getTransactionStatus(transactionId: BigNumberish): Promise<TransactionStatus> {
+    return this.knowledgeLayerEscrow.getTransactionStatus(transactionId);
+  }
+
+  /**
+   * Returns the details of a transaction. The signer must be the buyer, the seller, or the owner of the platform
+   * where the transaction was made.
+   */
+  async getTransaction(transactionId: BigNumberish): Promise<Transaction> {
+    return this.knowledgeLayerEscrow.getTransaction(transactionId);
+  }
+
+  /**
+   * Returns a page of the ids of the transactions paid for by the given profile, or by the profile of the signer if
+   * none is given.
+   */
+  async getBuyerTransactionIds(
+    offset: BigNumberish,
+    limit: BigNumberish,
+    profileId?: BigNumberish,
+  ): Promise<TransactionIdsPage> {
+    return this.knowledgeLayerEscrow.getBuyerTransactionIds(
+      profileId ?? (await this.getProfileId()),
+      offset,
+      limit,
+    );
+  }
+
+  /**
+   * Returns a page of the ids of the transactions of the courses of the given profile, or of the profile of the
+   * signer if none is given.
+   */
+  async getTeacherTransactionIds(
+    offset: BigNumberish,
+    limit: BigNumberish,
+    profileId?: BigNumberish,
+  ): Promise<TransactionIdsPage> {
+    return this.knowledgeLayerEscrow.getTeacherTransactionIds(
+      profileId ?? (await this.getProfileId()),
+      offset,
+      limit,
+    );
+  }
+
+  /**
+   * Returns a page of the ids of the transactions buying a course, bundle purchases excluded.
+   */
+  async getCourseTransactionIds(
+    courseId: BigNumberish,
+    offset: BigNumberish,
+    limit: BigNumberish,
+  ): Promise<TransactionIdsPage> {
+    return this.knowledgeLayerEscrow.getCourseTransactionIds(courseId, offset, limit);
+  }
+
+  /**
+   * Returns a page of the ids of the transactions made through a platform.
+   */
+  async getPlatformTransactionIds(
+    platformId: BigNumberish,
+    offset: BigNumberish,
+    limit: BigNumberish,
+  ): Promise<TransactionIdsPage> {
+    return this.knowledgeLayerEscrow.getPlatformTransactionIds(platformId, offset, limit);
+  }
+
+  // =========================== User functions ==============================
+
+  /**
+   * Mints a profile for the signer, paying the price of the handle.
+   * @returns The id of the minted profile
+   */
+  async mintProfile(platformId: BigNumberish, handle: string): Promise<BigNumber> {
+    const price = await this.knowledgeLayerID.getHandlePrice(handle);
+    const tx = await this.knowledgeLayerID.mint(platformId, handle, { value: price });
+    const receipt = await tx.wait();
+
+    return getEventArg(receipt, 'Mint', 'profileId');
+  }
+
+  /**
+   * Creates a course owned by the profile of the signer, paying the posting fee of the platform.
+   * An access duration of 0 gives a lifetime access to buyers, and a course created as a draft can't be bought
+   * until it's published.
+   * @returns The id of the created course
+   */
+  async createCourse(
+    platformId: BigNumberish,
+    price: BigNumberish,
+    dataUri: string,
+    token: string = ETH_ADDRESS,
+    accessDuration: BigNumberish = 0,
+    status: CourseStatus = CourseStatus.Published,
+    authorization: PlatformAuthorization = NO_AUTHORIZATION,
+  ): Promise<BigNumber> {
+    const profileId = await this.getProfileId();
+    const postingFee = await this.knowledgeLayerPlatformID.getPostingFee(platformId);
+
+    const tx = await this.knowledgeLayerCourse.createCourse(
+      profileId,
+      platformId,
+      price,
+      token,
+      dataUri,
+      accessDuration,
+      status,
+      authorization.deadline,
+      authorization.signature,
+      { value: postingFee },
+    );
+    const receipt = await tx.wait();
+
+    return getEventArg(receipt, 'CourseCreated', 'courseId');
+  }
+
+  /**
+   * Buys a course for the profile of the signer, paying the total price including fees.
+   * The referrer, if any, earns the referral fee of the course on release.
+   * For ERC20 courses, the escrow is approved to spend the total price first.
+   * @returns The id of the escrow transaction
+   */
+  async buyCourse(
+    courseId: BigNumberish,
+    buyPlatformId: BigNumberish,
+    couponCode = '',
+    referrerId: BigNumberish = 0,
+    authorization: PlatformAuthorization = NO_AUTHORIZATION,
+  ): Promise<BigNumber> {
+    const profileId = await this.getProfileId();
+    const { token, totalPrice } = await this.getPriceQuote(courseId, buyPlatformId, couponCode);
+    const value = await this.approvePayment(token, totalPrice);
+
+    const tx = await this.knowledgeLayerEscrow.createTransaction(
+      profileId,
+      courseId,
+      buyPlatformId,
+      referrerId,
+      couponCode,
+      authorization.deadline,
+      authorization.signature,
+      { value },
+    );
+    const receipt = await tx.wait();
+
+    return getEventArg(receipt, 'TransactionCreated', 'id');
+  }
+
+  /**
+   * Buys a course as a gift for another profile, which is given access to the course.
+   * The signer pays the total price including fees and is the one who can be reimbursed.
+   * @returns The id of the escrow transaction
+   */
+  async giftCourse(
+    courseId: BigNumberish,
+    beneficiaryId: BigNumberish,
+    buyPlatformId: BigNumberish,
+    couponCode = '',
+    referrerId: BigNumberish = 0,
+    authorization: PlatformAuthorization = NO_AUTHORIZATION,
+  ): Promise<BigNumber> {
+    const profileId = await this.getProfileId();
+    const { token, totalPrice } = await this.getPriceQuote(courseId, buyPlatformId, couponCode);
+    const value = await this.approvePayment(token, totalPrice);
+
+    const tx = await this.knowledgeLayerEscrow.createGiftTransaction(
+      profileId,
+      beneficiaryId,
+      courseId,
+      buyPlatformId,
+      referrerId,
+      couponCode,
+      authorization.deadline,
+      authorization.signature,
+      { value },
+    );
+    const receipt = await tx.wait();
+
+    return getEventArg(receipt, 'TransactionCreated', 'id');
+  }
+
+  /**
+   * Buys a course paid in an ERC20 token supporting EIP-2612 for the profile of the signer, approving the escrow
+   * with a permit signed in the same flow instead of a separate approval transaction.
+   * @param permitDeadline Timestamp after which the permit expires
+   * @returns The id of the escrow transaction
+   */
+  async buyCourseWithPermit(
+    courseId: BigNumberish,
+    buyPlatformId: BigNumberish,
+    permitDeadline: BigNumberish,
+    couponCode = '',
+    referrerId: BigNumberish = 0,
+    authorization: PlatformAuthorization = NO_AUTHORIZATION,
+  ): Promise<BigNumber> {
+    const profileId = await this.getProfileId();
+    const { token, totalPrice } = await this.getPriceQuote(courseId, buyPlatformId, couponCode);
+    const signer = this.getSigner() as Signer & TypedDataSigner;
+    const permit = await signPermit(signer, ERC20Permit__factory.connect(token, signer), {
+      spender: this.knowledgeLayerEscrow.address,
+      value: totalPrice,
+      deadline: permitDeadline,
+    });
+
+    const tx = await this.knowledgeLayerEscrow.createTransactionWithPermit(
+      profileId,
+      courseId,
+      buyPlatformId,
+      referrerId,
+      couponCode,
+      authorization.deadline,
+      authorization.signature,
+      permit,
+    );
+    const receipt = await tx.wait();
+
+    return getEventArg(receipt, 'TransactionCreated', 'id');
+  }
+
+  /**
+   * Updates the status of a course owned by the profile of the signer. Only published courses can be bought.
+   */
+  async updateCourseStatus(courseId: BigNumberish, status: CourseStatus): Promise<ContractReceipt> {
+    const profileId = await this.getProfileId();
+    const tx = await this.knowledgeLayerCourse.updateCourseStatus(profileId, courseId, status);
+    return tx.wait();
+  }
+
+  /**
+   * Sets the co-teachers of a course owned by the profile of the signer, with their share of the revenue
+   * in % (per ten thousands). The owner of the course receives the rest of the revenue.
+   */
+  async updateCollaborators(
+    courseId: BigNumberish,
+    collaborators: Collaborator[],
+  ): Promise<ContractReceipt> {
+    const profileId = await this.getProfileId();
+    const tx = await this.knowledgeLayerCourse.updateCollaborators(
+      profileId,
+      courseId,
+      collaborators,
+    );
+    return tx.wait();
+  }
+
+  /**
+   * Updates the fee paid to referrers of a course owned by the profile of the signer,
+   * in % (per ten thousands) of the course revenue.
+   */
+  async updateReferralFee(
+    courseId: BigNumberish,
+    referralFee: BigNumberish,
+  ): Promise<ContractReceipt> {
+    const profileId = await this.getProfileId();
+    const tx = await this.knowledgeLayerCourse.updateReferralFee(profileId, courseId, referralFee);
+    return tx.wait();
+  }
+
+  /**
+   * Creates a bundle of courses owned by the profile of the signer.
+   * @returns The id of the created bundle
+   */
+  async createBundle(
+    platformId: BigNumberish,
+    courseIds: BigNumberish[],
+    price: BigNumberish,
+    dataUri: string,
+    token: string = ETH_ADDRESS,
+    authorization: PlatformAuthorization = NO_AUTHORIZATION,
+  ): Promise<BigNumber> {
+    const profileId = await this.getProfileId();
+    const tx = await this.knowledgeLayerCourse.createBundle(
+      profileId,
+      platformId,
+      courseIds,
+      price,
+      token,
+      dataUri,
+      authorization.deadline,
+      authorization.signature,
+    );
+    const receipt = await tx.wait();
+
+    return getEventArg(receipt, 'BundleCreated', 'bundleId');
+  }
+
+  /**
+   * Buys a bundle for the profile of the signer, paying the total price including fees.
+   * For ERC20 bundles, the escrow is approved to spend the total price first.
+   * @returns The id of the escrow transaction
+   */
+  async buyBundle(
+    bundleId: BigNumberish,
+    buyPlatformId: BigNumberish,
+    authorization: PlatformAuthorization = NO_AUTHORIZATION,
+  ): Promise<BigNumber> {
+    const profileId = await this.getProfileId();
+    const { token, totalPrice } = await this.getBundlePriceQuote(bundleId, buyPlatformId);
+    const value = await this.approvePayment(token, totalPrice);
+
+    const tx = await this.knowledgeLayerEscrow.createBundleTransaction(
+      profileId,
+      bundleId,
+      buyPlatformId,
+      authorization.deadline,
+      authorization.signature,
+      { value },
+    );
+    const receipt = await tx.wait();
+
+    return getEventArg(receipt, 'TransactionCreated', 'id');
+  }
+
+  /**
+   * Releases the payment of a transaction to the balance of the teacher, as the teacher.
+   */
+  async release(transactionId: BigNumberish): Promise<ContractReceipt> {
+    const profileId = await this.getProfileId();
+    const tx = await this.knowledgeLayerEscrow.release(profileId, transactionId);
+    return tx.wait();
+  }
+
+  /**
+   * Releases the payments of several transactions to the balance of the teacher at once, as the teacher.
+   */
+  async releaseMany(transactionIds: BigNumberish[]): Promise<ContractReceipt> {
+    const profileId = await this.getProfileId();
+    const tx = await this.knowledgeLayerEscrow.releaseMany(profileId, transactionIds);
+    return tx.wait();
+  }
+
+  /**
+   * Withdraws the balance of the profile of the signer accumulated from released payments, for a token.
+   */
+  async withdraw(token: string = ETH_ADDRESS): Promise<ContractReceipt> {
+    const profileId = await this.getProfileId();
+    const tx = await this.knowledgeLayerEscrow.withdraw(profileId, token);
+    return tx.wait();
+  }
+
+  /**
+   * Reviews a course bought by the profile of the signer.
+   * @returns The id of the review
+   */
+  async review(courseId: BigNumberish, dataUri: string, rating: BigNumberish): Promise<BigNumber> {
+    const profileId = await this.getProfileId();
+    const tx = await this.knowledgeLayerReview.mint(profileId, courseId, dataUri, rating);
+    const receipt = await tx.wait();
+
+    return getEventArg(receipt, 'Mint', 'id');
+  }
+
+  /**
+   * Creates a coupon giving a discount on the courses of the profile of the signer.
+   * Only the hash of the code is stored on-chain.
+   * @param courseId Id of the course the coupon can be used for, 0 for all the courses of the teacher
+   * @param discount Discount in % (per ten thousands) or in amount of the course token
+   * @param expiry Timestamp after which the coupon can't be redeemed
+   */
+  async createCoupon(
+    code: string,
+    courseId: BigNumberish,
+    discountType: DiscountType,
+    discount: BigNumberish,
+    maxUses: BigNumberish,
+    expiry: BigNumberish,
+  ): Promise<ContractReceipt> {
+    const profileId = await this.getProfileId();
+    const tx = await this.knowledgeLayerCourse.createCoupon(
+      profileId,
+      getCouponCodeHash(code),
+      courseId,
+      discountType,
+      discount,
+      maxUses,
+      expiry,
+    );
+    return tx.wait();
+  }
+
+  // =========================== Platform functions ==============================
+
+  /**
+   * Claims the fees accumulated by a platform in the escrow for a token.
+   */
+  async claim(platformId: BigNumberish, token: string = ETH_ADDRESS): Promise<ContractReceipt> {
+    const tx = await this.knowledgeLayerEscrow.claim(platformId, token);
+    return tx.wait();
+  }
+
+  /**
+   * Claims the fees accumulated by a platform in the escrow for several tokens at once.
+   */
+  async claimMany(platformId: BigNumberish, tokens: string[]): Promise<ContractReceipt> {
+    const tx = await this.knowledgeLayerEscrow.claimMany(platformId, tokens);
+    return tx.wait();
+  }
+
+  /**
+   * Claims the posting fees accumulated by a platform.
+   */
+  async claimPostingFees(platformId: BigNumberish): Promise<ContractReceipt> {
+    const tx = await this.knowledgeLayerCourse.claim(platformId);
+    return tx.wait();
+  }
+
+  /**
+   * Allows or disallows a token to price the courses of a platform.
+   * The platform allows all the tokens of the protocol as long as no token is allowed.
+   */
+  async updateAllowedToken(
+    platformId: BigNumberish,
+    token: string,
+    isAllowed: boolean,
+  ): Promise<ContractReceipt> {
+    const tx = await this.knowledgeLayerPlatformID.updateAllowedToken(platformId, token, isAllowed);
+    return tx.wait();
+  }
+
+  // =========================== Private functions ==============================
+
+  /**
+   * Approves the escrow to spend the price of a purchase paid with an ERC20 token.
+   * @returns The amount of ETH to send with the purchase
+   */
+  private async approvePayment(token: string, totalPrice: BigNumber): Promise<BigNumber> {
+    if (token === ETH_ADDRESS) return totalPrice;
+
+    const erc20 = IERC20__factory.connect(token, this.getSigner());
+    const approveTx = await erc20.approve(this.knowledgeLayerEscrow.address, totalPrice);
+    await approveTx.wait();
+
+    return BigNumber.from(0);
+  }
+
+  private getSigner(): Signer {
+    if (!Signer.isSigner(this.signerOrProvider)) {
+      throw new Error('A signer is required for this operation');
+    }
+    return this.signerOrProvider;
+  }
+}
+
+const getEventArg = (receipt: ContractReceipt, event: string, arg: string): BigNumber => {
+  const value = receipt.events?.find((e) => e.event === event)?.args?.[arg];
+  if (value === undefined) throw new Error(`Event ${event} not found`);
+  return value;
+};
@@ -0,0 +1,23 @@
+export { KnowledgeLayerClient } from './KnowledgeLayerClient';
+export type {
+  Collaborator,
+  KnowledgeLayerAddresses,
+  PlatformAuthorization,
+  PriceQuote,
+  Transaction,
+  TransactionIdsPage,
+} from './KnowledgeLayerClient';
+export {
+  signCreateBundle,
+  signCreateBundleTransaction,
+  signCreateCourse,
+  signCreateGiftTransaction,
+  signCreateTransaction,
+  signPermit,
+  signUpdateBundle,
+  signUpdateCourse,
+} from '../utils/signature';
+export { getCouponCodeHash } from '../utils/coupon';
+export { relayMetaTransaction, signMetaTransaction } from '../utils/metaTransaction';
+export type { ForwardRequest, SignedMetaTransaction } from '../utils/metaTransaction';
+export { CourseStatus, DiscountType, TransactionStatus } from '../utils/constants';
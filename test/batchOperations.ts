@@ -0,0 +1,206 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+  SimpleERC20,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import {
+  CourseStatus,
+  ETH_ADDRESS,
+  FEE_DIVIDER,
+  MintStatus,
+  PaymentType,
+} from '../utils/constants';
+
+describe('Batch release and claim', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    dave: SignerWithAddress,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow,
+    simpleERC20: SimpleERC20;
+
+  const aliceId = 1;
+  const bobId = 2;
+  const daveId = 3;
+  const platformId = 1;
+  const courseId = 1;
+  const tokenCourseId = 2;
+  const daveCourseId = 3;
+  const originFee = 500;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+  const originFeeAmount = coursePrice.mul(originFee).div(FEE_DIVIDER);
+
+  const buyCourse = async (id: number): Promise<number> => {
+    const { token, totalPrice } = await knowledgeLayerEscrow.getPriceQuote(id, platformId, '');
+    if (token !== ETH_ADDRESS) {
+      await simpleERC20.connect(bob).approve(knowledgeLayerEscrow.address, totalPrice);
+    }
+
+    const tx = await knowledgeLayerEscrow
+      .connect(bob)
+      .createTransaction(bobId, id, platformId, 0, '', 0, '0x', {
+        value: token === ETH_ADDRESS ? totalPrice : 0,
+      });
+    const receipt = await tx.wait();
+
+    return receipt.events?.find((e) => e.event === 'TransactionCreated')?.args?.id;
+  };
+
+  before(async () => {
+    [deployer, alice, bob, carol, dave] = await ethers.getSigners();
+    [knowledgeLayerID, knowledgeLayerPlatformID, knowledgeLayerCourse, knowledgeLayerEscrow] =
+      await deploy();
+
+    // Deploy SimpleERC20 and send tokens to bob
+    const SimpleERC20 = await ethers.getContractFactory('SimpleERC20');
+    simpleERC20 = await SimpleERC20.deploy();
+    await simpleERC20.deployed();
+    await knowledgeLayerCourse.connect(deployer).updateAllowedToken(simpleERC20.address, true);
+    await simpleERC20.transfer(bob.address, ethers.utils.parseEther('1'));
+
+    // Add carol to whitelist and mint platform ID
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+    await knowledgeLayerPlatformID.connect(carol).updateOriginFee(platformId, originFee);
+
+    // Mint KnowledgeLayer IDs
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(platformId, 'alice');
+    await knowledgeLayerID.connect(bob).mint(platformId, 'bob__');
+    await knowledgeLayerID.connect(dave).mint(platformId, 'dave_');
+
+    // Alice creates a course paid in ETH and a course paid in ERC20, Dave creates a course
+    for (const [signer, profileId, token] of [
+      [alice, aliceId, ETH_ADDRESS],
+      [alice, aliceId, simpleERC20.address],
+      [dave, daveId, ETH_ADDRESS],
+    ] as const) {
+      await knowledgeLayerCourse
+        .connect(signer)
+        .createCourse(
+          profileId,
+          platformId,
+          coursePrice,
+          token,
+          courseDataUri,
+          0,
+          CourseStatus.Published,
+          0,
+          '0x',
+        );
+    }
+  });
+
+  describe('Release many', async () => {
+    let transactionIds: number[];
+    let daveTransactionId: number;
+
+    before(async () => {
+      transactionIds = [
+        await buyCourse(courseId),
+        await buyCourse(courseId),
+        await buyCourse(tokenCourseId),
+      ];
+      daveTransactionId = await buyCourse(daveCourseId);
+    });
+
+    it("Can't release transactions of another seller", async () => {
+      await expect(
+        knowledgeLayerEscrow
+          .connect(alice)
+          .releaseMany(aliceId, [...transactionIds, daveTransactionId]),
+      ).to.be.revertedWith('Not the receiver');
+    });
+
+    it("Can't release invalid transactions", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(alice).releaseMany(aliceId, [...transactionIds, 10]),
+      ).to.be.revertedWith('Invalid transaction id');
+    });
+
+    it("Can't release on behalf of another profile", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(dave).releaseMany(aliceId, transactionIds),
+      ).to.be.revertedWith('Not owner or delegate');
+    });
+
+    it('Seller can release several transactions at once', async () => {
+      const tx = knowledgeLayerEscrow.connect(alice).releaseMany(aliceId, transactionIds);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'TransactionsReleased')
+        .withArgs(aliceId, transactionIds);
+      for (const transactionId of transactionIds) {
+        await expect(tx)
+          .to.emit(knowledgeLayerEscrow, 'Payment')
+          .withArgs(transactionId, PaymentType.Release);
+      }
+
+      expect(await knowledgeLayerEscrow.profileBalance(aliceId, ETH_ADDRESS)).to.equal(
+        coursePrice.mul(2),
+      );
+      expect(await knowledgeLayerEscrow.profileBalance(aliceId, simpleERC20.address)).to.equal(
+        coursePrice,
+      );
+    });
+
+    it("Can't release a transaction twice", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(alice).releaseMany(aliceId, [transactionIds[0]]),
+      ).to.be.revertedWith('Transaction already settled');
+    });
+  });
+
+  describe('Claim many', async () => {
+    it("Can't claim the balances of an invalid platform", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(carol).claimMany(10, [ETH_ADDRESS, simpleERC20.address]),
+      ).to.be.reverted;
+    });
+
+    it("Can't claim without balances", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(carol).claimMany(platformId, [carol.address]),
+      ).to.be.revertedWith('Nothing to claim');
+    });
+
+    it('Platform can claim its balances for several tokens at once', async () => {
+      const tokens = [ETH_ADDRESS, simpleERC20.address, carol.address];
+      const amounts = [originFeeAmount.mul(2), originFeeAmount, 0];
+
+      const tx = knowledgeLayerEscrow.connect(carol).claimMany(platformId, tokens);
+      await expect(tx).to.changeEtherBalance(carol, amounts[0], { includeFee: false });
+      await expect(tx).to.changeTokenBalance(simpleERC20, carol, amounts[1]);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'FeesClaimed')
+        .withArgs(platformId, tokens, amounts);
+
+      expect(await knowledgeLayerEscrow.platformBalance(platformId, ETH_ADDRESS)).to.equal(0);
+      expect(await knowledgeLayerEscrow.platformBalance(platformId, simpleERC20.address)).to.equal(
+        0,
+      );
+    });
+
+    it('Owner can claim the protocol balances for several tokens at once', async () => {
+      const protocolFee = await knowledgeLayerEscrow.protocolFee();
+      const protocolFeeAmount = coursePrice.mul(protocolFee).div(FEE_DIVIDER);
+      const treasury = await knowledgeLayerEscrow.protocolTreasuryAddress();
+
+      const tx = knowledgeLayerEscrow
+        .connect(deployer)
+        .claimMany(0, [ETH_ADDRESS, simpleERC20.address]);
+      await expect(tx).to.changeEtherBalance(treasury, protocolFeeAmount.mul(2));
+      await expect(tx).to.changeTokenBalance(simpleERC20, treasury, protocolFeeAmount);
+    });
+  });
+});
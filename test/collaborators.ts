@@ -0,0 +1,233 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+  SimpleERC20,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import { CourseStatus, ETH_ADDRESS, FEE_DIVIDER, MintStatus } from '../utils/constants';
+
+describe('Course collaborators', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    dave: SignerWithAddress,
+    eve: SignerWithAddress,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow,
+    simpleERC20: SimpleERC20;
+
+  const aliceId = 1;
+  const bobId = 2;
+  const daveId = 3;
+  const eveId = 4;
+  const platformId = 1;
+  const courseId = 1;
+  const tokenCourseId = 2;
+  const daveShare = 3000;
+  const eveShare = 1500;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+
+  const collaborators = [
+    { profileId: daveId, share: daveShare },
+    { profileId: eveId, share: eveShare },
+  ];
+
+  const buyCourse = async (id: number): Promise<number> => {
+    const { token, totalPrice } = await knowledgeLayerEscrow.getPriceQuote(id, platformId, '');
+    if (token !== ETH_ADDRESS) {
+      await simpleERC20.connect(bob).approve(knowledgeLayerEscrow.address, totalPrice);
+    }
+
+    const tx = await knowledgeLayerEscrow
+      .connect(bob)
+      .createTransaction(bobId, id, platformId, 0, '', 0, '0x', {
+        value: token === ETH_ADDRESS ? totalPrice : 0,
+      });
+    const receipt = await tx.wait();
+
+    return receipt.events?.find((e) => e.event === 'TransactionCreated')?.args?.id;
+  };
+
+  before(async () => {
+    [deployer, alice, bob, carol, dave, eve] = await ethers.getSigners();
+    [knowledgeLayerID, knowledgeLayerPlatformID, knowledgeLayerCourse, knowledgeLayerEscrow] =
+      await deploy();
+
+    // Deploy SimpleERC20 and send tokens to bob
+    const SimpleERC20 = await ethers.getContractFactory('SimpleERC20');
+    simpleERC20 = await SimpleERC20.deploy();
+    await simpleERC20.deployed();
+    await knowledgeLayerCourse.connect(deployer).updateAllowedToken(simpleERC20.address, true);
+    await simpleERC20.transfer(bob.address, ethers.utils.parseEther('1'));
+
+    // Add carol to whitelist and mint platform ID
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+
+    // Mint KnowledgeLayer IDs
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(platformId, 'alice');
+    await knowledgeLayerID.connect(bob).mint(platformId, 'bob__');
+    await knowledgeLayerID.connect(dave).mint(platformId, 'dave_');
+    await knowledgeLayerID.connect(eve).mint(platformId, 'eve__');
+
+    // Alice creates a course paid in ETH and a course paid in ERC20
+    await knowledgeLayerCourse
+      .connect(alice)
+      .createCourse(
+        aliceId,
+        platformId,
+        coursePrice,
+        ETH_ADDRESS,
+        courseDataUri,
+        0,
+        CourseStatus.Published,
+        0,
+        '0x',
+      );
+    await knowledgeLayerCourse
+      .connect(alice)
+      .createCourse(
+        aliceId,
+        platformId,
+        coursePrice,
+        simpleERC20.address,
+        courseDataUri,
+        0,
+        CourseStatus.Published,
+        0,
+        '0x',
+      );
+  });
+
+  describe('Update collaborators', async () => {
+    it("Can't update the collaborators of a course of another teacher", async () => {
+      await expect(
+        knowledgeLayerCourse.connect(dave).updateCollaborators(daveId, courseId, collaborators),
+      ).to.be.revertedWith('Not the owner');
+      await expect(
+        knowledgeLayerCourse.connect(dave).updateCollaborators(aliceId, courseId, collaborators),
+      ).to.be.revertedWith('Not owner or delegate');
+    });
+
+    it("Can't set invalid collaborators", async () => {
+      await expect(
+        knowledgeLayerCourse
+          .connect(alice)
+          .updateCollaborators(aliceId, courseId, [{ profileId: aliceId, share: 1000 }]),
+      ).to.be.revertedWith("Owner can't be a collaborator");
+      await expect(
+        knowledgeLayerCourse
+          .connect(alice)
+          .updateCollaborators(aliceId, courseId, [{ profileId: daveId, share: 0 }]),
+      ).to.be.revertedWith('Invalid share');
+      await expect(
+        knowledgeLayerCourse
+          .connect(alice)
+          .updateCollaborators(aliceId, courseId, [{ profileId: 10, share: 1000 }]),
+      ).to.be.reverted;
+      await expect(
+        knowledgeLayerCourse.connect(alice).updateCollaborators(aliceId, courseId, [
+          { profileId: daveId, share: 6000 },
+          { profileId: eveId, share: FEE_DIVIDER - 5999 },
+        ]),
+      ).to.be.revertedWith('Invalid shares');
+      await expect(
+        knowledgeLayerCourse
+          .connect(alice)
+          .updateCollaborators(
+            aliceId,
+            courseId,
+            Array(11).fill({ profileId: daveId, share: 100 }),
+          ),
+      ).to.be.revertedWith('Too many collaborators');
+    });
+
+    it('Teacher can set the collaborators of a course', async () => {
+      for (const id of [courseId, tokenCourseId]) {
+        const tx = knowledgeLayerCourse
+          .connect(alice)
+          .updateCollaborators(aliceId, id, collaborators);
+        await expect(tx).to.emit(knowledgeLayerCourse, 'CollaboratorsUpdated');
+      }
+
+      const courseCollaborators = await knowledgeLayerCourse.getCollaborators(courseId);
+      expect(courseCollaborators.length).to.equal(2);
+      expect(courseCollaborators[0].profileId).to.equal(daveId);
+      expect(courseCollaborators[0].share).to.equal(daveShare);
+      expect(courseCollaborators[1].profileId).to.equal(eveId);
+      expect(courseCollaborators[1].share).to.equal(eveShare);
+    });
+
+    it("Can't get the collaborators of an invalid course", async () => {
+      await expect(knowledgeLayerCourse.getCollaborators(10)).to.be.revertedWith(
+        'Invalid course ID',
+      );
+    });
+  });
+
+  describe('Release', async () => {
+    it('Collaborators are credited their share of the price on release', async () => {
+      const transactionId = await buyCourse(courseId);
+      const daveAmount = coursePrice.mul(daveShare).div(FEE_DIVIDER);
+      const eveAmount = coursePrice.mul(eveShare).div(FEE_DIVIDER);
+
+      const tx = knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'BalanceCredited')
+        .withArgs(aliceId, ETH_ADDRESS, coursePrice.sub(daveAmount).sub(eveAmount));
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'CollaboratorShareReleased')
+        .withArgs(transactionId, daveId, ETH_ADDRESS, daveAmount);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'CollaboratorShareReleased')
+        .withArgs(transactionId, eveId, ETH_ADDRESS, eveAmount);
+    });
+
+    it('Collaborators are credited their share of an ERC20 course', async () => {
+      const transactionId = await buyCourse(tokenCourseId);
+      const daveAmount = coursePrice.mul(daveShare).div(FEE_DIVIDER);
+      const eveAmount = coursePrice.mul(eveShare).div(FEE_DIVIDER);
+
+      await knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId);
+
+      const token = simpleERC20.address;
+      expect(await knowledgeLayerEscrow.profileBalance(aliceId, token)).to.equal(
+        coursePrice.sub(daveAmount).sub(eveAmount),
+      );
+      expect(await knowledgeLayerEscrow.profileBalance(daveId, token)).to.equal(daveAmount);
+      expect(await knowledgeLayerEscrow.profileBalance(eveId, token)).to.equal(eveAmount);
+    });
+
+    it('Collaborators can withdraw their share', async () => {
+      const daveAmount = coursePrice.mul(daveShare).div(FEE_DIVIDER);
+      const tx = knowledgeLayerEscrow.connect(dave).withdraw(daveId, simpleERC20.address);
+      await expect(tx).to.changeTokenBalances(
+        simpleERC20,
+        [knowledgeLayerEscrow, dave],
+        [daveAmount.mul(-1), daveAmount],
+      );
+    });
+
+    it('Teacher is credited the whole price when collaborators are removed', async () => {
+      await knowledgeLayerCourse.connect(alice).updateCollaborators(aliceId, courseId, []);
+      expect((await knowledgeLayerCourse.getCollaborators(courseId)).length).to.equal(0);
+
+      const transactionId = await buyCourse(courseId);
+      const tx = knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'BalanceCredited')
+        .withArgs(aliceId, ETH_ADDRESS, coursePrice);
+      await expect(tx).to.not.emit(knowledgeLayerEscrow, 'CollaboratorShareReleased');
+    });
+  });
+});
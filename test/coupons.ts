@@ -0,0 +1,403 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import {
+  CourseStatus,
+  DiscountType,
+  ETH_ADDRESS,
+  FEE_DIVIDER,
+  MintStatus,
+} from '../utils/constants';
+import { getCouponCodeHash } from '../utils/coupon';
+
+describe('Coupons', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    dave: SignerWithAddress,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow,
+    expiry: number;
+
+  const aliceId = 1;
+  const bobId = 2;
+  const daveId = 3;
+  const platformId = 1;
+  const courseId = 1;
+  const otherCourseId = 2;
+  const daveCourseId = 3;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+  const percentageCode = 'SUMMER25';
+  const fixedCode = 'WELCOME';
+  const courseCode = 'COURSE1';
+  const percentageDiscount = 2500;
+  const fixedDiscount = ethers.utils.parseEther('0.004');
+
+  const buyCourse = async (
+    profileId: number,
+    id: number,
+    couponCode: string,
+    buyer: SignerWithAddress = bob,
+  ) => {
+    const { totalPrice } = await knowledgeLayerEscrow.getPriceQuote(id, platformId, couponCode);
+    return knowledgeLayerEscrow
+      .connect(buyer)
+      .createTransaction(profileId, id, platformId, 0, couponCode, 0, '0x', { value: totalPrice });
+  };
+
+  before(async () => {
+    [deployer, alice, bob, carol, dave] = await ethers.getSigners();
+    [knowledgeLayerID, knowledgeLayerPlatformID, knowledgeLayerCourse, knowledgeLayerEscrow] =
+      await deploy();
+
+    // Add carol to whitelist and mint platform ID
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+
+    // Mint KnowledgeLayer IDs
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(platformId, 'alice');
+    await knowledgeLayerID.connect(bob).mint(platformId, 'bob__');
+    await knowledgeLayerID.connect(dave).mint(platformId, 'dave_');
+
+    // Alice creates two courses and Dave creates one
+    for (const [signer, profileId] of [
+      [alice, aliceId],
+      [alice, aliceId],
+      [dave, daveId],
+    ] as const) {
+      await knowledgeLayerCourse
+        .connect(signer)
+        .createCourse(
+          profileId,
+          platformId,
+          coursePrice,
+          ETH_ADDRESS,
+          courseDataUri,
+          0,
+          CourseStatus.Published,
+          0,
+          '0x',
+        );
+    }
+
+    expiry = (await time.latest()) + 7 * 24 * 60 * 60;
+  });
+
+  describe('Create coupon', async () => {
+    it('Teacher can create a percentage coupon for all their courses', async () => {
+      const tx = knowledgeLayerCourse
+        .connect(alice)
+        .createCoupon(
+          aliceId,
+          getCouponCodeHash(percentageCode),
+          0,
+          DiscountType.Percentage,
+          percentageDiscount,
+          2,
+          expiry,
+        );
+      await expect(tx)
+        .to.emit(knowledgeLayerCourse, 'CouponCreated')
+        .withArgs(
+          aliceId,
+          getCouponCodeHash(percentageCode),
+          0,
+          DiscountType.Percentage,
+          percentageDiscount,
+          2,
+          expiry,
+        );
+
+      const coupon = await knowledgeLayerCourse.coupons(aliceId, getCouponCodeHash(percentageCode));
+      expect(coupon.discountType).to.equal(DiscountType.Percentage);
+      expect(coupon.discount).to.equal(percentageDiscount);
+      expect(coupon.maxUses).to.equal(2);
+      expect(coupon.uses).to.equal(0);
+    });
+
+    it('Teacher can create a fixed coupon and a coupon for a single course', async () => {
+      await knowledgeLayerCourse
+        .connect(alice)
+        .createCoupon(
+          aliceId,
+          getCouponCodeHash(fixedCode),
+          0,
+          DiscountType.Fixed,
+          fixedDiscount,
+          10,
+          expiry,
+        );
+      await knowledgeLayerCourse
+        .connect(alice)
+        .createCoupon(
+          aliceId,
+          getCouponCodeHash(courseCode),
+          courseId,
+          DiscountType.Fixed,
+          coursePrice.mul(2),
+          10,
+          expiry,
+        );
+    });
+
+    it("Can't create a coupon for another profile", async () => {
+      const tx = knowledgeLayerCourse
+        .connect(bob)
+        .createCoupon(aliceId, getCouponCodeHash('BOB'), 0, DiscountType.Fixed, 1, 1, expiry);
+      await expect(tx).to.be.revertedWith('Not owner or delegate');
+    });
+
+    it("Can't create a coupon for a course of another teacher", async () => {
+      const tx = knowledgeLayerCourse
+        .connect(alice)
+        .createCoupon(
+          aliceId,
+          getCouponCodeHash('DAVE'),
+          daveCourseId,
+          DiscountType.Fixed,
+          1,
+          1,
+          expiry,
+        );
+      await expect(tx).to.be.revertedWith('Not the owner');
+    });
+
+    it("Can't create a coupon with invalid parameters", async () => {
+      const codeHash = getCouponCodeHash('INVALID');
+
+      await expect(
+        knowledgeLayerCourse
+          .connect(alice)
+          .createCoupon(aliceId, codeHash, 0, DiscountType.Percentage, FEE_DIVIDER + 1, 1, expiry),
+      ).to.be.revertedWith('Invalid discount');
+      await expect(
+        knowledgeLayerCourse
+          .connect(alice)
+          .createCoupon(aliceId, codeHash, 0, DiscountType.Fixed, 1, 0, expiry),
+      ).to.be.revertedWith('Invalid max uses');
+      await expect(
+        knowledgeLayerCourse
+          .connect(alice)
+          .createCoupon(aliceId, codeHash, 0, DiscountType.Fixed, 1, 1, await time.latest()),
+      ).to.be.revertedWith('Invalid expiry');
+    });
+
+    it("Can't create a coupon with an existing code", async () => {
+      const tx = knowledgeLayerCourse
+        .connect(alice)
+        .createCoupon(aliceId, getCouponCodeHash(fixedCode), 0, DiscountType.Fixed, 1, 1, expiry);
+      await expect(tx).to.be.revertedWith('Coupon already exists');
+    });
+
+    it('Other teachers can use the same code', async () => {
+      await knowledgeLayerCourse
+        .connect(dave)
+        .createCoupon(daveId, getCouponCodeHash(fixedCode), 0, DiscountType.Fixed, 1, 1, expiry);
+    });
+  });
+
+  describe('Price quote', async () => {
+    it('Percentage discount is applied on the price before fees', async () => {
+      const quote = await knowledgeLayerEscrow.getPriceQuote(courseId, platformId, percentageCode);
+      const price = coursePrice.sub(coursePrice.mul(percentageDiscount).div(FEE_DIVIDER));
+      const fees = quote.protocolFee.add(quote.originFee).add(quote.buyFee);
+
+      expect(quote.price).to.equal(price);
+      expect(quote.totalPrice).to.equal(price.add(fees));
+    });
+
+    it('Fixed discount is applied on the price before fees', async () => {
+      const quote = await knowledgeLayerEscrow.getPriceQuote(otherCourseId, platformId, fixedCode);
+      expect(quote.price).to.equal(coursePrice.sub(fixedDiscount));
+    });
+
+    it("Fixed discount can't make the price negative", async () => {
+      const quote = await knowledgeLayerEscrow.getPriceQuote(courseId, platformId, courseCode);
+      expect(quote.price).to.equal(0);
+      expect(quote.totalPrice).to.equal(0);
+    });
+
+    it('Price is not discounted without a coupon', async () => {
+      const quote = await knowledgeLayerEscrow.getPriceQuote(courseId, platformId, '');
+      expect(quote.price).to.equal(coursePrice);
+    });
+
+    it("Can't get a quote with an unknown coupon", async () => {
+      await expect(
+        knowledgeLayerEscrow.getPriceQuote(courseId, platformId, 'UNKNOWN'),
+      ).to.be.revertedWith('Invalid coupon');
+    });
+
+    it("Can't use a coupon on the course of another teacher", async () => {
+      await expect(
+        knowledgeLayerEscrow.getPriceQuote(daveCourseId, platformId, percentageCode),
+      ).to.be.revertedWith('Invalid coupon');
+    });
+
+    it("Can't use a course coupon on another course", async () => {
+      await expect(
+        knowledgeLayerEscrow.getPriceQuote(otherCourseId, platformId, courseCode),
+      ).to.be.revertedWith('Coupon not valid for this course');
+    });
+  });
+
+  describe('Redeem coupon', async () => {
+    it('Buyer pays the discounted price and the coupon use is recorded', async () => {
+      const price = coursePrice.sub(coursePrice.mul(percentageDiscount).div(FEE_DIVIDER));
+      const { totalPrice } = await knowledgeLayerEscrow.getPriceQuote(
+        courseId,
+        platformId,
+        percentageCode,
+      );
+
+      const tx = await buyCourse(bobId, courseId, percentageCode);
+      await expect(tx).to.changeEtherBalances(
+        [bob, knowledgeLayerEscrow],
+        [totalPrice.mul(-1), totalPrice],
+      );
+      await expect(tx)
+        .to.emit(knowledgeLayerCourse, 'CouponRedeemed')
+        .withArgs(aliceId, getCouponCodeHash(percentageCode), courseId, bobId);
+
+      const receipt = await tx.wait();
+      const transactionId: BigNumber = receipt.events?.find((e) => e.event === 'TransactionCreated')
+        ?.args?.id;
+      const transaction = await knowledgeLayerEscrow.connect(bob).getTransaction(transactionId);
+      expect(transaction.amount).to.equal(price);
+
+      const coupon = await knowledgeLayerCourse.coupons(aliceId, getCouponCodeHash(percentageCode));
+      expect(coupon.uses).to.equal(1);
+    });
+
+    it('Teacher is credited the discounted price on release', async () => {
+      const price = coursePrice.sub(coursePrice.mul(percentageDiscount).div(FEE_DIVIDER));
+      const tx = knowledgeLayerEscrow.connect(alice).release(aliceId, 1);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'BalanceCredited')
+        .withArgs(aliceId, ETH_ADDRESS, price);
+    });
+
+    it("Can't pay the full price with a coupon", async () => {
+      const { totalPrice } = await knowledgeLayerEscrow.getPriceQuote(
+        otherCourseId,
+        platformId,
+        '',
+      );
+      const tx = knowledgeLayerEscrow
+        .connect(bob)
+        .createTransaction(bobId, otherCourseId, platformId, 0, percentageCode, 0, '0x', {
+          value: totalPrice,
+        });
+      await expect(tx).to.be.revertedWith('Non-matching funds');
+    });
+
+    it("Can't redeem a coupon more than its max uses", async () => {
+      await buyCourse(bobId, otherCourseId, percentageCode);
+
+      await expect(buyCourse(aliceId, daveCourseId, fixedCode, alice)).to.not.be.reverted;
+      await expect(
+        knowledgeLayerEscrow.getPriceQuote(courseId, platformId, percentageCode),
+      ).to.be.revertedWith('Coupon fully redeemed');
+      await expect(
+        knowledgeLayerEscrow
+          .connect(bob)
+          .createTransaction(bobId, courseId, platformId, 0, percentageCode, 0, '0x', { value: 0 }),
+      ).to.be.revertedWith('Coupon fully redeemed');
+    });
+
+    it("Can't redeem an expired coupon", async () => {
+      await time.increaseTo(expiry + 1);
+
+      await expect(
+        knowledgeLayerEscrow
+          .connect(bob)
+          .createTransaction(bobId, otherCourseId, platformId, 0, fixedCode, 0, '0x', { value: 0 }),
+      ).to.be.revertedWith('Coupon expired');
+    });
+
+    it('Only the escrow can redeem a coupon', async () => {
+      await expect(knowledgeLayerCourse.connect(bob).redeemCoupon(bobId, courseId, fixedCode)).to.be
+        .reverted;
+    });
+  });
+
+  describe('Disable coupon', async () => {
+    const codeHash = getCouponCodeHash('DISABLED');
+
+    before(async () => {
+      await knowledgeLayerCourse
+        .connect(alice)
+        .createCoupon(aliceId, codeHash, 0, DiscountType.Fixed, 1, 5, (await time.latest()) + 1000);
+    });
+
+    it("Can't disable the coupon of another teacher", async () => {
+      await expect(
+        knowledgeLayerCourse.connect(bob).disableCoupon(aliceId, codeHash),
+      ).to.be.revertedWith('Not owner or delegate');
+    });
+
+    it("Can't disable an unknown coupon", async () => {
+      await expect(
+        knowledgeLayerCourse.connect(alice).disableCoupon(aliceId, getCouponCodeHash('UNKNOWN')),
+      ).to.be.revertedWith('Invalid coupon');
+    });
+
+    it('Teacher can disable a coupon', async () => {
+      await expect(knowledgeLayerCourse.connect(alice).disableCoupon(aliceId, codeHash))
+        .to.emit(knowledgeLayerCourse, 'CouponDisabled')
+        .withArgs(aliceId, codeHash);
+
+      await expect(
+        knowledgeLayerEscrow.getPriceQuote(courseId, platformId, 'DISABLED'),
+      ).to.be.revertedWith('Coupon expired');
+    });
+  });
+
+  describe('Reimbursed purchase', async () => {
+    const code = 'ONCE';
+    const codeHash = getCouponCodeHash(code);
+    let transactionId: BigNumber;
+
+    before(async () => {
+      await knowledgeLayerPlatformID.connect(carol).updateRefundWindow(platformId, 1000);
+      await knowledgeLayerCourse
+        .connect(dave)
+        .createCoupon(daveId, codeHash, 0, DiscountType.Fixed, 1, 1, (await time.latest()) + 1000);
+
+      const receipt = await (await buyCourse(bobId, daveCourseId, code)).wait();
+      transactionId = receipt.events?.find((e) => e.event === 'TransactionCreated')?.args?.id;
+      await expect(
+        knowledgeLayerEscrow.getPriceQuote(daveCourseId, platformId, code),
+      ).to.be.revertedWith('Coupon fully redeemed');
+    });
+
+    it('The coupon use is given back when the buyer is reimbursed', async () => {
+      await expect(knowledgeLayerEscrow.connect(bob).reimburse(bobId, transactionId))
+        .to.emit(knowledgeLayerCourse, 'CouponUseRestored')
+        .withArgs(daveId, codeHash, daveCourseId);
+
+      const coupon = await knowledgeLayerCourse.coupons(daveId, codeHash);
+      expect(coupon.uses).to.equal(0);
+      await expect(buyCourse(bobId, daveCourseId, code)).to.not.be.reverted;
+    });
+
+    it('Only the escrow can give back a coupon use', async () => {
+      await expect(knowledgeLayerCourse.connect(dave).restoreCoupon(daveCourseId, codeHash)).to.be
+        .reverted;
+    });
+  });
+});
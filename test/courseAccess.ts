@@ -0,0 +1,168 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import { CourseStatus, ETH_ADDRESS, MintStatus } from '../utils/constants';
+
+describe('Course access', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow;
+
+  const aliceId = 1;
+  const bobId = 2;
+  const platformId = 1;
+  const lifetimeCourseId = 1;
+  const subscriptionCourseId = 2;
+  const accessDuration = 30 * 24 * 60 * 60;
+  const refundWindow = 7 * 24 * 60 * 60;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+
+  const buyCourse = async (courseId: number): Promise<number> => {
+    const { totalPrice } = await knowledgeLayerEscrow.getPriceQuote(courseId, platformId, '');
+    const tx = await knowledgeLayerEscrow
+      .connect(bob)
+      .createTransaction(bobId, courseId, platformId, 0, '', 0, '0x', { value: totalPrice });
+    const receipt = await tx.wait();
+
+    return receipt.events?.find((e) => e.event === 'TransactionCreated')?.args?.id;
+  };
+
+  before(async () => {
+    [deployer, alice, bob, carol] = await ethers.getSigners();
+    [knowledgeLayerID, knowledgeLayerPlatformID, knowledgeLayerCourse, knowledgeLayerEscrow] =
+      await deploy();
+
+    // Add carol to whitelist and mint platform ID
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+    await knowledgeLayerPlatformID.connect(carol).updateRefundWindow(platformId, refundWindow);
+
+    // Mint KnowledgeLayer IDs
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(platformId, 'alice');
+    await knowledgeLayerID.connect(bob).mint(platformId, 'bob__');
+
+    // Alice creates a course with lifetime access and a course with monthly access
+    await knowledgeLayerCourse
+      .connect(alice)
+      .createCourse(
+        aliceId,
+        platformId,
+        coursePrice,
+        ETH_ADDRESS,
+        courseDataUri,
+        0,
+        CourseStatus.Published,
+        0,
+        '0x',
+      );
+    await knowledgeLayerCourse
+      .connect(alice)
+      .createCourse(
+        aliceId,
+        platformId,
+        coursePrice,
+        ETH_ADDRESS,
+        courseDataUri,
+        accessDuration,
+        CourseStatus.Published,
+        0,
+        '0x',
+      );
+  });
+
+  describe('Lifetime access', async () => {
+    it("Buyer doesn't have access before buying the course", async () => {
+      expect(await knowledgeLayerCourse.hasAccess(bobId, lifetimeCourseId)).to.be.false;
+    });
+
+    it('Buyer has access forever after buying the course', async () => {
+      await buyCourse(lifetimeCourseId);
+      expect(await knowledgeLayerCourse.hasAccess(bobId, lifetimeCourseId)).to.be.true;
+      expect(await knowledgeLayerCourse.accessExpiry(lifetimeCourseId, bobId)).to.equal(0);
+
+      await time.increase(10 * accessDuration);
+      expect(await knowledgeLayerCourse.hasAccess(bobId, lifetimeCourseId)).to.be.true;
+    });
+  });
+
+  describe('Time-limited access', async () => {
+    let expiry: BigNumber;
+
+    it('Records the access duration of the course', async () => {
+      const course = await knowledgeLayerCourse.getCourse(subscriptionCourseId);
+      expect(course.accessDuration).to.equal(accessDuration);
+    });
+
+    it('Buyer has access until the end of the access duration', async () => {
+      const transactionId = await buyCourse(subscriptionCourseId);
+      expiry = BigNumber.from(await time.latest()).add(accessDuration);
+
+      expect(await knowledgeLayerCourse.accessExpiry(subscriptionCourseId, bobId)).to.equal(expiry);
+      expect(await knowledgeLayerCourse.hasAccess(bobId, subscriptionCourseId)).to.be.true;
+
+      await time.increase(refundWindow + 1);
+      await knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId);
+    });
+
+    it('Renewing before expiry extends the access from the current expiry', async () => {
+      await time.increase(accessDuration / 2);
+
+      const { totalPrice } = await knowledgeLayerEscrow.getPriceQuote(
+        subscriptionCourseId,
+        platformId,
+        '',
+      );
+      const tx = knowledgeLayerEscrow
+        .connect(bob)
+        .createTransaction(bobId, subscriptionCourseId, platformId, 0, '', 0, '0x', {
+          value: totalPrice,
+        });
+      await expect(tx)
+        .to.emit(knowledgeLayerCourse, 'AccessExpiryUpdated')
+        .withArgs(subscriptionCourseId, bobId, expiry.add(accessDuration));
+
+      expiry = expiry.add(accessDuration);
+    });
+
+    it('Reimbursing a renewal removes the access it gave', async () => {
+      const transactionId = 3;
+      await knowledgeLayerEscrow.connect(bob).reimburse(bobId, transactionId);
+
+      expiry = expiry.sub(accessDuration);
+      expect(await knowledgeLayerCourse.accessExpiry(subscriptionCourseId, bobId)).to.equal(expiry);
+      expect(await knowledgeLayerCourse.hasAccess(bobId, subscriptionCourseId)).to.be.true;
+    });
+
+    it("Buyer doesn't have access once the access has expired", async () => {
+      await time.increaseTo(expiry);
+      expect(await knowledgeLayerCourse.hasAccess(bobId, subscriptionCourseId)).to.be.false;
+    });
+
+    it('Renewing after expiry gives access from the time of the renewal', async () => {
+      await time.increase(accessDuration);
+      await buyCourse(subscriptionCourseId);
+
+      const renewalExpiry = BigNumber.from(await time.latest()).add(accessDuration);
+      expect(await knowledgeLayerCourse.accessExpiry(subscriptionCourseId, bobId)).to.equal(
+        renewalExpiry,
+      );
+      expect(await knowledgeLayerCourse.hasAccess(bobId, subscriptionCourseId)).to.be.true;
+    });
+  });
+});
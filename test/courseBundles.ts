@@ -0,0 +1,391 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { BigNumber, ContractTransaction } from 'ethers';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import {
+  CourseStatus,
+  ETH_ADDRESS,
+  FEE_DIVIDER,
+  MintStatus,
+  PROTOCOL_INDEX,
+} from '../utils/constants';
+
+describe('Course bundles', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    dave: SignerWithAddress,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow,
+    protocolFee: number,
+    bundleTotalPrice: BigNumber;
+
+  const aliceId = 1;
+  const bobId = 2;
+  const carolId = 3;
+  const originPlatformId = 1;
+  const buyPlatformId = 2;
+  const originFee = 200;
+  const buyFee = 300;
+  const refundWindow = 7 * 24 * 60 * 60;
+  const courseIds = [1, 2, 3];
+  const bundleId = 1;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const bundlePrice = ethers.utils.parseEther('0.02');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+  const bundleDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMg';
+
+  before(async () => {
+    [deployer, alice, bob, carol, dave] = await ethers.getSigners();
+    [knowledgeLayerID, knowledgeLayerPlatformID, knowledgeLayerCourse, knowledgeLayerEscrow] =
+      await deploy();
+
+    // Add carol and dave to whitelist and mint platform IDs
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(dave.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+    await knowledgeLayerPlatformID.connect(dave).mint('dave-platform');
+
+    // Update platform fees
+    await knowledgeLayerPlatformID.connect(carol).updateOriginFee(originPlatformId, originFee);
+    await knowledgeLayerPlatformID.connect(dave).updateBuyFee(buyPlatformId, buyFee);
+    await knowledgeLayerPlatformID.connect(dave).updateRefundWindow(buyPlatformId, refundWindow);
+
+    // Mint KnowledgeLayer IDs
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(originPlatformId, 'alice');
+    await knowledgeLayerID.connect(bob).mint(originPlatformId, 'bob__');
+    await knowledgeLayerID.connect(carol).mint(originPlatformId, 'carol');
+
+    // Alice creates three courses and Carol creates one
+    for (let i = 0; i < courseIds.length; i++) {
+      await knowledgeLayerCourse
+        .connect(alice)
+        .createCourse(
+          aliceId,
+          originPlatformId,
+          coursePrice,
+          ETH_ADDRESS,
+          courseDataUri,
+          0,
+          CourseStatus.Published,
+          0,
+          '0x',
+        );
+    }
+    await knowledgeLayerCourse
+      .connect(carol)
+      .createCourse(
+        carolId,
+        originPlatformId,
+        coursePrice,
+        ETH_ADDRESS,
+        courseDataUri,
+        0,
+        CourseStatus.Published,
+        0,
+        '0x',
+      );
+
+    protocolFee = await knowledgeLayerEscrow.protocolFee();
+    bundleTotalPrice = bundlePrice.add(
+      bundlePrice.mul(originFee + buyFee + protocolFee).div(FEE_DIVIDER),
+    );
+  });
+
+  describe('Create bundle', async () => {
+    it("Can't create a bundle with courses of another teacher", async () => {
+      await expect(
+        knowledgeLayerCourse
+          .connect(alice)
+          .createBundle(
+            aliceId,
+            originPlatformId,
+            [1, 4],
+            bundlePrice,
+            ETH_ADDRESS,
+            bundleDataUri,
+            0,
+            '0x',
+          ),
+      ).to.be.revertedWith('Not the owner');
+    });
+
+    it("Can't create a bundle with less than two courses", async () => {
+      await expect(
+        knowledgeLayerCourse
+          .connect(alice)
+          .createBundle(
+            aliceId,
+            originPlatformId,
+            [1],
+            bundlePrice,
+            ETH_ADDRESS,
+            bundleDataUri,
+            0,
+            '0x',
+          ),
+      ).to.be.revertedWith('A bundle needs at least two courses');
+    });
+
+    it("Can't create a bundle with the same course twice", async () => {
+      await expect(
+        knowledgeLayerCourse
+          .connect(alice)
+          .createBundle(
+            aliceId,
+            originPlatformId,
+            [1, 1],
+            bundlePrice,
+            ETH_ADDRESS,
+            bundleDataUri,
+            0,
+            '0x',
+          ),
+      ).to.be.revertedWith('Duplicate course ID');
+    });
+
+    it("Can't create a bundle with a course that doesn't exist", async () => {
+      await expect(
+        knowledgeLayerCourse
+          .connect(alice)
+          .createBundle(
+            aliceId,
+            originPlatformId,
+            [1, 10],
+            bundlePrice,
+            ETH_ADDRESS,
+            bundleDataUri,
+            0,
+            '0x',
+          ),
+      ).to.be.revertedWith('Invalid course ID');
+    });
+
+    it("Can't create a bundle on behalf of another user", async () => {
+      await expect(
+        knowledgeLayerCourse
+          .connect(bob)
+          .createBundle(
+            aliceId,
+            originPlatformId,
+            courseIds,
+            bundlePrice,
+            ETH_ADDRESS,
+            bundleDataUri,
+            0,
+            '0x',
+          ),
+      ).to.be.revertedWith('Not owner or delegate');
+    });
+
+    it('Teacher can create a bundle of its courses', async () => {
+      const tx = knowledgeLayerCourse
+        .connect(alice)
+        .createBundle(
+          aliceId,
+          originPlatformId,
+          courseIds,
+          bundlePrice,
+          ETH_ADDRESS,
+          bundleDataUri,
+          0,
+          '0x',
+        );
+      await expect(tx)
+        .to.emit(knowledgeLayerCourse, 'BundleCreated')
+        .withArgs(
+          bundleId,
+          aliceId,
+          originPlatformId,
+          bundlePrice,
+          ETH_ADDRESS,
+          bundleDataUri,
+          courseIds,
+        );
+
+      const bundle = await knowledgeLayerCourse.getBundle(bundleId);
+      expect(bundle.ownerId).to.equal(aliceId);
+      expect(bundle.platformId).to.equal(originPlatformId);
+      expect(bundle.price).to.equal(bundlePrice);
+      expect(bundle.token).to.equal(ETH_ADDRESS);
+      expect(bundle.dataUri).to.equal(bundleDataUri);
+      expect(bundle.courseIds).to.deep.equal(courseIds.map((id) => BigNumber.from(id)));
+    });
+
+    it("Can't get a bundle that doesn't exist", async () => {
+      await expect(knowledgeLayerCourse.getBundle(10)).to.be.revertedWith('Invalid bundle ID');
+    });
+  });
+
+  describe('Update bundle', async () => {
+    it('Only the bundle owner can update the bundle', async () => {
+      await expect(
+        knowledgeLayerCourse
+          .connect(carol)
+          .updateBundle(carolId, bundleId, 1, ETH_ADDRESS, bundleDataUri, 0, '0x'),
+      ).to.be.revertedWith('Not the owner');
+    });
+
+    it('Owner can update the bundle', async () => {
+      const newPrice = ethers.utils.parseEther('0.025');
+      const tx = knowledgeLayerCourse
+        .connect(alice)
+        .updateBundle(aliceId, bundleId, newPrice, ETH_ADDRESS, bundleDataUri, 0, '0x');
+      await expect(tx)
+        .to.emit(knowledgeLayerCourse, 'BundleUpdated')
+        .withArgs(bundleId, newPrice, ETH_ADDRESS, bundleDataUri);
+      expect((await knowledgeLayerCourse.getBundle(bundleId)).price).to.equal(newPrice);
+
+      // Restore the bundle price
+      await knowledgeLayerCourse
+        .connect(alice)
+        .updateBundle(aliceId, bundleId, bundlePrice, ETH_ADDRESS, bundleDataUri, 0, '0x');
+    });
+  });
+
+  describe('Buy bundle', async () => {
+    let tx: ContractTransaction, transactionId: BigNumber;
+
+    it('Returns the price quote of the bundle', async () => {
+      const quote = await knowledgeLayerEscrow.getBundlePriceQuote(bundleId, buyPlatformId);
+      expect(quote.price).to.equal(bundlePrice);
+      expect(quote.originFee).to.equal(bundlePrice.mul(originFee).div(FEE_DIVIDER));
+      expect(quote.buyFee).to.equal(bundlePrice.mul(buyFee).div(FEE_DIVIDER));
+      expect(quote.totalPrice).to.equal(bundleTotalPrice);
+    });
+
+    it("Can't buy a bundle without paying its total price", async () => {
+      await expect(
+        knowledgeLayerEscrow
+          .connect(bob)
+          .createBundleTransaction(bobId, bundleId, buyPlatformId, 0, '0x', {
+            value: bundleTotalPrice.sub(1),
+          }),
+      ).to.be.revertedWith('Non-matching funds');
+    });
+
+    it('Buyer can buy the bundle in a single transaction', async () => {
+      tx = await knowledgeLayerEscrow
+        .connect(bob)
+        .createBundleTransaction(bobId, bundleId, buyPlatformId, 0, '0x', {
+          value: bundleTotalPrice,
+        });
+      const receipt = await tx.wait();
+      transactionId = receipt.events?.find((e) => e.event === 'TransactionCreated')?.args?.id;
+
+      await expect(tx).to.changeEtherBalances(
+        [bob, knowledgeLayerEscrow],
+        [bundleTotalPrice.mul(-1), bundleTotalPrice],
+      );
+    });
+
+    it('Creates a transaction for the bundle', async () => {
+      const transaction = await knowledgeLayerEscrow.connect(bob).getTransaction(transactionId);
+      expect(transaction.receiver).to.equal(alice.address);
+      expect(transaction.amount).to.equal(bundlePrice);
+      expect(transaction.courseId).to.equal(0);
+      expect(transaction.bundleId).to.equal(bundleId);
+    });
+
+    it('Mints every course of the bundle to the buyer', async () => {
+      for (const courseId of courseIds) {
+        expect(await knowledgeLayerCourse.balanceOf(bob.address, courseId)).to.equal(1);
+        expect(await knowledgeLayerCourse.hasAccess(bobId, courseId)).to.be.true;
+      }
+    });
+
+    it('Releases the bundle price and fees computed on it', async () => {
+      await time.increase(refundWindow + 1);
+      const releaseTx = knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId);
+      await expect(releaseTx)
+        .to.emit(knowledgeLayerEscrow, 'BalanceCredited')
+        .withArgs(aliceId, ETH_ADDRESS, bundlePrice);
+
+      expect(await knowledgeLayerEscrow.platformBalance(originPlatformId, ETH_ADDRESS)).to.equal(
+        bundlePrice.mul(originFee).div(FEE_DIVIDER),
+      );
+      expect(await knowledgeLayerEscrow.platformBalance(buyPlatformId, ETH_ADDRESS)).to.equal(
+        bundlePrice.mul(buyFee).div(FEE_DIVIDER),
+      );
+      expect(await knowledgeLayerEscrow.platformBalance(PROTOCOL_INDEX, ETH_ADDRESS)).to.equal(
+        bundlePrice.mul(protocolFee).div(FEE_DIVIDER),
+      );
+    });
+  });
+
+  describe('Reimburse bundle', async () => {
+    let transactionId: BigNumber;
+
+    before(async () => {
+      const tx = await knowledgeLayerEscrow
+        .connect(bob)
+        .createBundleTransaction(bobId, bundleId, buyPlatformId, 0, '0x', {
+          value: bundleTotalPrice,
+        });
+      const receipt = await tx.wait();
+      transactionId = receipt.events?.find((e) => e.event === 'TransactionCreated')?.args?.id;
+    });
+
+    it('Reimburses the buyer and revokes every course of the bundle', async () => {
+      const tx = knowledgeLayerEscrow.connect(bob).reimburse(bobId, transactionId);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'BalanceCredited')
+        .withArgs(bobId, ETH_ADDRESS, bundleTotalPrice);
+
+      // Bob only keeps the courses of his first purchase
+      for (const courseId of courseIds) {
+        expect(await knowledgeLayerCourse.balanceOf(bob.address, courseId)).to.equal(1);
+      }
+    });
+  });
+
+  describe('Bundle with a co-taught course', async () => {
+    const coTaughtCourseId = courseIds[1];
+    const carolShare = 2000;
+    let transactionId: BigNumber;
+
+    before(async () => {
+      // Carol co-teaches one of the three courses of the bundle
+      await knowledgeLayerCourse
+        .connect(alice)
+        .updateCollaborators(aliceId, coTaughtCourseId, [
+          { profileId: carolId, share: carolShare },
+        ]);
+
+      const tx = await knowledgeLayerEscrow
+        .connect(bob)
+        .createBundleTransaction(bobId, bundleId, buyPlatformId, 0, '0x', {
+          value: bundleTotalPrice,
+        });
+      const receipt = await tx.wait();
+      transactionId = receipt.events?.find((e) => e.event === 'TransactionCreated')?.args?.id;
+
+      await time.increase(refundWindow + 1);
+    });
+
+    it('Pays the co-teacher their share of the part of the bundle revenue of the course', async () => {
+      const shareAmount = bundlePrice.div(courseIds.length).mul(carolShare).div(FEE_DIVIDER);
+
+      const tx = knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'CollaboratorShareReleased')
+        .withArgs(transactionId, carolId, ETH_ADDRESS, shareAmount);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'BalanceCredited')
+        .withArgs(aliceId, ETH_ADDRESS, bundlePrice.sub(shareAmount));
+      expect(await knowledgeLayerEscrow.profileBalance(carolId, ETH_ADDRESS)).to.equal(shareAmount);
+    });
+  });
+});
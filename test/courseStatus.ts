@@ -0,0 +1,251 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { ethers } from 'hardhat';
+import {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import { CourseStatus, ETH_ADDRESS, MintStatus } from '../utils/constants';
+
+describe('Course status', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    dave: SignerWithAddress,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow,
+    totalPrice: BigNumber;
+
+  const aliceId = 1;
+  const bobId = 2;
+  const daveId = 3;
+  const platformId = 1;
+  const courseId = 1;
+  const otherCourseId = 2;
+  const bundleId = 1;
+  const refundWindow = 7 * 24 * 60 * 60;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+
+  const buyCourse = (id: number = courseId) =>
+    knowledgeLayerEscrow
+      .connect(bob)
+      .createTransaction(bobId, id, platformId, 0, '', 0, '0x', { value: totalPrice });
+
+  const updateCourseStatus = (status: CourseStatus) =>
+    knowledgeLayerCourse.connect(alice).updateCourseStatus(aliceId, courseId, status);
+
+  before(async () => {
+    [deployer, alice, bob, carol, dave] = await ethers.getSigners();
+    [knowledgeLayerID, knowledgeLayerPlatformID, knowledgeLayerCourse, knowledgeLayerEscrow] =
+      await deploy();
+
+    // Add carol to whitelist and mint platform ID
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+    await knowledgeLayerPlatformID.connect(carol).updateRefundWindow(platformId, refundWindow);
+
+    // Mint KnowledgeLayer IDs
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(platformId, 'alice');
+    await knowledgeLayerID.connect(bob).mint(platformId, 'bob__');
+    await knowledgeLayerID.connect(dave).mint(platformId, 'dave_');
+
+    // Alice creates two courses and a bundle of both
+    for (let i = 0; i < 2; i++) {
+      await knowledgeLayerCourse
+        .connect(alice)
+        .createCourse(
+          aliceId,
+          platformId,
+          coursePrice,
+          ETH_ADDRESS,
+          courseDataUri,
+          0,
+          CourseStatus.Published,
+          0,
+          '0x',
+        );
+    }
+    await knowledgeLayerCourse
+      .connect(alice)
+      .createBundle(
+        aliceId,
+        platformId,
+        [courseId, otherCourseId],
+        coursePrice,
+        ETH_ADDRESS,
+        courseDataUri,
+        0,
+        '0x',
+      );
+
+    ({ totalPrice } = await knowledgeLayerEscrow.getPriceQuote(courseId, platformId, ''));
+  });
+
+  describe('Update course status', async () => {
+    it('Courses are published when created', async () => {
+      const course = await knowledgeLayerCourse.getCourse(courseId);
+      expect(course.status).to.equal(CourseStatus.Published);
+    });
+
+    it("Can't update the status of a course of another teacher", async () => {
+      await expect(
+        knowledgeLayerCourse
+          .connect(dave)
+          .updateCourseStatus(daveId, courseId, CourseStatus.Paused),
+      ).to.be.revertedWith('Not the owner');
+      await expect(
+        knowledgeLayerCourse
+          .connect(dave)
+          .updateCourseStatus(aliceId, courseId, CourseStatus.Paused),
+      ).to.be.revertedWith('Not owner or delegate');
+    });
+
+    it("Can't set the current status again", async () => {
+      await expect(updateCourseStatus(CourseStatus.Published)).to.be.revertedWith(
+        'Status unchanged',
+      );
+    });
+
+    it('Teacher can update the status of a course', async () => {
+      await expect(updateCourseStatus(CourseStatus.Draft))
+        .to.emit(knowledgeLayerCourse, 'CourseStatusUpdated')
+        .withArgs(courseId, CourseStatus.Draft);
+
+      const course = await knowledgeLayerCourse.getCourse(courseId);
+      expect(course.status).to.equal(CourseStatus.Draft);
+    });
+  });
+
+  describe('Purchases', async () => {
+    it("Can't buy a draft course", async () => {
+      await expect(buyCourse()).to.be.revertedWith('Course not published');
+    });
+
+    it('Can buy a published course', async () => {
+      await updateCourseStatus(CourseStatus.Published);
+      await buyCourse();
+      expect(await knowledgeLayerCourse.hasAccess(bobId, courseId)).to.be.true;
+    });
+
+    it("Can't buy a paused course, nor a bundle containing it", async () => {
+      await updateCourseStatus(CourseStatus.Paused);
+      await expect(buyCourse()).to.be.revertedWith('Course not published');
+
+      const { totalPrice: bundleTotalPrice } = await knowledgeLayerEscrow.getBundlePriceQuote(
+        bundleId,
+        platformId,
+      );
+      await expect(
+        knowledgeLayerEscrow
+          .connect(bob)
+          .createBundleTransaction(bobId, bundleId, platformId, 0, '0x', {
+            value: bundleTotalPrice,
+          }),
+      ).to.be.revertedWith('Course not published');
+    });
+
+    it('Sales resume when the course is published again', async () => {
+      await updateCourseStatus(CourseStatus.Published);
+      await buyCourse();
+    });
+  });
+
+  describe('Archived courses', async () => {
+    before(async () => {
+      await expect(updateCourseStatus(CourseStatus.Archived))
+        .to.emit(knowledgeLayerCourse, 'CourseStatusUpdated')
+        .withArgs(courseId, CourseStatus.Archived);
+    });
+
+    it("Can't buy an archived course", async () => {
+      await expect(buyCourse()).to.be.revertedWith('Course not published');
+    });
+
+    it('Buyers keep their access to an archived course', async () => {
+      expect(await knowledgeLayerCourse.hasAccess(bobId, courseId)).to.be.true;
+      expect(await knowledgeLayerCourse.balanceOf(bob.address, courseId)).to.equal(2);
+    });
+
+    it("Can't update an archived course nor its status", async () => {
+      await expect(updateCourseStatus(CourseStatus.Published)).to.be.revertedWith(
+        'Course archived',
+      );
+      await expect(
+        knowledgeLayerCourse
+          .connect(alice)
+          .updateCourse(aliceId, courseId, coursePrice, ETH_ADDRESS, courseDataUri, 0, '0x'),
+      ).to.be.revertedWith('Course archived');
+    });
+
+    it('Buyers of an archived course can still be reimbursed', async () => {
+      await expect(knowledgeLayerEscrow.connect(bob).reimburse(bobId, 1)).to.emit(
+        knowledgeLayerEscrow,
+        'Payment',
+      );
+      expect(await knowledgeLayerCourse.balanceOf(bob.address, courseId)).to.equal(1);
+    });
+
+    it('Other courses of the teacher can still be bought', async () => {
+      await buyCourse(otherCourseId);
+      expect(await knowledgeLayerCourse.hasAccess(bobId, otherCourseId)).to.be.true;
+    });
+  });
+
+  describe('Create course', async () => {
+    const draftCourseId = 3;
+
+    const createCourse = (status: CourseStatus) =>
+      knowledgeLayerCourse
+        .connect(alice)
+        .createCourse(
+          aliceId,
+          platformId,
+          coursePrice,
+          ETH_ADDRESS,
+          courseDataUri,
+          0,
+          status,
+          0,
+          '0x',
+        );
+
+    it("Can't create a paused or archived course", async () => {
+      await expect(createCourse(CourseStatus.Paused)).to.be.revertedWith('Invalid status');
+      await expect(createCourse(CourseStatus.Archived)).to.be.revertedWith('Invalid status');
+    });
+
+    it('Teacher can create a draft course, which can be bought once published', async () => {
+      await expect(createCourse(CourseStatus.Draft))
+        .to.emit(knowledgeLayerCourse, 'CourseCreated')
+        .withArgs(
+          draftCourseId,
+          aliceId,
+          platformId,
+          coursePrice,
+          ETH_ADDRESS,
+          courseDataUri,
+          0,
+          CourseStatus.Draft,
+        );
+
+      const course = await knowledgeLayerCourse.getCourse(draftCourseId);
+      expect(course.status).to.equal(CourseStatus.Draft);
+      await expect(buyCourse(draftCourseId)).to.be.revertedWith('Course not published');
+
+      await knowledgeLayerCourse
+        .connect(alice)
+        .updateCourseStatus(aliceId, draftCourseId, CourseStatus.Published);
+      await buyCourse(draftCourseId);
+      expect(await knowledgeLayerCourse.hasAccess(bobId, draftCourseId)).to.be.true;
+    });
+  });
+});
@@ -8,7 +8,7 @@ import {
   KnowledgeLayerEscrow,
   KnowledgeLayerReview,
 } from '../typechain-types';
-import { ETH_ADDRESS, FEE_DIVIDER, MintStatus } from '../utils/constants';
+import { CourseStatus, ETH_ADDRESS, FEE_DIVIDER, MintStatus } from '../utils/constants';
 import deploy from '../utils/deploy';
 import { BigNumber } from 'ethers';
 
@@ -79,7 +79,17 @@ describe('Delegation', function () {
   it('Delegate can create course on behalf of user', async () => {
     const tx = await knowledgeLayerCourse
       .connect(dave)
-      .createCourse(aliceId, carolPlatformId, coursePrice, ETH_ADDRESS, courseDataUri);
+      .createCourse(
+        aliceId,
+        carolPlatformId,
+        coursePrice,
+        ETH_ADDRESS,
+        courseDataUri,
+        0,
+        CourseStatus.Published,
+        0,
+        '0x',
+      );
     expect(tx).to.not.be.reverted;
   });
 
@@ -88,7 +98,7 @@ describe('Delegation', function () {
 
     const tx = await knowledgeLayerCourse
       .connect(dave)
-      .updateCourse(aliceId, carolPlatformId, coursePrice, ETH_ADDRESS, newCourseDataUri);
+      .updateCourse(aliceId, carolPlatformId, coursePrice, ETH_ADDRESS, newCourseDataUri, 0, '0x');
     expect(tx).to.not.be.reverted;
   });
 
@@ -99,9 +109,11 @@ describe('Delegation', function () {
     const protocolFee = await knowledgeLayerEscrow.protocolFee();
     const totalPrice =
       coursePrice + (coursePrice * (originFee + buyFee + protocolFee)) / FEE_DIVIDER;
-    await knowledgeLayerEscrow.connect(bob).createTransaction(bobId, courseId, carolPlatformId, {
-      value: totalPrice,
-    });
+    await knowledgeLayerEscrow
+      .connect(bob)
+      .createTransaction(bobId, courseId, carolPlatformId, 0, '', 0, '0x', {
+        value: totalPrice,
+      });
 
     // Dave can release the payment on behalf of Alice
     await knowledgeLayerEscrow.connect(dave).release(aliceId, transactionId);
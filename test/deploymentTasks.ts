@@ -0,0 +1,154 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import hre, { ethers, upgrades } from 'hardhat';
+import path from 'path';
+import {
+  CONTRACT_NAMES,
+  DeploymentRecord,
+  LIBRARY_NAMES,
+  getDeploymentRecord,
+} from '../.deployment/deploymentManager';
+import { getCommit } from '../scripts/tasks/deploy';
+import { loadJSON, saveJSON } from '../utils/files';
+
+describe('Deployment tasks', () => {
+  const network = hre.network.name;
+  const filename = path.join(__dirname, '..', '.deployment', `${network}.json`);
+  const names = [...CONTRACT_NAMES, ...LIBRARY_NAMES];
+
+  const getRecord = (name: (typeof names)[number]) =>
+    getDeploymentRecord(network, name) as DeploymentRecord;
+
+  const getAddresses = () => names.map((name) => getRecord(name).address);
+
+  // Edits the recorded deployments, as a failed or previous deployment would have left them
+  const editRecords = (edit: (deployments: Record<string, DeploymentRecord>) => void) => {
+    const deployment = loadJSON(filename);
+    edit(deployment.deployments);
+    saveJSON(filename, deployment);
+  };
+
+  const getCourse = () =>
+    ethers.getContractAt('KnowledgeLayerCourse', getRecord('KnowledgeLayerCourse').address);
+
+  const hasEscrowRole = async () => {
+    const knowledgeLayerCourse = await getCourse();
+    return knowledgeLayerCourse.hasRole(
+      await knowledgeLayerCourse.ESCROW_ROLE(),
+      getRecord('KnowledgeLayerEscrow').address,
+    );
+  };
+
+  before(() => fs.rmSync(filename, { force: true }));
+
+  after(() => fs.rmSync(filename, { force: true }));
+
+  describe('Deploy task', async () => {
+    it('Deploys and records all the contracts', async () => {
+      await hre.run('deploy');
+
+      for (const name of names) {
+        const record = getRecord(name);
+        expect(await ethers.provider.getCode(record.address)).to.not.equal('0x');
+      }
+      expect(getRecord('KnowledgeLayerCourse').implementation).to.equal(
+        await upgrades.erc1967.getImplementationAddress(getRecord('KnowledgeLayerCourse').address),
+      );
+      expect(await hasEscrowRole()).to.be.true;
+    });
+
+    it('Skips the recorded contracts when run again', async () => {
+      const addresses = getAddresses();
+      const blockNumber = await ethers.provider.getBlockNumber();
+
+      await hre.run('deploy');
+
+      expect(getAddresses()).to.deep.equal(addresses);
+      expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+    });
+
+    it('Resumes a deployment which failed halfway', async () => {
+      const addresses = getAddresses();
+      editRecords((deployments) => {
+        delete deployments.KnowledgeLayerReview;
+        delete deployments.KnowledgeLayerCertificate;
+      });
+      const knowledgeLayerCourse = await getCourse();
+      await knowledgeLayerCourse.revokeRole(
+        await knowledgeLayerCourse.ESCROW_ROLE(),
+        getRecord('KnowledgeLayerEscrow').address,
+      );
+
+      await hre.run('deploy');
+
+      for (const [i, name] of names.entries()) {
+        if (name === 'KnowledgeLayerReview' || name === 'KnowledgeLayerCertificate') {
+          expect(getRecord(name).address).to.not.equal(addresses[i]);
+        } else {
+          expect(getRecord(name).address).to.equal(addresses[i]);
+        }
+      }
+      expect(await hasEscrowRole()).to.be.true;
+    });
+
+    it('Deploys a contract with other arguments again, but keeps a proxy', async () => {
+      const reviewAddress = getRecord('KnowledgeLayerReview').address;
+      const certificateAddress = getRecord('KnowledgeLayerCertificate').address;
+      editRecords((deployments) => {
+        deployments.KnowledgeLayerReview.args = [];
+        deployments.KnowledgeLayerCertificate.args = [];
+      });
+
+      await hre.run('deploy');
+
+      expect(getRecord('KnowledgeLayerReview').address).to.equal(reviewAddress);
+      expect(getRecord('KnowledgeLayerCertificate').address).to.not.equal(certificateAddress);
+    });
+
+    it('Stops when the implementation of a proxy is outdated', async () => {
+      const reviewAddress = getRecord('KnowledgeLayerReview').address;
+      const KnowledgeLayerReviewV2 = await ethers.getContractFactory('KnowledgeLayerReviewV2');
+      await upgrades.upgradeProxy(reviewAddress, KnowledgeLayerReviewV2, { kind: 'uups' });
+
+      await expect(hre.run('deploy')).to.be.rejectedWith(
+        'run `hardhat upgrade KnowledgeLayerReview`',
+      );
+      expect(getRecord('KnowledgeLayerReview').address).to.equal(reviewAddress);
+    });
+  });
+
+  describe('Upgrade task', async () => {
+    it('Links the recorded library when its code matches, and records the upgrade', async () => {
+      const libraryAddress = getRecord('EscrowDisputes').address;
+
+      await hre.run('upgrade', { contract: 'KnowledgeLayerEscrow' });
+
+      expect(getRecord('EscrowDisputes').address).to.equal(libraryAddress);
+      const record = getRecord('KnowledgeLayerEscrow');
+      expect(record.implementation).to.equal(
+        await upgrades.erc1967.getImplementationAddress(record.address),
+      );
+      expect(record.commit).to.equal(getCommit());
+
+      const receipt = await ethers.provider.getTransactionReceipt(
+        record.upgrade?.transactionHash as string,
+      );
+      expect(receipt.to).to.equal(record.address);
+      expect(record.upgrade?.blockNumber).to.equal(receipt.blockNumber);
+    });
+
+    it('Deploys the library again when its code changed', async () => {
+      const libraryAddress = getRecord('EscrowDisputes').address;
+      // Another contract is recorded as the library, as if the library had changed since it was deployed
+      editRecords((deployments) => {
+        deployments.EscrowDisputes.address = deployments.KnowledgeLayerCertificate.address;
+      });
+
+      await hre.run('upgrade', { contract: 'KnowledgeLayerEscrow' });
+
+      const record = getRecord('EscrowDisputes');
+      expect(record.address).to.not.equal(libraryAddress);
+      expect(await ethers.provider.getCode(record.address)).to.not.equal('0x');
+    });
+  });
+});
@@ -0,0 +1,447 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { BigNumber, ContractTransaction } from 'ethers';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+  MockArbitrator,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import {
+  ArbitratorRuling,
+  CourseStatus,
+  DisputeStatus,
+  ETH_ADDRESS,
+  FEE_DIVIDER,
+  MintStatus,
+  PaymentType,
+  PROTOCOL_INDEX,
+  TransactionStatus,
+} from '../utils/constants';
+
+describe('Dispute resolution', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    dave: SignerWithAddress,
+    eve: SignerWithAddress,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow,
+    mockArbitrator: MockArbitrator,
+    courseTotalPrice: BigNumber;
+
+  const aliceId = 1;
+  const bobId = 2;
+  const carolPlatformId = 1;
+  const davePlatformId = 2;
+  const originFee = 200;
+  const buyFee = 300;
+  const courseId = 1;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+  const arbitrationCost = ethers.utils.parseEther('0.001');
+  const arbitrationFeeTimeout = 10 * 24 * 60 * 60;
+
+  const buyCourse = async (platformId: number): Promise<number> => {
+    const tx = await knowledgeLayerEscrow
+      .connect(bob)
+      .createTransaction(bobId, courseId, platformId, 0, '', 0, '0x', { value: courseTotalPrice });
+    const receipt = await tx.wait();
+
+    return receipt.events?.find((e) => e.event === 'TransactionCreated')?.args?.id;
+  };
+
+  const createDispute = async (): Promise<[number, BigNumber]> => {
+    const transactionId = await buyCourse(davePlatformId);
+    await knowledgeLayerEscrow
+      .connect(bob)
+      .raiseDispute(bobId, transactionId, { value: arbitrationCost });
+    const tx = await knowledgeLayerEscrow
+      .connect(alice)
+      .payArbitrationFee(aliceId, transactionId, { value: arbitrationCost });
+    const receipt = await tx.wait();
+
+    const disputeId = receipt.events?.find((e) => e.event === 'DisputeCreated')?.args?.disputeId;
+    return [transactionId, disputeId];
+  };
+
+  before(async () => {
+    [deployer, alice, bob, carol, dave, eve] = await ethers.getSigners();
+    [knowledgeLayerID, knowledgeLayerPlatformID, knowledgeLayerCourse, knowledgeLayerEscrow] =
+      await deploy();
+
+    // Deploy MockArbitrator
+    const MockArbitrator = await ethers.getContractFactory('MockArbitrator');
+    mockArbitrator = await MockArbitrator.deploy(arbitrationCost);
+    await mockArbitrator.deployed();
+
+    // Add carol and dave to whitelist and mint platform IDs
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(dave.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+    await knowledgeLayerPlatformID.connect(dave).mint('dave-platform');
+
+    // Update platform fees and set the arbitrator of Dave's platform
+    await knowledgeLayerPlatformID.connect(carol).updateOriginFee(carolPlatformId, originFee);
+    await knowledgeLayerPlatformID.connect(dave).updateBuyFee(davePlatformId, buyFee);
+    await knowledgeLayerPlatformID.connect(carol).updateBuyFee(carolPlatformId, buyFee);
+    await knowledgeLayerPlatformID
+      .connect(dave)
+      .updateArbitrator(davePlatformId, mockArbitrator.address, []);
+
+    // Mint KnowledgeLayer IDs
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(carolPlatformId, 'alice');
+    await knowledgeLayerID.connect(bob).mint(carolPlatformId, 'bob__');
+
+    // Alice creates a course
+    await knowledgeLayerCourse
+      .connect(alice)
+      .createCourse(
+        aliceId,
+        carolPlatformId,
+        coursePrice,
+        ETH_ADDRESS,
+        courseDataUri,
+        0,
+        CourseStatus.Published,
+        0,
+        '0x',
+      );
+
+    const protocolFee = await knowledgeLayerEscrow.protocolFee();
+    courseTotalPrice = coursePrice.add(
+      coursePrice.mul(originFee + buyFee + protocolFee).div(FEE_DIVIDER),
+    );
+  });
+
+  describe('Raise dispute', async () => {
+    let transactionId: number;
+
+    before(async () => {
+      transactionId = await buyCourse(davePlatformId);
+    });
+
+    it("Can't raise a dispute if the platform has no arbitrator", async () => {
+      const otherTransactionId = await buyCourse(carolPlatformId);
+
+      await expect(
+        knowledgeLayerEscrow
+          .connect(bob)
+          .raiseDispute(bobId, otherTransactionId, { value: arbitrationCost }),
+      ).to.be.revertedWith('Arbitration not enabled');
+    });
+
+    it("Can't raise a dispute if not the transaction sender", async () => {
+      await expect(
+        knowledgeLayerEscrow
+          .connect(alice)
+          .raiseDispute(aliceId, transactionId, { value: arbitrationCost }),
+      ).to.be.revertedWith('Not the sender');
+    });
+
+    it("Can't raise a dispute without paying the arbitration fee", async () => {
+      await expect(
+        knowledgeLayerEscrow
+          .connect(bob)
+          .raiseDispute(bobId, transactionId, { value: arbitrationCost.sub(1) }),
+      ).to.be.revertedWith('Non-matching funds');
+    });
+
+    it('Sender can raise a dispute paying the arbitration fee', async () => {
+      const tx = await knowledgeLayerEscrow
+        .connect(bob)
+        .raiseDispute(bobId, transactionId, { value: arbitrationCost });
+
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'DisputeRaised')
+        .withArgs(transactionId, mockArbitrator.address, arbitrationCost);
+      await expect(tx).to.changeEtherBalances(
+        [bob, knowledgeLayerEscrow],
+        [arbitrationCost.mul(-1), arbitrationCost],
+      );
+
+      const dispute = await knowledgeLayerEscrow.disputes(transactionId);
+      expect(dispute.arbitrator).to.equal(mockArbitrator.address);
+      expect(dispute.senderFee).to.equal(arbitrationCost);
+      expect(dispute.arbitrationFeeTimeout).to.equal(arbitrationFeeTimeout);
+      expect(dispute.status).to.equal(DisputeStatus.WaitingReceiver);
+    });
+
+    it("Can't raise a dispute twice", async () => {
+      await expect(
+        knowledgeLayerEscrow
+          .connect(bob)
+          .raiseDispute(bobId, transactionId, { value: arbitrationCost }),
+      ).to.be.revertedWith('Dispute already raised');
+    });
+
+    it('Freezes the release and reimbursement of the funds', async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId),
+      ).to.be.revertedWith('Transaction in dispute');
+      await expect(knowledgeLayerEscrow.connect(eve).autoRelease(transactionId)).to.be.revertedWith(
+        'Transaction in dispute',
+      );
+      await expect(
+        knowledgeLayerEscrow.connect(bob).reimburse(bobId, transactionId),
+      ).to.be.revertedWith('Transaction in dispute');
+    });
+
+    describe('Receiver pays the arbitration fee', async () => {
+      it("Can't pay the arbitration fee if not the transaction receiver", async () => {
+        await expect(
+          knowledgeLayerEscrow
+            .connect(bob)
+            .payArbitrationFee(bobId, transactionId, { value: arbitrationCost }),
+        ).to.be.revertedWith('Not the receiver');
+      });
+
+      it("Can't pay less than the arbitration fee", async () => {
+        await expect(
+          knowledgeLayerEscrow
+            .connect(alice)
+            .payArbitrationFee(aliceId, transactionId, { value: arbitrationCost.sub(1) }),
+        ).to.be.revertedWith('Non-matching funds');
+      });
+
+      it('Creates the dispute in the arbitrator contract', async () => {
+        const tx = await knowledgeLayerEscrow
+          .connect(alice)
+          .payArbitrationFee(aliceId, transactionId, { value: arbitrationCost });
+
+        await expect(tx)
+          .to.emit(knowledgeLayerEscrow, 'DisputeCreated')
+          .withArgs(transactionId, mockArbitrator.address, 0, arbitrationCost);
+        await expect(tx).to.changeEtherBalances(
+          [alice, mockArbitrator],
+          [arbitrationCost.mul(-1), arbitrationCost],
+        );
+
+        const dispute = await knowledgeLayerEscrow.disputes(transactionId);
+        expect(dispute.receiverFee).to.equal(arbitrationCost);
+        expect(dispute.status).to.equal(DisputeStatus.DisputeCreated);
+
+        const arbitratorDispute = await mockArbitrator.disputes(dispute.disputeId);
+        expect(arbitratorDispute.arbitrated).to.equal(knowledgeLayerEscrow.address);
+      });
+
+      it("Can't pay the arbitration fee twice", async () => {
+        await expect(
+          knowledgeLayerEscrow
+            .connect(alice)
+            .payArbitrationFee(aliceId, transactionId, { value: arbitrationCost }),
+        ).to.be.revertedWith('Not waiting for arbitration fee');
+      });
+
+      it('Only the arbitrator can give a ruling', async () => {
+        const dispute = await knowledgeLayerEscrow.disputes(transactionId);
+
+        await expect(
+          knowledgeLayerEscrow
+            .connect(deployer)
+            .rule(dispute.disputeId, ArbitratorRuling.SenderWins),
+        ).to.be.revertedWith('Not the arbitrator');
+      });
+    });
+  });
+
+  describe('Ruling in favor of the sender', async () => {
+    let tx: ContractTransaction;
+    let transactionId: number;
+    let disputeId: BigNumber;
+    let courseBalance: BigNumber;
+    let bobBalance: BigNumber;
+
+    before(async () => {
+      [transactionId, disputeId] = await createDispute();
+      courseBalance = await knowledgeLayerCourse.balanceOf(bob.address, courseId);
+      bobBalance = await knowledgeLayerEscrow.profileBalance(bobId, ETH_ADDRESS);
+
+      tx = await mockArbitrator
+        .connect(deployer)
+        .giveRuling(disputeId, ArbitratorRuling.SenderWins);
+    });
+
+    it("Credits the funds and the arbitration fee to the sender's balance", async () => {
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'Ruling')
+        .withArgs(mockArbitrator.address, disputeId, ArbitratorRuling.SenderWins);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'Payment')
+        .withArgs(transactionId, PaymentType.Reimburse);
+      await expect(tx).to.changeEtherBalances([knowledgeLayerEscrow, bob, alice], [0, 0, 0]);
+      expect(await knowledgeLayerEscrow.profileBalance(bobId, ETH_ADDRESS)).to.equal(
+        bobBalance.add(courseTotalPrice).add(arbitrationCost),
+      );
+    });
+
+    it('Sender can withdraw the funds and the arbitration fee', async () => {
+      const balance = await knowledgeLayerEscrow.profileBalance(bobId, ETH_ADDRESS);
+      await expect(
+        knowledgeLayerEscrow.connect(bob).withdraw(bobId, ETH_ADDRESS),
+      ).to.changeEtherBalances([knowledgeLayerEscrow, bob], [balance.mul(-1), balance]);
+    });
+
+    it('Revokes the course token of the sender', async () => {
+      const balance = await knowledgeLayerCourse.balanceOf(bob.address, courseId);
+      expect(balance).to.equal(courseBalance.sub(1));
+    });
+
+    it('Resolves the dispute and settles the transaction', async () => {
+      const dispute = await knowledgeLayerEscrow.disputes(transactionId);
+      expect(dispute.status).to.equal(DisputeStatus.Resolved);
+
+      const transaction = await knowledgeLayerEscrow.connect(bob).getTransaction(transactionId);
+      expect(transaction.status).to.equal(TransactionStatus.Reimbursed);
+    });
+  });
+
+  describe('Ruling in favor of the receiver', async () => {
+    let tx: ContractTransaction;
+    let transactionId: number;
+    let originPlatformBalance: BigNumber;
+    let aliceBalance: BigNumber;
+
+    before(async () => {
+      let disputeId: BigNumber;
+      [transactionId, disputeId] = await createDispute();
+      originPlatformBalance = await knowledgeLayerEscrow.platformBalance(
+        carolPlatformId,
+        ETH_ADDRESS,
+      );
+      aliceBalance = await knowledgeLayerEscrow.profileBalance(aliceId, ETH_ADDRESS);
+
+      tx = await mockArbitrator
+        .connect(deployer)
+        .giveRuling(disputeId, ArbitratorRuling.ReceiverWins);
+    });
+
+    it("Credits the funds and the arbitration fee to the receiver's balance", async () => {
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'Payment')
+        .withArgs(transactionId, PaymentType.Release);
+      await expect(tx).to.changeEtherBalance(bob, 0);
+      expect(await knowledgeLayerEscrow.profileBalance(aliceId, ETH_ADDRESS)).to.equal(
+        aliceBalance.add(coursePrice).add(arbitrationCost),
+      );
+    });
+
+    it('Distributes the fees to the platforms', async () => {
+      const balance = await knowledgeLayerEscrow.platformBalance(carolPlatformId, ETH_ADDRESS);
+      expect(balance).to.equal(
+        originPlatformBalance.add(coursePrice.mul(originFee).div(FEE_DIVIDER)),
+      );
+    });
+
+    it("Can't release the funds again", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId),
+      ).to.be.revertedWith('Transaction already settled');
+    });
+  });
+
+  describe('Ruling refused by the arbitrator', async () => {
+    let tx: ContractTransaction;
+    let transactionId: number;
+    let protocolBalance: BigNumber;
+    let aliceBalance: BigNumber;
+    let bobBalance: BigNumber;
+
+    before(async () => {
+      let disputeId: BigNumber;
+      [transactionId, disputeId] = await createDispute();
+      protocolBalance = await knowledgeLayerEscrow.platformBalance(PROTOCOL_INDEX, ETH_ADDRESS);
+      aliceBalance = await knowledgeLayerEscrow.profileBalance(aliceId, ETH_ADDRESS);
+      bobBalance = await knowledgeLayerEscrow.profileBalance(bobId, ETH_ADDRESS);
+
+      tx = await mockArbitrator
+        .connect(deployer)
+        .giveRuling(disputeId, ArbitratorRuling.RefusedToArbitrate);
+    });
+
+    it('Splits the funds and the arbitration fee between sender and receiver', async () => {
+      const releasedAmount = coursePrice.div(2);
+      const protocolFee = await knowledgeLayerEscrow.protocolFee();
+      const feesAmount = releasedAmount
+        .mul(protocolFee)
+        .div(FEE_DIVIDER)
+        .add(releasedAmount.mul(originFee).div(FEE_DIVIDER))
+        .add(releasedAmount.mul(buyFee).div(FEE_DIVIDER));
+      const reimbursedAmount = courseTotalPrice.sub(releasedAmount).sub(feesAmount);
+
+      expect(await knowledgeLayerEscrow.profileBalance(bobId, ETH_ADDRESS)).to.equal(
+        bobBalance.add(reimbursedAmount).add(arbitrationCost.div(2)),
+      );
+      expect(await knowledgeLayerEscrow.profileBalance(aliceId, ETH_ADDRESS)).to.equal(
+        aliceBalance.add(releasedAmount).add(arbitrationCost.div(2)),
+      );
+
+      const balance = await knowledgeLayerEscrow.platformBalance(PROTOCOL_INDEX, ETH_ADDRESS);
+      expect(balance).to.equal(
+        protocolBalance.add(releasedAmount.mul(protocolFee).div(FEE_DIVIDER)),
+      );
+    });
+
+    it('Emits a payment for both parties', async () => {
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'Payment')
+        .withArgs(transactionId, PaymentType.Release);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'Payment')
+        .withArgs(transactionId, PaymentType.Reimburse);
+    });
+  });
+
+  describe('Receiver does not pay the arbitration fee', async () => {
+    let transactionId: number;
+
+    before(async () => {
+      transactionId = await buyCourse(davePlatformId);
+      await knowledgeLayerEscrow
+        .connect(bob)
+        .raiseDispute(bobId, transactionId, { value: arbitrationCost });
+    });
+
+    it("Can't resolve the dispute before the timeout", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(eve).arbitrationFeeTimeout(transactionId),
+      ).to.be.revertedWith('Timeout is not over');
+    });
+
+    describe('Anyone can resolve the dispute in favor of the sender after the timeout', async () => {
+      let tx: ContractTransaction;
+      let bobBalance: BigNumber;
+
+      before(async () => {
+        await time.increase(arbitrationFeeTimeout);
+        bobBalance = await knowledgeLayerEscrow.profileBalance(bobId, ETH_ADDRESS);
+        tx = await knowledgeLayerEscrow.connect(eve).arbitrationFeeTimeout(transactionId);
+      });
+
+      it("Credits the funds and the arbitration fee to the sender's balance", async () => {
+        await expect(tx)
+          .to.emit(knowledgeLayerEscrow, 'DisputeResolved')
+          .withArgs(transactionId, ArbitratorRuling.SenderWins);
+        expect(await knowledgeLayerEscrow.profileBalance(bobId, ETH_ADDRESS)).to.equal(
+          bobBalance.add(courseTotalPrice).add(arbitrationCost),
+        );
+      });
+
+      it("Receiver can't pay the arbitration fee anymore", async () => {
+        await expect(
+          knowledgeLayerEscrow
+            .connect(alice)
+            .payArbitrationFee(aliceId, transactionId, { value: arbitrationCost }),
+        ).to.be.revertedWith('Not waiting for arbitration fee');
+      });
+    });
+  });
+});
@@ -9,7 +9,13 @@ import {
   KnowledgeLayerReview,
 } from '../typechain-types';
 import deploy from '../utils/deploy';
-import { ETH_ADDRESS, FEE_DIVIDER, MintStatus, PROTOCOL_INDEX } from '../utils/constants';
+import {
+  CourseStatus,
+  ETH_ADDRESS,
+  FEE_DIVIDER,
+  MintStatus,
+  PROTOCOL_INDEX,
+} from '../utils/constants';
 import { expect } from 'chai';
 
 describe('Full Workflow', () => {
@@ -65,7 +71,17 @@ describe('Full Workflow', () => {
     // Alice creates a course
     await knowledgeLayerCourse
       .connect(alice)
-      .createCourse(aliceId, carolPlatformId, coursePrice, ETH_ADDRESS, courseDataUri);
+      .createCourse(
+        aliceId,
+        carolPlatformId,
+        coursePrice,
+        ETH_ADDRESS,
+        courseDataUri,
+        0,
+        CourseStatus.Published,
+        0,
+        '0x',
+      );
   });
 
   describe('Buy course', async () => {
@@ -81,7 +97,7 @@ describe('Full Workflow', () => {
       // Bob buys Alice's course
       tx = await knowledgeLayerEscrow
         .connect(bob)
-        .createTransaction(bobId, courseId, davePlatformId, {
+        .createTransaction(bobId, courseId, davePlatformId, 0, '', 0, '0x', {
           value: totalPrice,
         });
       await tx.wait();
@@ -109,11 +125,11 @@ describe('Full Workflow', () => {
       await tx.wait();
     });
 
-    it('Sends funds to Alice', async () => {
-      await expect(tx).to.changeEtherBalances(
-        [knowledgeLayerEscrow, alice],
-        [-coursePrice, coursePrice],
-      );
+    it("Credits funds to Alice's balance", async () => {
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'BalanceCredited')
+        .withArgs(aliceId, ETH_ADDRESS, coursePrice);
+      expect(await knowledgeLayerEscrow.profileBalance(aliceId, ETH_ADDRESS)).to.equal(coursePrice);
     });
 
     it('Updates platforms balances with fees', async () => {
@@ -145,6 +161,30 @@ describe('Full Workflow', () => {
     });
   });
 
+  describe('Withdraw balance', async () => {
+    let tx: ContractTransaction;
+
+    before(async () => {
+      // Alice withdraws her balance
+      tx = await knowledgeLayerEscrow.connect(alice).withdraw(aliceId, ETH_ADDRESS);
+      await tx.wait();
+    });
+
+    it('Sends funds to Alice', async () => {
+      await expect(tx).to.changeEtherBalances(
+        [knowledgeLayerEscrow, alice],
+        [-coursePrice, coursePrice],
+      );
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'BalanceWithdrawn')
+        .withArgs(aliceId, ETH_ADDRESS, coursePrice);
+    });
+
+    it("Resets Alice's balance", async () => {
+      expect(await knowledgeLayerEscrow.profileBalance(aliceId, ETH_ADDRESS)).to.equal(0);
+    });
+  });
+
   describe('Claim platform fees', async () => {
     let tx: ContractTransaction;
 
@@ -0,0 +1,181 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { ethers } from 'hardhat';
+import {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import { CourseStatus, ETH_ADDRESS, MintStatus, PaymentType } from '../utils/constants';
+
+describe('Course gifts', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    dave: SignerWithAddress,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow,
+    totalPrice: BigNumber;
+
+  const aliceId = 1;
+  const bobId = 2;
+  const daveId = 3;
+  const platformId = 1;
+  const courseId = 1;
+  const refundWindow = 7 * 24 * 60 * 60;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+
+  const giftCourse = async (
+    signer: SignerWithAddress,
+    profileId: number,
+    beneficiaryId: number,
+    referrerId = 0,
+  ) =>
+    knowledgeLayerEscrow
+      .connect(signer)
+      .createGiftTransaction(
+        profileId,
+        beneficiaryId,
+        courseId,
+        platformId,
+        referrerId,
+        '',
+        0,
+        '0x',
+        { value: totalPrice },
+      );
+
+  before(async () => {
+    [deployer, alice, bob, carol, dave] = await ethers.getSigners();
+    [knowledgeLayerID, knowledgeLayerPlatformID, knowledgeLayerCourse, knowledgeLayerEscrow] =
+      await deploy();
+
+    // Add carol to whitelist and mint platform ID
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+    await knowledgeLayerPlatformID.connect(carol).updateRefundWindow(platformId, refundWindow);
+
+    // Mint KnowledgeLayer IDs
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(platformId, 'alice');
+    await knowledgeLayerID.connect(bob).mint(platformId, 'bob__');
+    await knowledgeLayerID.connect(dave).mint(platformId, 'dave_');
+
+    // Alice creates a course
+    await knowledgeLayerCourse
+      .connect(alice)
+      .createCourse(
+        aliceId,
+        platformId,
+        coursePrice,
+        ETH_ADDRESS,
+        courseDataUri,
+        0,
+        CourseStatus.Published,
+        0,
+        '0x',
+      );
+
+    ({ totalPrice } = await knowledgeLayerEscrow.getPriceQuote(courseId, platformId, ''));
+  });
+
+  describe('Gift a course', async () => {
+    it("Can't gift a course to an invalid profile", async () => {
+      await expect(giftCourse(bob, bobId, 10)).to.be.reverted;
+    });
+
+    it("Can't gift a course on behalf of another profile", async () => {
+      await expect(giftCourse(dave, bobId, daveId)).to.be.revertedWith('Not the owner');
+    });
+
+    it("Beneficiary can't be the referrer of the gift", async () => {
+      await expect(giftCourse(bob, bobId, daveId, daveId)).to.be.revertedWith('Invalid referrer');
+    });
+
+    it('Buyer can gift a course to another profile', async () => {
+      const tx = giftCourse(bob, bobId, daveId);
+      await expect(tx).to.changeEtherBalances(
+        [bob, knowledgeLayerEscrow],
+        [totalPrice.mul(-1), totalPrice],
+        { includeFee: false },
+      );
+      await expect(tx).to.emit(knowledgeLayerEscrow, 'TransactionCreated');
+
+      expect(await knowledgeLayerCourse.balanceOf(dave.address, courseId)).to.equal(1);
+      expect(await knowledgeLayerCourse.balanceOf(bob.address, courseId)).to.equal(0);
+      expect(await knowledgeLayerCourse.hasAccess(daveId, courseId)).to.be.true;
+      expect(await knowledgeLayerCourse.hasAccess(bobId, courseId)).to.be.false;
+    });
+
+    it('Transaction records both the buyer and the beneficiary', async () => {
+      const transaction = await knowledgeLayerEscrow.connect(bob).getTransaction(1);
+      expect(transaction.sender).to.equal(bob.address);
+      expect(transaction.beneficiaryId).to.equal(daveId);
+    });
+
+    it('Beneficiary of a regular purchase is the buyer', async () => {
+      const tx = await knowledgeLayerEscrow
+        .connect(bob)
+        .createTransaction(bobId, courseId, platformId, 0, '', 0, '0x', { value: totalPrice });
+      const receipt = await tx.wait();
+      const event = receipt.events?.find((e) => e.event === 'TransactionCreated');
+      expect(event?.args?.beneficiaryId).to.equal(bobId);
+
+      const transaction = await knowledgeLayerEscrow.connect(bob).getTransaction(event?.args?.id);
+      expect(transaction.beneficiaryId).to.equal(bobId);
+    });
+  });
+
+  describe('Reimburse a gift', async () => {
+    let transactionId: BigNumber;
+
+    before(async () => {
+      await knowledgeLayerCourse
+        .connect(alice)
+        .createCourse(
+          aliceId,
+          platformId,
+          coursePrice,
+          ETH_ADDRESS,
+          courseDataUri,
+          0,
+          CourseStatus.Published,
+          0,
+          '0x',
+        );
+      const tx = await knowledgeLayerEscrow
+        .connect(bob)
+        .createGiftTransaction(bobId, daveId, 2, platformId, 0, '', 0, '0x', {
+          value: totalPrice,
+        });
+      const receipt = await tx.wait();
+      transactionId = receipt.events?.find((e) => e.event === 'TransactionCreated')?.args?.id;
+    });
+
+    it("Beneficiary can't be reimbursed", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(dave).reimburse(daveId, transactionId),
+      ).to.be.revertedWith('Not the sender');
+    });
+
+    it('Buyer is reimbursed and the access of the beneficiary is revoked', async () => {
+      const tx = knowledgeLayerEscrow.connect(bob).reimburse(bobId, transactionId);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'BalanceCredited')
+        .withArgs(bobId, ETH_ADDRESS, totalPrice);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'Payment')
+        .withArgs(transactionId, PaymentType.Reimburse);
+
+      expect(await knowledgeLayerCourse.balanceOf(dave.address, 2)).to.equal(0);
+      expect(await knowledgeLayerCourse.balanceOf(dave.address, courseId)).to.equal(1);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BigNumber } from 'ethers';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+  KnowledgeLayerReview,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import { CourseStatus, ETH_ADDRESS, MintStatus, TransactionStatus } from '../utils/constants';
+import {
+  IndexerContracts,
+  IndexerStore,
+  createStore,
+  indexEvents,
+  loadStore,
+  queryCourses,
+  queryReviews,
+  querySales,
+  saveStore,
+} from '../utils/indexer';
+
+describe('Event indexer', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    dave: SignerWithAddress,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow,
+    knowledgeLayerReview: KnowledgeLayerReview,
+    contracts: IndexerContracts,
+    store: IndexerStore,
+    totalPrice: BigNumber;
+
+  const aliceId = 1;
+  const bobId = 2;
+  const daveId = 3;
+  const platformId = 1;
+  const courseId = 1;
+  const otherCourseId = 2;
+  const originFee = 200;
+  const buyFee = 300;
+  const postingFee = ethers.utils.parseEther('0.001');
+  const refundWindow = 7 * 24 * 60 * 60;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+  const reviewDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMg';
+
+  const buyCourse = (signer: SignerWithAddress, profileId: number, id: number) =>
+    knowledgeLayerEscrow
+      .connect(signer)
+      .createTransaction(profileId, id, platformId, 0, '', 0, '0x', { value: totalPrice });
+
+  before(async () => {
+    [deployer, alice, bob, carol, dave] = await ethers.getSigners();
+    [
+      knowledgeLayerID,
+      knowledgeLayerPlatformID,
+      knowledgeLayerCourse,
+      knowledgeLayerEscrow,
+      knowledgeLayerReview,
+    ] = await deploy();
+    contracts = { knowledgeLayerCourse, knowledgeLayerEscrow, knowledgeLayerReview };
+    store = createStore(knowledgeLayerEscrow.address);
+
+    // Add carol to whitelist and mint platform ID with fees and a refund window
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+    await knowledgeLayerPlatformID.connect(carol).updateOriginFee(platformId, originFee);
+    await knowledgeLayerPlatformID.connect(carol).updateBuyFee(platformId, buyFee);
+    await knowledgeLayerPlatformID.connect(carol).updatePostingFee(platformId, postingFee);
+    await knowledgeLayerPlatformID.connect(carol).updateRefundWindow(platformId, refundWindow);
+
+    // Mint KnowledgeLayer IDs
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(platformId, 'alice');
+    await knowledgeLayerID.connect(bob).mint(platformId, 'bob__');
+    await knowledgeLayerID.connect(dave).mint(platformId, 'dave_');
+  });
+
+  describe('Courses', async () => {
+    it('Indexes created courses', async () => {
+      for (let i = 0; i < 2; i++) {
+        await knowledgeLayerCourse
+          .connect(alice)
+          .createCourse(
+            aliceId,
+            platformId,
+            coursePrice,
+            ETH_ADDRESS,
+            courseDataUri,
+            0,
+            CourseStatus.Published,
+            0,
+            '0x',
+            { value: postingFee },
+          );
+      }
+      ({ totalPrice } = await knowledgeLayerEscrow.getPriceQuote(courseId, platformId, ''));
+
+      // Each creation emits CourseCreated and PostingFeeReleased
+      expect(await indexEvents(contracts, store)).to.equal(4);
+
+      const courses = queryCourses(store, { ownerId: String(aliceId) });
+      expect(courses).to.have.length(2);
+      expect(courses[0]).to.include({
+        id: String(courseId),
+        platformId: String(platformId),
+        price: coursePrice.toString(),
+        token: ETH_ADDRESS,
+        dataUri: courseDataUri,
+        status: CourseStatus.Published,
+      });
+      expect(queryCourses(store, { ownerId: String(bobId) })).to.be.empty;
+    });
+
+    it('Indexes course updates', async () => {
+      const newPrice = coursePrice.mul(2);
+      await knowledgeLayerCourse
+        .connect(alice)
+        .updateCourse(aliceId, otherCourseId, newPrice, ETH_ADDRESS, reviewDataUri, 0, '0x');
+      await knowledgeLayerCourse
+        .connect(alice)
+        .updateCourseStatus(aliceId, otherCourseId, CourseStatus.Paused);
+
+      await indexEvents(contracts, store);
+
+      expect(store.courses[otherCourseId]).to.include({
+        price: newPrice.toString(),
+        dataUri: reviewDataUri,
+        status: CourseStatus.Paused,
+      });
+    });
+
+    it("Doesn't replay events twice", async () => {
+      expect(await indexEvents(contracts, store)).to.equal(0);
+      expect(queryCourses(store)).to.have.length(2);
+    });
+  });
+
+  describe('Sales', async () => {
+    before(async () => {
+      // Transaction 1 is released, transaction 2 is reimbursed
+      await buyCourse(bob, bobId, courseId);
+      await buyCourse(dave, daveId, courseId);
+      await knowledgeLayerEscrow.connect(dave).reimburse(daveId, 2);
+      await time.increase(refundWindow + 1);
+      await knowledgeLayerEscrow.connect(alice).release(aliceId, 1);
+
+      await indexEvents(contracts, store);
+    });
+
+    it('Indexes sales', async () => {
+      const sales = querySales(store, { courseId: String(courseId) });
+      expect(sales).to.have.length(2);
+      expect(sales[0]).to.include({
+        id: '1',
+        buyerId: String(bobId),
+        beneficiaryId: String(bobId),
+        teacherId: String(aliceId),
+        platformId: String(platformId),
+        amount: coursePrice.toString(),
+      });
+
+      expect(querySales(store, { buyerId: String(daveId) })).to.have.length(1);
+      expect(querySales(store, { teacherId: String(bobId) })).to.be.empty;
+    });
+
+    it('Tracks the status of the sales', async () => {
+      expect(store.sales[1].status).to.equal(TransactionStatus.Released);
+      expect(store.sales[2].status).to.equal(TransactionStatus.Reimbursed);
+    });
+
+    it('Indexes posting, released and claimed fees', async () => {
+      const originFeeAmount = coursePrice.mul(originFee).div(10000);
+      const buyFeeAmount = coursePrice.mul(buyFee).div(10000);
+      expect(store.fees.map(({ type, amount }) => ({ type, amount }))).to.deep.equal([
+        { type: 'posting', amount: postingFee.toString() },
+        { type: 'posting', amount: postingFee.toString() },
+        { type: 'origin', amount: originFeeAmount.toString() },
+        { type: 'buy', amount: buyFeeAmount.toString() },
+      ]);
+
+      await knowledgeLayerCourse.connect(carol).claim(platformId);
+      await knowledgeLayerEscrow.connect(carol).claim(platformId, ETH_ADDRESS);
+      await indexEvents(contracts, store);
+
+      const claims = store.fees.filter(({ type }) => type === 'claim');
+      expect(
+        claims.map(({ recipientId, token, amount }) => ({ recipientId, token, amount })),
+      ).to.deep.equal([
+        {
+          recipientId: String(platformId),
+          token: ETH_ADDRESS,
+          amount: postingFee.mul(2).toString(),
+        },
+        {
+          recipientId: String(platformId),
+          token: ETH_ADDRESS,
+          amount: originFeeAmount.add(buyFeeAmount).toString(),
+        },
+      ]);
+    });
+  });
+
+  describe('Reviews', async () => {
+    it('Indexes reviews', async () => {
+      await knowledgeLayerReview.connect(bob).mint(bobId, courseId, reviewDataUri, 4);
+      await indexEvents(contracts, store);
+
+      const reviews = queryReviews(store, { courseId: String(courseId) });
+      expect(reviews).to.have.length(1);
+      expect(reviews[0]).to.include({
+        teacherId: String(aliceId),
+        studentId: String(bobId),
+        rating: 4,
+        dataUri: reviewDataUri,
+      });
+    });
+  });
+
+  describe('Store', async () => {
+    const filename = path.join(os.tmpdir(), `knowledgelayer-indexer-${process.pid}.json`);
+
+    after(() => {
+      fs.rmSync(filename, { force: true });
+    });
+
+    it('Saves and loads the store', async () => {
+      saveStore(filename, store);
+      expect(loadStore(filename, knowledgeLayerEscrow.address)).to.deep.equal(store);
+    });
+
+    it('Starts over when the escrow was redeployed', async () => {
+      const loaded = loadStore(filename, ethers.constants.AddressZero);
+      expect(loaded).to.deep.equal(createStore(ethers.constants.AddressZero));
+    });
+
+    it('Rebuilds the same store from scratch', async () => {
+      const rebuilt = createStore(knowledgeLayerEscrow.address);
+      await indexEvents(contracts, rebuilt, store.lastBlock);
+      expect(rebuilt).to.deep.equal(store);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { BigNumber, ContractTransaction } from 'ethers';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import {
+  KnowledgeLayerCertificate,
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import { CourseStatus, ETH_ADDRESS, FEE_DIVIDER, MintStatus } from '../utils/constants';
+
+describe('KnowledgeLayerCertificate', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    dave: SignerWithAddress,
+    certificateId: BigNumber,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow,
+    knowledgeLayerCertificate: KnowledgeLayerCertificate;
+
+  const aliceId = 1;
+  const bobId = 2;
+  const carolId = 3;
+  const courseId = 1;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+  const gradeUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMg';
+
+  before(async () => {
+    [deployer, alice, bob, carol, dave] = await ethers.getSigners();
+    [
+      knowledgeLayerID,
+      knowledgeLayerPlatformID,
+      knowledgeLayerCourse,
+      knowledgeLayerEscrow,
+      ,
+      knowledgeLayerCertificate,
+    ] = await deploy();
+
+    // Add carol to whitelist and mint platform ID
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+    const carolPlatformId = await knowledgeLayerPlatformID.connect(carol).ids(carol.address);
+
+    // Mint KnowledgeLayer IDs
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(carolPlatformId, 'alice');
+    await knowledgeLayerID.connect(bob).mint(carolPlatformId, 'bob__');
+    await knowledgeLayerID.connect(carol).mint(carolPlatformId, 'carol');
+
+    // Alice adds dave as a delegate
+    await knowledgeLayerID.connect(alice).addDelegate(aliceId, dave.address);
+
+    // Alice creates a course
+    await knowledgeLayerCourse
+      .connect(alice)
+      .createCourse(
+        aliceId,
+        carolPlatformId,
+        coursePrice,
+        ETH_ADDRESS,
+        courseDataUri,
+        0,
+        CourseStatus.Published,
+        0,
+        '0x',
+      );
+
+    // Bob buys the course
+    const originFee = await knowledgeLayerPlatformID.getOriginFee(carolPlatformId);
+    const buyFee = await knowledgeLayerPlatformID.getBuyFee(carolPlatformId);
+    const protocolFee = await knowledgeLayerEscrow.protocolFee();
+    const totalPrice = coursePrice.add(
+      coursePrice.mul(originFee + buyFee + protocolFee).div(FEE_DIVIDER),
+    );
+    await knowledgeLayerEscrow
+      .connect(bob)
+      .createTransaction(bobId, courseId, carolPlatformId, 0, '', 0, '0x', {
+        value: totalPrice,
+      });
+  });
+
+  describe('Issue certificate', async () => {
+    it("Can't issue a certificate if not the owner of the course", async () => {
+      await expect(
+        knowledgeLayerCertificate.connect(carol).issue(carolId, courseId, bobId, gradeUri),
+      ).to.be.revertedWith('Not the owner of the course');
+    });
+
+    it("Can't issue a certificate on behalf of the teacher if not a delegate", async () => {
+      await expect(
+        knowledgeLayerCertificate.connect(carol).issue(aliceId, courseId, bobId, gradeUri),
+      ).to.be.revertedWith('Not owner or delegate');
+    });
+
+    it("Can't issue a certificate to a student who is not a buyer of the course", async () => {
+      await expect(
+        knowledgeLayerCertificate.connect(alice).issue(aliceId, courseId, carolId, gradeUri),
+      ).to.be.revertedWith('Not a buyer of the course');
+    });
+
+    it("Can't issue a certificate with a grade URI which would alter the metadata", async () => {
+      for (const invalidGradeUri of [
+        'ipfs://grade"},{"trait_type":"issuer","value":1',
+        'ipfs://grade\\',
+        'ipfs://grade\n',
+      ]) {
+        await expect(
+          knowledgeLayerCertificate.connect(alice).issue(aliceId, courseId, bobId, invalidGradeUri),
+        ).to.be.revertedWith('Invalid grade URI');
+      }
+    });
+
+    describe('Delegate of the teacher can issue a certificate', async () => {
+      let tx: ContractTransaction;
+
+      before(async () => {
+        tx = await knowledgeLayerCertificate
+          .connect(dave)
+          .issue(aliceId, courseId, bobId, gradeUri);
+        const receipt = await tx.wait();
+
+        certificateId = receipt.events?.find((e) => e.event === 'CertificateIssued')?.args?.id;
+      });
+
+      it('Creates certificate with the correct data', async () => {
+        const certificate = await knowledgeLayerCertificate.getCertificate(certificateId);
+        expect(certificate.courseId).to.equal(courseId);
+        expect(certificate.issuerId).to.equal(aliceId);
+        expect(certificate.studentId).to.equal(bobId);
+        expect(certificate.issuedAt).to.equal(await time.latest());
+        expect(certificate.gradeUri).to.equal(gradeUri);
+
+        await expect(tx)
+          .to.emit(knowledgeLayerCertificate, 'CertificateIssued')
+          .withArgs(certificateId, courseId, bobId, aliceId, gradeUri);
+      });
+
+      it('Mints a certificate token to the student', async () => {
+        await expect(tx).to.changeTokenBalance(knowledgeLayerCertificate, bob, 1);
+        expect(await knowledgeLayerCertificate.ownerOf(certificateId)).to.be.equal(bob.address);
+        expect(await knowledgeLayerCertificate.certificateOf(courseId, bobId)).to.equal(
+          certificateId,
+        );
+        expect(await knowledgeLayerCertificate.totalSupply()).to.be.equal(1);
+      });
+
+      it('Builds the token URI with the certificate data', async () => {
+        const tokenURI = await knowledgeLayerCertificate.tokenURI(certificateId);
+        const [, encodedJson] = tokenURI.split('data:application/json;base64,');
+        const metadata = JSON.parse(Buffer.from(encodedJson, 'base64').toString());
+
+        expect(metadata.name).to.equal(`KnowledgeLayer Certificate #${certificateId}`);
+        expect(metadata.image).to.match(/^data:image\/svg\+xml;base64,/);
+        expect(metadata.attributes).to.deep.include({ trait_type: 'course', value: courseId });
+        expect(metadata.attributes).to.deep.include({ trait_type: 'issuer', value: aliceId });
+        expect(metadata.attributes).to.deep.include({ trait_type: 'student', value: bobId });
+        expect(metadata.attributes).to.deep.include({ trait_type: 'grade', value: gradeUri });
+      });
+
+      it("Can't issue a certificate if already issued", async () => {
+        await expect(
+          knowledgeLayerCertificate.connect(alice).issue(aliceId, courseId, bobId, gradeUri),
+        ).to.be.revertedWith('Already issued certificate');
+      });
+    });
+
+    it("Can't get a certificate that doesn't exist", async () => {
+      await expect(knowledgeLayerCertificate.getCertificate(10)).to.be.revertedWith(
+        'Invalid certificate ID',
+      );
+      await expect(knowledgeLayerCertificate.tokenURI(10)).to.be.revertedWith(
+        'ERC721: invalid token ID',
+      );
+    });
+  });
+
+  describe('Token transfers', async () => {
+    it("Tokens can't be transferred", async () => {
+      await expect(
+        knowledgeLayerCertificate
+          .connect(bob)
+          .transferFrom(bob.address, carol.address, certificateId),
+      ).to.be.revertedWith('Token transfer is not allowed');
+
+      await expect(
+        knowledgeLayerCertificate.connect(bob)[
+          // eslint-disable-next-line no-unexpected-multiline
+          'safeTransferFrom(address,address,uint256)'
+        ](bob.address, carol.address, certificateId),
+      ).to.be.revertedWith('Token transfer is not allowed');
+    });
+  });
+});
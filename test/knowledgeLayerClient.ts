@@ -0,0 +1,285 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { BigNumber, ContractReceipt } from 'ethers';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import {
+  KnowledgeLayerCertificate,
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+  KnowledgeLayerReview,
+  SimpleERC20,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import { DiscountType, ETH_ADDRESS, MintStatus, TransactionStatus } from '../utils/constants';
+import { KnowledgeLayerAddresses, KnowledgeLayerClient } from '../sdk';
+
+describe('KnowledgeLayerClient', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow,
+    knowledgeLayerReview: KnowledgeLayerReview,
+    knowledgeLayerCertificate: KnowledgeLayerCertificate,
+    simpleERC20: SimpleERC20,
+    addresses: KnowledgeLayerAddresses,
+    aliceClient: KnowledgeLayerClient,
+    bobClient: KnowledgeLayerClient,
+    carolClient: KnowledgeLayerClient,
+    aliceId: BigNumber,
+    bobId: BigNumber,
+    courseId: BigNumber,
+    transactionId: BigNumber;
+
+  const platformId = 1;
+  const originFee = 200;
+  const buyFee = 300;
+  const postingFee = 1000;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+  const reviewDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMg';
+
+  before(async () => {
+    [deployer, alice, bob, carol] = await ethers.getSigners();
+    [
+      knowledgeLayerID,
+      knowledgeLayerPlatformID,
+      knowledgeLayerCourse,
+      knowledgeLayerEscrow,
+      knowledgeLayerReview,
+      knowledgeLayerCertificate,
+    ] = await deploy();
+
+    addresses = {
+      KnowledgeLayerID: knowledgeLayerID.address,
+      KnowledgeLayerPlatformID: knowledgeLayerPlatformID.address,
+      KnowledgeLayerCourse: knowledgeLayerCourse.address,
+      KnowledgeLayerEscrow: knowledgeLayerEscrow.address,
+      KnowledgeLayerReview: knowledgeLayerReview.address,
+      KnowledgeLayerCertificate: knowledgeLayerCertificate.address,
+    };
+    aliceClient = new KnowledgeLayerClient(alice, 'hardhat', addresses);
+    bobClient = new KnowledgeLayerClient(bob, 'hardhat', addresses);
+    carolClient = new KnowledgeLayerClient(carol, 'hardhat', addresses);
+
+    // Deploy SimpleERC20 and send tokens to bob
+    const SimpleERC20 = await ethers.getContractFactory('SimpleERC20');
+    simpleERC20 = await SimpleERC20.deploy();
+    await simpleERC20.deployed();
+    await knowledgeLayerCourse.connect(deployer).updateAllowedToken(simpleERC20.address, true);
+    await simpleERC20.transfer(bob.address, ethers.utils.parseEther('1'));
+
+    // Add carol to whitelist and mint platform ID
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+
+    // Update platform fees
+    await knowledgeLayerPlatformID.connect(carol).updateOriginFee(platformId, originFee);
+    await knowledgeLayerPlatformID.connect(carol).updateBuyFee(platformId, buyFee);
+    await knowledgeLayerPlatformID.connect(carol).updatePostingFee(platformId, postingFee);
+
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+  });
+
+  it('Mints profiles', async () => {
+    aliceId = await aliceClient.mintProfile(platformId, 'alice');
+    bobId = await bobClient.mintProfile(platformId, 'bob__');
+
+    expect(await knowledgeLayerID.ownerOf(aliceId)).to.equal(alice.address);
+    expect(await aliceClient.getProfileId()).to.equal(aliceId);
+    expect(await aliceClient.getProfileId(bob.address)).to.equal(bobId);
+  });
+
+  it('Creates a course paying the posting fee', async () => {
+    courseId = await aliceClient.createCourse(platformId, coursePrice, courseDataUri);
+
+    const course = await knowledgeLayerCourse.getCourse(courseId);
+    expect(course.ownerId).to.equal(aliceId);
+    expect(course.price).to.equal(coursePrice);
+    expect(course.token).to.equal(ETH_ADDRESS);
+    expect(await knowledgeLayerCourse.platformBalance(platformId)).to.equal(postingFee);
+  });
+
+  it('Gets the price quote of a course including fees', async () => {
+    const protocolFee = await knowledgeLayerEscrow.protocolFee();
+    const quote = await bobClient.getPriceQuote(courseId, platformId);
+    expect(quote.price).to.equal(coursePrice);
+    expect(quote.totalPrice).to.equal(
+      coursePrice.add(coursePrice.mul(originFee + buyFee + protocolFee).div(10000)),
+    );
+    expect(await bobClient.getTotalPrice(courseId, platformId)).to.equal(quote.totalPrice);
+  });
+
+  it('Buys a course paying the total price', async () => {
+    const totalPrice = await bobClient.getTotalPrice(courseId, platformId);
+    const balanceBefore = await ethers.provider.getBalance(knowledgeLayerEscrow.address);
+
+    transactionId = await bobClient.buyCourse(courseId, platformId);
+
+    const transaction = await knowledgeLayerEscrow.connect(bob).getTransaction(transactionId);
+    expect(transaction.sender).to.equal(bob.address);
+    expect(await knowledgeLayerCourse.balanceOf(bob.address, courseId)).to.equal(1);
+    expect(await ethers.provider.getBalance(knowledgeLayerEscrow.address)).to.equal(
+      balanceBefore.add(totalPrice),
+    );
+  });
+
+  it('Buys an ERC20 course approving the escrow first', async () => {
+    const tokenCourseId = await aliceClient.createCourse(
+      platformId,
+      coursePrice,
+      courseDataUri,
+      simpleERC20.address,
+    );
+    const totalPrice = await bobClient.getTotalPrice(tokenCourseId, platformId);
+
+    const tokenTransactionId = await bobClient.buyCourse(tokenCourseId, platformId);
+
+    const transaction = await knowledgeLayerEscrow.connect(bob).getTransaction(tokenTransactionId);
+    expect(transaction.token).to.equal(simpleERC20.address);
+    expect(await simpleERC20.balanceOf(knowledgeLayerEscrow.address)).to.equal(totalPrice);
+  });
+
+  it('Buys an ERC20 course with a permit instead of an approval', async () => {
+    const tokenCourseId = await aliceClient.createCourse(
+      platformId,
+      coursePrice,
+      courseDataUri,
+      simpleERC20.address,
+    );
+    const totalPrice = await bobClient.getTotalPrice(tokenCourseId, platformId);
+    const { timestamp } = await ethers.provider.getBlock('latest');
+    const escrowBalanceBefore = await simpleERC20.balanceOf(knowledgeLayerEscrow.address);
+
+    await bobClient.buyCourseWithPermit(tokenCourseId, platformId, timestamp + 3600);
+
+    expect(await knowledgeLayerCourse.balanceOf(bob.address, tokenCourseId)).to.equal(1);
+    expect(await simpleERC20.balanceOf(knowledgeLayerEscrow.address)).to.equal(
+      escrowBalanceBefore.add(totalPrice),
+    );
+  });
+
+  it('Creates and buys a bundle of courses', async () => {
+    const otherCourseId = await aliceClient.createCourse(platformId, coursePrice, courseDataUri);
+    const bundleId = await aliceClient.createBundle(
+      platformId,
+      [courseId, otherCourseId],
+      coursePrice,
+      courseDataUri,
+    );
+
+    const { totalPrice } = await bobClient.getBundlePriceQuote(bundleId, platformId);
+    const bundleTransactionId = await bobClient.buyBundle(bundleId, platformId);
+
+    const transaction = await knowledgeLayerEscrow.connect(bob).getTransaction(bundleTransactionId);
+    expect(transaction.bundleId).to.equal(bundleId);
+    expect(await knowledgeLayerCourse.balanceOf(bob.address, otherCourseId)).to.equal(1);
+    expect(await bobClient.hasAccess(otherCourseId)).to.be.true;
+    expect(totalPrice).to.be.gt(coursePrice);
+  });
+
+  it('Creates a coupon and buys a course with it', async () => {
+    const couponCourseId = await aliceClient.createCourse(platformId, coursePrice, courseDataUri);
+    const discount = coursePrice.div(2);
+    await aliceClient.createCoupon(
+      'HALF',
+      couponCourseId,
+      DiscountType.Fixed,
+      discount,
+      1,
+      (await time.latest()) + 1000,
+    );
+
+    const quote = await bobClient.getPriceQuote(couponCourseId, platformId, 'HALF');
+    expect(quote.price).to.equal(coursePrice.sub(discount));
+
+    const couponTransactionId = await bobClient.buyCourse(couponCourseId, platformId, 'HALF');
+
+    const transaction = await knowledgeLayerEscrow.connect(bob).getTransaction(couponTransactionId);
+    expect(transaction.amount).to.equal(coursePrice.sub(discount));
+  });
+
+  it('Gifts a course to another profile', async () => {
+    const carolId = await carolClient.mintProfile(platformId, 'carol');
+
+    const giftTransactionId = await bobClient.giftCourse(courseId, carolId, platformId);
+
+    const transaction = await knowledgeLayerEscrow.connect(bob).getTransaction(giftTransactionId);
+    expect(transaction.sender).to.equal(bob.address);
+    expect(transaction.beneficiaryId).to.equal(carolId);
+    expect(await carolClient.hasAccess(courseId)).to.be.true;
+  });
+
+  it('Lists the transactions of a buyer and of a platform', async () => {
+    const { ids: buyerIds, total } = await bobClient.getBuyerTransactionIds(0, 10);
+    expect(buyerIds).to.have.length(total.toNumber());
+
+    const { ids: platformIds } = await carolClient.getPlatformTransactionIds(platformId, 0, 10);
+    expect(platformIds).to.deep.equal(buyerIds);
+
+    const transaction = await carolClient.getTransaction(platformIds[0]);
+    expect(transaction.buyPlatformId).to.equal(platformId);
+  });
+
+  it('Releases the payment to the balance of the teacher', async () => {
+    expect(await aliceClient.getTransactionStatus(transactionId)).to.equal(
+      TransactionStatus.Pending,
+    );
+    await aliceClient.release(transactionId);
+
+    expect(await aliceClient.getBalance()).to.equal(coursePrice);
+    expect(await aliceClient.getTransactionStatus(transactionId)).to.equal(
+      TransactionStatus.Released,
+    );
+  });
+
+  it('Withdraws the balance', async () => {
+    const balanceBefore = await alice.getBalance();
+    const receipt = await aliceClient.withdraw();
+
+    expect(await alice.getBalance()).to.equal(
+      balanceBefore.add(coursePrice).sub(getGasCost(receipt)),
+    );
+    expect(await aliceClient.getBalance()).to.equal(0);
+  });
+
+  it('Reviews a bought course', async () => {
+    const reviewId = await bobClient.review(courseId, reviewDataUri, 5);
+
+    const review = await knowledgeLayerReview.getReview(reviewId);
+    expect(review.ownerId).to.equal(aliceId);
+    expect(review.courseId).to.equal(courseId);
+  });
+
+  it('Claims the platform fees', async () => {
+    const fees = await knowledgeLayerEscrow.platformBalance(platformId, ETH_ADDRESS);
+    const balanceBefore = await carol.getBalance();
+
+    const claimReceipt = await carolClient.claim(platformId);
+    const claimPostingFeesReceipt = await carolClient.claimPostingFees(platformId);
+
+    expect(await carol.getBalance()).to.equal(
+      balanceBefore
+        .add(fees)
+        .add(postingFee * 5)
+        .sub(getGasCost(claimReceipt))
+        .sub(getGasCost(claimPostingFeesReceipt)),
+    );
+  });
+
+  it("Can't send transactions without a signer", async () => {
+    const readOnlyClient = new KnowledgeLayerClient(ethers.provider, 'hardhat', addresses);
+    await expect(readOnlyClient.release(transactionId)).to.be.rejectedWith(
+      'A signer is required for this operation',
+    );
+  });
+
+  const getGasCost = (receipt: ContractReceipt): BigNumber =>
+    receipt.gasUsed.mul(receipt.effectiveGasPrice);
+});
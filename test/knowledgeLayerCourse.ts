@@ -1,6 +1,6 @@
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { expect } from 'chai';
-import { BigNumber } from 'ethers';
+import { BigNumber, ContractTransaction } from 'ethers';
 import { ethers } from 'hardhat';
 import {
   KnowledgeLayerCourse,
@@ -8,7 +8,7 @@ import {
   KnowledgeLayerPlatformID,
 } from '../typechain-types';
 import deploy from '../utils/deploy';
-import { ETH_ADDRESS, MintStatus } from '../utils/constants';
+import { CourseStatus, ETH_ADDRESS, MintStatus } from '../utils/constants';
 
 describe('KnowledgeLayerCourse', () => {
   let deployer: SignerWithAddress,
@@ -49,7 +49,17 @@ describe('KnowledgeLayerCourse', () => {
       // Alice creates a course
       const tx = await knowledgeLayerCourse
         .connect(alice)
-        .createCourse(aliceId, carolPlatformId, coursePrice, ETH_ADDRESS, courseDataUri);
+        .createCourse(
+          aliceId,
+          carolPlatformId,
+          coursePrice,
+          ETH_ADDRESS,
+          courseDataUri,
+          0,
+          CourseStatus.Published,
+          0,
+          '0x',
+        );
       await tx.wait();
     });
 
@@ -59,6 +69,109 @@ describe('KnowledgeLayerCourse', () => {
       expect(course.platformId).to.equal(carolPlatformId);
       expect(course.price).to.equal(coursePrice);
       expect(course.dataUri).to.equal(courseDataUri);
+      expect(course.accessDuration).to.equal(0);
+    });
+  });
+
+  describe('Posting fee', async () => {
+    const postingFee = 1000;
+
+    before(async () => {
+      // Carol sets a posting fee on her platform
+      await knowledgeLayerPlatformID.connect(carol).updatePostingFee(carolPlatformId, postingFee);
+    });
+
+    it("Can't create a course on a platform that doesn't exist", async () => {
+      const tx = knowledgeLayerCourse
+        .connect(alice)
+        .createCourse(
+          aliceId,
+          10,
+          coursePrice,
+          ETH_ADDRESS,
+          courseDataUri,
+          0,
+          CourseStatus.Published,
+          0,
+          '0x',
+        );
+      await expect(tx).to.be.revertedWith('Invalid platform ID');
+    });
+
+    it("Can't create a course without paying the posting fee", async () => {
+      const tx = knowledgeLayerCourse
+        .connect(alice)
+        .createCourse(
+          aliceId,
+          carolPlatformId,
+          coursePrice,
+          ETH_ADDRESS,
+          courseDataUri,
+          0,
+          CourseStatus.Published,
+          0,
+          '0x',
+          {
+            value: postingFee - 1,
+          },
+        );
+      await expect(tx).to.be.revertedWith('Non-matching funds');
+    });
+
+    describe('Create a course paying the posting fee', async () => {
+      let tx: ContractTransaction;
+
+      before(async () => {
+        tx = await knowledgeLayerCourse
+          .connect(alice)
+          .createCourse(
+            aliceId,
+            carolPlatformId,
+            coursePrice,
+            ETH_ADDRESS,
+            courseDataUri,
+            0,
+            CourseStatus.Published,
+            0,
+            '0x',
+            {
+              value: postingFee,
+            },
+          );
+        await tx.wait();
+      });
+
+      it('Credits the posting fee to the platform balance', async () => {
+        await expect(tx).to.changeEtherBalances(
+          [alice, knowledgeLayerCourse],
+          [-postingFee, postingFee],
+        );
+        await expect(tx)
+          .to.emit(knowledgeLayerCourse, 'PostingFeeReleased')
+          .withArgs(carolPlatformId, 2, postingFee);
+
+        const balance = await knowledgeLayerCourse.platformBalance(carolPlatformId);
+        expect(balance).to.equal(postingFee);
+      });
+
+      it('Platform owner can claim the posting fees', async () => {
+        const tx = await knowledgeLayerCourse.connect(carol).claim(carolPlatformId);
+        await expect(tx).to.changeEtherBalances(
+          [carol, knowledgeLayerCourse],
+          [postingFee, -postingFee],
+        );
+        await expect(tx)
+          .to.emit(knowledgeLayerCourse, 'PostingFeesClaimed')
+          .withArgs(carolPlatformId, postingFee);
+
+        const balance = await knowledgeLayerCourse.platformBalance(carolPlatformId);
+        expect(balance).to.equal(0);
+      });
+
+      it("Can't claim if there is nothing to claim", async () => {
+        const tx = knowledgeLayerCourse.connect(carol).claim(carolPlatformId);
+        await expect(tx).to.be.revertedWith('Nothing to claim');
+      });
     });
   });
 
@@ -93,7 +206,7 @@ describe('KnowledgeLayerCourse', () => {
       // Alice updates her course price
       const tx = await knowledgeLayerCourse
         .connect(alice)
-        .updateCourse(aliceId, courseId, newPrice, ETH_ADDRESS, newDataUri);
+        .updateCourse(aliceId, courseId, newPrice, ETH_ADDRESS, newDataUri, 0, '0x');
       await tx.wait();
     });
 
@@ -106,7 +219,7 @@ describe('KnowledgeLayerCourse', () => {
     it('Only the course owner can update the course price', async () => {
       const tx = knowledgeLayerCourse
         .connect(bob)
-        .updateCourse(bobId, courseId, newPrice, ETH_ADDRESS, newDataUri);
+        .updateCourse(bobId, courseId, newPrice, ETH_ADDRESS, newDataUri, 0, '0x');
       await expect(tx).to.be.revertedWith('Not the owner');
     });
   });
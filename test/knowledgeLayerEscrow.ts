@@ -2,6 +2,7 @@ import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { expect } from 'chai';
 import { BigNumber, ContractTransaction, Wallet } from 'ethers';
 import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
 import {
   ERC20,
   KnowledgeLayerCourse,
@@ -10,7 +11,15 @@ import {
   KnowledgeLayerPlatformID,
 } from '../typechain-types';
 import deploy from '../utils/deploy';
-import { FEE_DIVIDER, MintStatus, PROTOCOL_INDEX, ETH_ADDRESS } from '../utils/constants';
+import {
+  CourseStatus,
+  FEE_DIVIDER,
+  MintStatus,
+  PROTOCOL_INDEX,
+  ETH_ADDRESS,
+  PaymentType,
+  TransactionStatus,
+} from '../utils/constants';
 
 const escrowTests = (isEth: boolean) => {
   let deployer: SignerWithAddress,
@@ -33,6 +42,8 @@ const escrowTests = (isEth: boolean) => {
   const buyPlatformId = 2;
   const originFee = 200;
   const buyFee = 300;
+  const refundWindow = 7 * 24 * 60 * 60;
+  const holdPeriod = 14 * 24 * 60 * 60;
   const courseId = 1;
   const coursePrice = ethers.utils.parseEther('0.01');
   const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
@@ -49,6 +60,7 @@ const escrowTests = (isEth: boolean) => {
       simpleERC20 = await SimpleERC20.deploy();
       simpleERC20.deployed();
       tokenAddress = simpleERC20.address;
+      await knowledgeLayerCourse.connect(deployer).updateAllowedToken(tokenAddress, true);
     } else {
       tokenAddress = ETH_ADDRESS;
     }
@@ -62,6 +74,7 @@ const escrowTests = (isEth: boolean) => {
     // Update platform fees
     await knowledgeLayerPlatformID.connect(carol).updateOriginFee(originPlatformId, originFee);
     await knowledgeLayerPlatformID.connect(dave).updateBuyFee(buyPlatformId, buyFee);
+    await knowledgeLayerPlatformID.connect(dave).updateRefundWindow(buyPlatformId, refundWindow);
 
     // Mint KnowledgeLayer IDs
     await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
@@ -72,7 +85,17 @@ const escrowTests = (isEth: boolean) => {
     // Alice creates a course
     await knowledgeLayerCourse
       .connect(alice)
-      .createCourse(aliceId, originPlatformId, coursePrice, tokenAddress, courseDataUri);
+      .createCourse(
+        aliceId,
+        originPlatformId,
+        coursePrice,
+        tokenAddress,
+        courseDataUri,
+        0,
+        CourseStatus.Published,
+        0,
+        '0x',
+      );
 
     protocolFee = await knowledgeLayerEscrow.protocolFee();
     courseTotalPrice = coursePrice.add(
@@ -80,28 +103,63 @@ const escrowTests = (isEth: boolean) => {
     );
   });
 
+  describe('Price quote', async () => {
+    it('Returns the price of the course with the breakdown of the fees', async () => {
+      const quote = await knowledgeLayerEscrow.getPriceQuote(courseId, buyPlatformId, '');
+      expect(quote.token).to.equal(tokenAddress);
+      expect(quote.price).to.equal(coursePrice);
+      expect(quote.protocolFee).to.equal(coursePrice.mul(protocolFee).div(FEE_DIVIDER));
+      expect(quote.originFee).to.equal(coursePrice.mul(originFee).div(FEE_DIVIDER));
+      expect(quote.buyFee).to.equal(coursePrice.mul(buyFee).div(FEE_DIVIDER));
+      expect(quote.totalPrice).to.equal(courseTotalPrice);
+    });
+
+    it('Applies the buy fee of the platform where the course is bought', async () => {
+      const quote = await knowledgeLayerEscrow.getPriceQuote(courseId, originPlatformId, '');
+      expect(quote.buyFee).to.equal(0);
+      expect(quote.totalPrice).to.equal(
+        coursePrice.add(coursePrice.mul(originFee + protocolFee).div(FEE_DIVIDER)),
+      );
+    });
+
+    it("Can't get a quote for an invalid course or platform", async () => {
+      await expect(knowledgeLayerEscrow.getPriceQuote(10, buyPlatformId, '')).to.be.revertedWith(
+        'Invalid course ID',
+      );
+      await expect(knowledgeLayerEscrow.getPriceQuote(courseId, 10, '')).to.be.revertedWith(
+        'Invalid platform ID',
+      );
+    });
+  });
+
   describe('Buy course', async () => {
     it("Can't buy course if not profile owner", async () => {
       await expect(
-        knowledgeLayerEscrow.connect(carol).createTransaction(bobId, courseId, buyPlatformId, {
-          value: isEth ? courseTotalPrice : 0,
-        }),
+        knowledgeLayerEscrow
+          .connect(carol)
+          .createTransaction(bobId, courseId, buyPlatformId, 0, '', 0, '0x', {
+            value: isEth ? courseTotalPrice : 0,
+          }),
       ).to.be.revertedWith('Not the owner');
     });
 
     it("Can't buy course if not paying enough", async () => {
       if (isEth) {
         await expect(
-          knowledgeLayerEscrow.connect(bob).createTransaction(bobId, courseId, buyPlatformId, {
-            value: courseTotalPrice.sub(1),
-          }),
+          knowledgeLayerEscrow
+            .connect(bob)
+            .createTransaction(bobId, courseId, buyPlatformId, 0, '', 0, '0x', {
+              value: courseTotalPrice.sub(1),
+            }),
         ).to.be.revertedWith('Non-matching funds');
       } else {
         // Create transaction without approving tokens
         await expect(
-          knowledgeLayerEscrow.connect(bob).createTransaction(bobId, courseId, buyPlatformId, {
-            value: 0,
-          }),
+          knowledgeLayerEscrow
+            .connect(bob)
+            .createTransaction(bobId, courseId, buyPlatformId, 0, '', 0, '0x', {
+              value: 0,
+            }),
         ).to.be.revertedWith('ERC20: insufficient allowance');
       }
     });
@@ -122,7 +180,7 @@ const escrowTests = (isEth: boolean) => {
         // Bob buys Alice's course
         tx = await knowledgeLayerEscrow
           .connect(bob)
-          .createTransaction(bobId, courseId, buyPlatformId, {
+          .createTransaction(bobId, courseId, buyPlatformId, 0, '', 0, '0x', {
             value: isEth ? courseTotalPrice : 0,
           });
       });
@@ -138,6 +196,8 @@ const escrowTests = (isEth: boolean) => {
         expect(transaction.protocolFee).to.equal(protocolFee);
         expect(transaction.originFee).to.equal(originFee);
         expect(transaction.buyFee).to.equal(buyFee);
+        expect(transaction.refundWindow).to.equal(refundWindow);
+        expect(transaction.status).to.equal(TransactionStatus.Pending);
       });
 
       it('Mints a course token to the buyer', async () => {
@@ -190,28 +250,33 @@ const escrowTests = (isEth: boolean) => {
       ).to.be.revertedWith('Not the receiver');
     });
 
+    it("Can't release funds within the refund window", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId),
+      ).to.be.revertedWith('Refund window not expired');
+      await expect(
+        knowledgeLayerEscrow.connect(alice).releaseMany(aliceId, [transactionId]),
+      ).to.be.revertedWith('Refund window not expired');
+    });
+
     describe('Receiver can release funds', async () => {
       let tx: ContractTransaction;
 
       before(async () => {
-        // Alice claims the funds
+        await time.increase(refundWindow + 1);
+
+        // Alice claims the funds once the refund window has expired
         tx = await knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId);
         await tx.wait();
       });
 
-      it('Sends funds to Alice', async () => {
-        if (isEth) {
-          await expect(tx).to.changeEtherBalances(
-            [knowledgeLayerEscrow, alice],
-            [coursePrice.mul(-1), coursePrice],
-          );
-        } else {
-          await expect(tx).to.changeTokenBalances(
-            simpleERC20,
-            [knowledgeLayerEscrow, alice],
-            [coursePrice.mul(-1), coursePrice],
-          );
-        }
+      it("Credits funds to Alice's balance", async () => {
+        await expect(tx)
+          .to.emit(knowledgeLayerEscrow, 'BalanceCredited')
+          .withArgs(aliceId, tokenAddress, coursePrice);
+        expect(await knowledgeLayerEscrow.profileBalance(aliceId, tokenAddress)).to.equal(
+          coursePrice,
+        );
       });
 
       it('Updates platforms fees balance', async () => {
@@ -239,6 +304,261 @@ const escrowTests = (isEth: boolean) => {
         );
         expect(protocolBalance).to.equal(protocolFeeAmount);
       });
+
+      it("Can't release funds twice", async () => {
+        await expect(
+          knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId),
+        ).to.be.revertedWith('Transaction already settled');
+      });
+
+      it("Can't reimburse buyer after funds are released", async () => {
+        await expect(
+          knowledgeLayerEscrow.connect(bob).reimburse(bobId, transactionId),
+        ).to.be.revertedWith('Transaction already settled');
+      });
+    });
+  });
+
+  describe('Reimburse buyer', async () => {
+    const buyCourse = async (): Promise<number> => {
+      if (!isEth) {
+        await simpleERC20.connect(bob).approve(knowledgeLayerEscrow.address, courseTotalPrice);
+      }
+
+      const tx = await knowledgeLayerEscrow
+        .connect(bob)
+        .createTransaction(bobId, courseId, buyPlatformId, 0, '', 0, '0x', {
+          value: isEth ? courseTotalPrice : 0,
+        });
+      const receipt = await tx.wait();
+
+      return receipt.events?.find((e) => e.event === 'TransactionCreated')?.args?.id;
+    };
+
+    describe('Within the refund window', async () => {
+      let tx: ContractTransaction;
+      let reimbursedTransactionId: number;
+      let courseBalance: BigNumber;
+
+      before(async () => {
+        reimbursedTransactionId = await buyCourse();
+        courseBalance = await knowledgeLayerCourse.balanceOf(bob.address, courseId);
+      });
+
+      it("Can't reimburse if not transaction sender", async () => {
+        await expect(
+          knowledgeLayerEscrow.connect(alice).reimburse(aliceId, reimbursedTransactionId),
+        ).to.be.revertedWith('Not the sender');
+      });
+
+      it('Sender can be reimbursed', async () => {
+        tx = await knowledgeLayerEscrow.connect(bob).reimburse(bobId, reimbursedTransactionId);
+        await expect(tx)
+          .to.emit(knowledgeLayerEscrow, 'Payment')
+          .withArgs(reimbursedTransactionId, PaymentType.Reimburse);
+      });
+
+      it("Credits funds and fees to Bob's balance", async () => {
+        await expect(tx)
+          .to.emit(knowledgeLayerEscrow, 'BalanceCredited')
+          .withArgs(bobId, tokenAddress, courseTotalPrice);
+        expect(await knowledgeLayerEscrow.profileBalance(bobId, tokenAddress)).to.equal(
+          courseTotalPrice,
+        );
+      });
+
+      it('Revokes the course token of the buyer', async () => {
+        const balance = await knowledgeLayerCourse.balanceOf(bob.address, courseId);
+        expect(balance).to.equal(courseBalance.sub(1));
+      });
+
+      it("Can't release funds after buyer is reimbursed", async () => {
+        await expect(
+          knowledgeLayerEscrow.connect(alice).release(aliceId, reimbursedTransactionId),
+        ).to.be.revertedWith('Transaction already settled');
+      });
+    });
+
+    describe('After the refund window', async () => {
+      let expiredTransactionId: number;
+
+      before(async () => {
+        expiredTransactionId = await buyCourse();
+        await time.increase(refundWindow + 1);
+      });
+
+      it("Can't reimburse once the refund window has expired", async () => {
+        await expect(
+          knowledgeLayerEscrow.connect(bob).reimburse(bobId, expiredTransactionId),
+        ).to.be.revertedWith('Refund window expired');
+      });
+
+      after(async () => {
+        await knowledgeLayerEscrow.connect(alice).release(aliceId, expiredTransactionId);
+      });
+    });
+  });
+
+  describe('Release funds after hold period', async () => {
+    let heldTransactionId: number;
+
+    before(async () => {
+      await knowledgeLayerPlatformID.connect(dave).updateHoldPeriod(buyPlatformId, holdPeriod);
+
+      if (!isEth) {
+        await simpleERC20.connect(bob).approve(knowledgeLayerEscrow.address, courseTotalPrice);
+      }
+
+      const tx = await knowledgeLayerEscrow
+        .connect(bob)
+        .createTransaction(bobId, courseId, buyPlatformId, 0, '', 0, '0x', {
+          value: isEth ? courseTotalPrice : 0,
+        });
+      const receipt = await tx.wait();
+      heldTransactionId = receipt.events?.find((e) => e.event === 'TransactionCreated')?.args?.id;
+    });
+
+    it('Records the hold period in the transaction', async () => {
+      const transaction = await knowledgeLayerEscrow
+        .connect(alice)
+        .getTransaction(heldTransactionId);
+      expect(transaction.holdPeriod).to.equal(holdPeriod);
+    });
+
+    it("Receiver can't release funds before the hold period has elapsed", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(alice).release(aliceId, heldTransactionId),
+      ).to.be.revertedWith('Hold period not elapsed');
+    });
+
+    it("Keeper can't release funds before the hold period has elapsed", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(carol).autoRelease(heldTransactionId),
+      ).to.be.revertedWith('Hold period not elapsed');
+    });
+
+    describe('Keeper can release funds after the hold period', async () => {
+      let tx: ContractTransaction;
+
+      before(async () => {
+        await time.increase(holdPeriod);
+
+        // Carol triggers the release on behalf of Alice
+        tx = await knowledgeLayerEscrow.connect(carol).autoRelease(heldTransactionId);
+        await tx.wait();
+      });
+
+      it("Credits funds to Alice's balance", async () => {
+        await expect(tx)
+          .to.emit(knowledgeLayerEscrow, 'Payment')
+          .withArgs(heldTransactionId, PaymentType.Release);
+        await expect(tx)
+          .to.emit(knowledgeLayerEscrow, 'BalanceCredited')
+          .withArgs(aliceId, tokenAddress, coursePrice);
+      });
+
+      it("Can't release funds twice", async () => {
+        await expect(
+          knowledgeLayerEscrow.connect(carol).autoRelease(heldTransactionId),
+        ).to.be.revertedWith('Transaction already settled');
+      });
+    });
+
+    describe('Hold period shorter than the refund window', async () => {
+      const shortHoldPeriod = 24 * 60 * 60;
+      let shortHeldTransactionId: number;
+
+      before(async () => {
+        await knowledgeLayerPlatformID
+          .connect(dave)
+          .updateHoldPeriod(buyPlatformId, shortHoldPeriod);
+
+        if (!isEth) {
+          await simpleERC20.connect(bob).approve(knowledgeLayerEscrow.address, courseTotalPrice);
+        }
+
+        const tx = await knowledgeLayerEscrow
+          .connect(bob)
+          .createTransaction(bobId, courseId, buyPlatformId, 0, '', 0, '0x', {
+            value: isEth ? courseTotalPrice : 0,
+          });
+        const receipt = await tx.wait();
+        shortHeldTransactionId = receipt.events?.find((e) => e.event === 'TransactionCreated')?.args
+          ?.id;
+
+        await time.increase(shortHoldPeriod);
+      });
+
+      it("Keeper can't release funds before the refund window has expired", async () => {
+        await expect(
+          knowledgeLayerEscrow.connect(carol).autoRelease(shortHeldTransactionId),
+        ).to.be.revertedWith('Refund window not expired');
+      });
+
+      it('Buyer can still be reimbursed once the hold period has elapsed', async () => {
+        await expect(knowledgeLayerEscrow.connect(bob).reimburse(bobId, shortHeldTransactionId))
+          .to.emit(knowledgeLayerEscrow, 'Payment')
+          .withArgs(shortHeldTransactionId, PaymentType.Reimburse);
+      });
+    });
+
+    after(async () => {
+      await knowledgeLayerPlatformID.connect(dave).updateHoldPeriod(buyPlatformId, 0);
+    });
+  });
+
+  describe('Withdraw balance', async () => {
+    it("Can't withdraw the balance of another profile", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(bob).withdraw(aliceId, tokenAddress),
+      ).to.be.revertedWith('Not owner or delegate');
+    });
+
+    it('Buyer can withdraw their refunds', async () => {
+      const balance = await knowledgeLayerEscrow.profileBalance(bobId, tokenAddress);
+      const tx = knowledgeLayerEscrow.connect(bob).withdraw(bobId, tokenAddress);
+
+      if (isEth) {
+        await expect(tx).to.changeEtherBalances(
+          [knowledgeLayerEscrow, bob],
+          [balance.mul(-1), balance],
+        );
+      } else {
+        await expect(tx).to.changeTokenBalances(
+          simpleERC20,
+          [knowledgeLayerEscrow, bob],
+          [balance.mul(-1), balance],
+        );
+      }
+      expect(await knowledgeLayerEscrow.profileBalance(bobId, tokenAddress)).to.equal(0);
+    });
+
+    it("Can't withdraw an empty balance", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(bob).withdraw(bobId, tokenAddress),
+      ).to.be.revertedWith('Nothing to withdraw');
+    });
+
+    it('Teacher can withdraw their balance', async () => {
+      const balance = await knowledgeLayerEscrow.profileBalance(aliceId, tokenAddress);
+      const tx = knowledgeLayerEscrow.connect(alice).withdraw(aliceId, tokenAddress);
+
+      if (isEth) {
+        await expect(tx).to.changeEtherBalances(
+          [knowledgeLayerEscrow, alice],
+          [balance.mul(-1), balance],
+        );
+      } else {
+        await expect(tx).to.changeTokenBalances(
+          simpleERC20,
+          [knowledgeLayerEscrow, alice],
+          [balance.mul(-1), balance],
+        );
+      }
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'BalanceWithdrawn')
+        .withArgs(aliceId, tokenAddress, balance);
+      expect(await knowledgeLayerEscrow.profileBalance(aliceId, tokenAddress)).to.equal(0);
     });
   });
 
@@ -279,6 +599,12 @@ const escrowTests = (isEth: boolean) => {
         }
       });
 
+      it('Emits the claimed amount', async () => {
+        await expect(tx)
+          .to.emit(knowledgeLayerEscrow, 'FeesClaimed')
+          .withArgs(originPlatformId, [tokenAddress], [originPlatformBalance]);
+      });
+
       it('Updates the platform balance', async () => {
         const originPlatformBalance = await knowledgeLayerEscrow.platformBalance(
           originPlatformId,
@@ -311,6 +311,125 @@ describe('KnowledgeLayerPlatformID', () => {
     });
   });
 
+  describe('Update refund window', async () => {
+    const newRefundWindow = 3 * 24 * 60 * 60;
+
+    it("Can't update refund window if not platform owner", async () => {
+      const tx = knowledgeLayerPlatformID
+        .connect(bob)
+        .updateRefundWindow(alicePlatformId, newRefundWindow);
+      await expect(tx).to.be.revertedWith('Not the owner');
+    });
+
+    it('Can update refund window if platform owner', async () => {
+      const tx = await knowledgeLayerPlatformID
+        .connect(alice)
+        .updateRefundWindow(alicePlatformId, newRefundWindow);
+      await expect(tx)
+        .to.emit(knowledgeLayerPlatformID, 'RefundWindowUpdated')
+        .withArgs(alicePlatformId, newRefundWindow);
+
+      const refundWindow = await knowledgeLayerPlatformID.getRefundWindow(alicePlatformId);
+      expect(refundWindow).to.equal(newRefundWindow);
+    });
+  });
+
+  describe('Update hold period', async () => {
+    const newHoldPeriod = 14 * 24 * 60 * 60;
+
+    it("Can't update hold period if not platform owner", async () => {
+      const tx = knowledgeLayerPlatformID
+        .connect(bob)
+        .updateHoldPeriod(alicePlatformId, newHoldPeriod);
+      await expect(tx).to.be.revertedWith('Not the owner');
+    });
+
+    it('Can update hold period if platform owner', async () => {
+      const tx = await knowledgeLayerPlatformID
+        .connect(alice)
+        .updateHoldPeriod(alicePlatformId, newHoldPeriod);
+      await expect(tx)
+        .to.emit(knowledgeLayerPlatformID, 'HoldPeriodUpdated')
+        .withArgs(alicePlatformId, newHoldPeriod);
+
+      const holdPeriod = await knowledgeLayerPlatformID.getHoldPeriod(alicePlatformId);
+      expect(holdPeriod).to.equal(newHoldPeriod);
+    });
+  });
+
+  describe('Update arbitrator', async () => {
+    const arbitratorExtraData = '0x1234';
+
+    it("Can't update arbitrator if not platform owner", async () => {
+      const tx = knowledgeLayerPlatformID
+        .connect(bob)
+        .updateArbitrator(alicePlatformId, carol.address, arbitratorExtraData);
+      await expect(tx).to.be.revertedWith('Not the owner');
+    });
+
+    it('Can update arbitrator if platform owner', async () => {
+      const tx = await knowledgeLayerPlatformID
+        .connect(alice)
+        .updateArbitrator(alicePlatformId, carol.address, arbitratorExtraData);
+      await expect(tx)
+        .to.emit(knowledgeLayerPlatformID, 'ArbitratorUpdated')
+        .withArgs(alicePlatformId, carol.address, arbitratorExtraData);
+
+      const [arbitrator, extraData] = await knowledgeLayerPlatformID.getArbitrator(alicePlatformId);
+      expect(arbitrator).to.equal(carol.address);
+      expect(extraData).to.equal(arbitratorExtraData);
+    });
+  });
+
+  describe('Update arbitration fee timeout', async () => {
+    let minArbitrationFeeTimeout: BigNumber;
+
+    before(async () => {
+      minArbitrationFeeTimeout = await knowledgeLayerPlatformID.minArbitrationFeeTimeout();
+    });
+
+    it('Platforms start with the minimum arbitration fee timeout', async () => {
+      const platform = await knowledgeLayerPlatformID.getPlatform(alicePlatformId);
+      expect(platform.arbitrationFeeTimeout).to.equal(minArbitrationFeeTimeout);
+    });
+
+    it("Can't update arbitration fee timeout if not platform owner", async () => {
+      const tx = knowledgeLayerPlatformID
+        .connect(bob)
+        .updateArbitrationFeeTimeout(alicePlatformId, minArbitrationFeeTimeout.mul(2));
+      await expect(tx).to.be.revertedWith('Not the owner');
+    });
+
+    it("Can't update arbitration fee timeout below the minimum", async () => {
+      const tx = knowledgeLayerPlatformID
+        .connect(alice)
+        .updateArbitrationFeeTimeout(alicePlatformId, minArbitrationFeeTimeout.sub(1));
+      await expect(tx).to.be.revertedWith('The timeout must be greater than the minimum');
+    });
+
+    it('Can update arbitration fee timeout if platform owner', async () => {
+      await knowledgeLayerPlatformID
+        .connect(alice)
+        .updateArbitrationFeeTimeout(alicePlatformId, minArbitrationFeeTimeout.mul(2));
+      const platform = await knowledgeLayerPlatformID.getPlatform(alicePlatformId);
+      expect(platform.arbitrationFeeTimeout).to.equal(minArbitrationFeeTimeout.mul(2));
+    });
+
+    it('Only the owner can update the minimum arbitration fee timeout', async () => {
+      const tx = knowledgeLayerPlatformID
+        .connect(alice)
+        .updateMinArbitrationFeeTimeout(minArbitrationFeeTimeout.div(2));
+      await expect(tx).to.be.reverted;
+
+      await knowledgeLayerPlatformID
+        .connect(deployer)
+        .updateMinArbitrationFeeTimeout(minArbitrationFeeTimeout.div(2));
+      expect(await knowledgeLayerPlatformID.minArbitrationFeeTimeout()).to.equal(
+        minArbitrationFeeTimeout.div(2),
+      );
+    });
+  });
+
   describe('Token transfers', async () => {
     it("Tokens can't be transferred", async () => {
       await expect(
@@ -10,7 +10,7 @@ import {
   KnowledgeLayerReview,
 } from '../typechain-types';
 import deploy from '../utils/deploy';
-import { ETH_ADDRESS, FEE_DIVIDER, MintStatus } from '../utils/constants';
+import { CourseStatus, ETH_ADDRESS, FEE_DIVIDER, MintStatus } from '../utils/constants';
 
 describe('KnowledgeLayerReview', () => {
   let deployer: SignerWithAddress,
@@ -56,7 +56,17 @@ describe('KnowledgeLayerReview', () => {
     // Alice creates a course
     await knowledgeLayerCourse
       .connect(alice)
-      .createCourse(aliceId, carolPlatformId, coursePrice, ETH_ADDRESS, courseDataUri);
+      .createCourse(
+        aliceId,
+        carolPlatformId,
+        coursePrice,
+        ETH_ADDRESS,
+        courseDataUri,
+        0,
+        CourseStatus.Published,
+        0,
+        '0x',
+      );
 
     // Bob buys the course
     const course = await knowledgeLayerCourse.getCourse(courseId);
@@ -66,9 +76,11 @@ describe('KnowledgeLayerReview', () => {
     const totalPrice = coursePrice.add(
       coursePrice.mul(originFee + buyFee + protocolFee).div(FEE_DIVIDER),
     );
-    await knowledgeLayerEscrow.connect(bob).createTransaction(bobId, courseId, carolPlatformId, {
-      value: totalPrice,
-    });
+    await knowledgeLayerEscrow
+      .connect(bob)
+      .createTransaction(bobId, courseId, carolPlatformId, 0, '', 0, '0x', {
+        value: totalPrice,
+      });
   });
 
   describe('Create review', async () => {
@@ -0,0 +1,253 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { Wallet } from 'ethers';
+import { ethers } from 'hardhat';
+import {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerForwarder,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+  KnowledgeLayerReview,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import { CourseStatus, ETH_ADDRESS, MintStatus } from '../utils/constants';
+import { relayMetaTransaction, signMetaTransaction } from '../utils/metaTransaction';
+
+describe('Meta-transactions', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    carol: SignerWithAddress,
+    relayer: SignerWithAddress,
+    student: Wallet,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow,
+    knowledgeLayerReview: KnowledgeLayerReview,
+    knowledgeLayerForwarder: KnowledgeLayerForwarder;
+
+  const aliceId = 1;
+  const studentId = 2;
+  const platformId = 1;
+  const courseId = 1;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+  const reviewDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMg';
+
+  before(async () => {
+    [deployer, alice, carol, relayer] = await ethers.getSigners();
+    [
+      knowledgeLayerID,
+      knowledgeLayerPlatformID,
+      knowledgeLayerCourse,
+      knowledgeLayerEscrow,
+      knowledgeLayerReview,
+    ] = await deploy();
+
+    // Deploy the forwarder
+    const KnowledgeLayerForwarder = await ethers.getContractFactory('KnowledgeLayerForwarder');
+    knowledgeLayerForwarder = await KnowledgeLayerForwarder.deploy();
+    await knowledgeLayerForwarder.deployed();
+
+    // Student without any ETH
+    student = Wallet.createRandom().connect(ethers.provider);
+
+    // Add carol to whitelist and mint platform ID
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+
+    // Alice mints a KnowledgeLayer ID and creates a course
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(platformId, 'alice');
+    await knowledgeLayerCourse
+      .connect(alice)
+      .createCourse(
+        aliceId,
+        platformId,
+        coursePrice,
+        ETH_ADDRESS,
+        courseDataUri,
+        0,
+        CourseStatus.Published,
+        0,
+        '0x',
+      );
+  });
+
+  describe('Trusted forwarder', async () => {
+    it('Only the owner can set the trusted forwarder', async () => {
+      const forwarder = knowledgeLayerForwarder.address;
+      await expect(knowledgeLayerID.connect(alice).setTrustedForwarder(forwarder)).to.be.reverted;
+      await expect(knowledgeLayerCourse.connect(alice).setTrustedForwarder(forwarder)).to.be
+        .reverted;
+      await expect(knowledgeLayerEscrow.connect(alice).setTrustedForwarder(forwarder)).to.be
+        .reverted;
+      await expect(knowledgeLayerReview.connect(alice).setTrustedForwarder(forwarder)).to.be
+        .reverted;
+    });
+
+    it('Owner can set the trusted forwarder', async () => {
+      const forwarder = knowledgeLayerForwarder.address;
+      for (const contract of [
+        knowledgeLayerID,
+        knowledgeLayerCourse,
+        knowledgeLayerEscrow,
+        knowledgeLayerReview,
+      ]) {
+        expect(await contract.isTrustedForwarder(forwarder)).to.be.false;
+        await expect(contract.connect(deployer).setTrustedForwarder(forwarder))
+          .to.emit(contract, 'TrustedForwarderUpdated')
+          .withArgs(forwarder);
+        expect(await contract.getTrustedForwarder()).to.equal(forwarder);
+        expect(await contract.isTrustedForwarder(forwarder)).to.be.true;
+      }
+    });
+  });
+
+  describe('Relayed calls', async () => {
+    it('Student can mint a profile without holding ETH', async () => {
+      const metaTransaction = await signMetaTransaction(student, knowledgeLayerForwarder, {
+        to: knowledgeLayerID.address,
+        data: knowledgeLayerID.interface.encodeFunctionData('mint', [platformId, 'student']),
+      });
+
+      await relayMetaTransaction(relayer, knowledgeLayerForwarder, metaTransaction);
+
+      expect(await knowledgeLayerID.ids(student.address)).to.equal(studentId);
+      expect(await knowledgeLayerID.ids(relayer.address)).to.equal(0);
+      expect(await ethers.provider.getBalance(student.address)).to.equal(0);
+    });
+
+    it('Relayer can sponsor the purchase of a course by the student', async () => {
+      const { totalPrice } = await knowledgeLayerEscrow.getPriceQuote(courseId, platformId, '');
+      const metaTransaction = await signMetaTransaction(student, knowledgeLayerForwarder, {
+        to: knowledgeLayerEscrow.address,
+        data: knowledgeLayerEscrow.interface.encodeFunctionData('createTransaction', [
+          studentId,
+          courseId,
+          platformId,
+          0,
+          '',
+          0,
+          '0x',
+        ]),
+        value: totalPrice,
+      });
+
+      const tx = relayMetaTransaction(relayer, knowledgeLayerForwarder, metaTransaction);
+      await expect(tx).to.changeEtherBalances([knowledgeLayerEscrow, student], [totalPrice, 0]);
+      await expect(tx).to.emit(knowledgeLayerEscrow, 'TransactionCreated');
+
+      const transaction = await knowledgeLayerEscrow.connect(student).getTransaction(1);
+      expect(transaction.sender).to.equal(student.address);
+      expect(await knowledgeLayerCourse.balanceOf(student.address, courseId)).to.equal(1);
+    });
+
+    it("Can't relay a purchase which would revert", async () => {
+      const { totalPrice } = await knowledgeLayerEscrow.getPriceQuote(courseId, platformId, '');
+      const metaTransaction = await signMetaTransaction(student, knowledgeLayerForwarder, {
+        to: knowledgeLayerEscrow.address,
+        data: knowledgeLayerEscrow.interface.encodeFunctionData('createTransaction', [
+          studentId,
+          courseId,
+          platformId,
+          0,
+          '',
+          0,
+          '0x',
+        ]),
+        value: totalPrice.sub(1),
+      });
+
+      const relayerBalance = await relayer.getBalance();
+      await expect(
+        relayMetaTransaction(relayer, knowledgeLayerForwarder, metaTransaction),
+      ).to.be.rejectedWith('Meta-transaction reverted: Non-matching funds');
+
+      // Nothing was sent, so the request can still be replaced
+      expect(await relayer.getBalance()).to.equal(relayerBalance);
+      expect(await knowledgeLayerForwarder.getNonce(student.address)).to.equal(
+        metaTransaction.request.nonce,
+      );
+    });
+
+    it('Student can review a course without holding ETH', async () => {
+      const metaTransaction = await signMetaTransaction(student, knowledgeLayerForwarder, {
+        to: knowledgeLayerReview.address,
+        data: knowledgeLayerReview.interface.encodeFunctionData('mint', [
+          studentId,
+          courseId,
+          reviewDataUri,
+          5,
+        ]),
+      });
+
+      await expect(relayMetaTransaction(relayer, knowledgeLayerForwarder, metaTransaction))
+        .to.emit(knowledgeLayerReview, 'Mint')
+        .withArgs(1, courseId, aliceId, studentId, 5, reviewDataUri);
+    });
+
+    it("Can't relay a request with an invalid signature", async () => {
+      const metaTransaction = await signMetaTransaction(student, knowledgeLayerForwarder, {
+        to: knowledgeLayerCourse.address,
+        data: knowledgeLayerCourse.interface.encodeFunctionData('updateReferralFee', [
+          aliceId,
+          courseId,
+          1000,
+        ]),
+      });
+
+      await expect(
+        relayMetaTransaction(relayer, knowledgeLayerForwarder, {
+          ...metaTransaction,
+          request: { ...metaTransaction.request, from: alice.address },
+        }),
+      ).to.be.rejectedWith('Invalid meta-transaction signature');
+    });
+
+    it("Relayed calls can't act on behalf of another profile", async () => {
+      const metaTransaction = await signMetaTransaction(student, knowledgeLayerForwarder, {
+        to: knowledgeLayerCourse.address,
+        data: knowledgeLayerCourse.interface.encodeFunctionData('updateReferralFee', [
+          aliceId,
+          courseId,
+          1000,
+        ]),
+      });
+
+      const [success] = await knowledgeLayerForwarder
+        .connect(relayer)
+        .callStatic.execute(metaTransaction.request, metaTransaction.signature);
+      expect(success).to.be.false;
+    });
+
+    it('Calls through an untrusted forwarder are attributed to the forwarder', async () => {
+      await knowledgeLayerCourse
+        .connect(deployer)
+        .setTrustedForwarder(ethers.constants.AddressZero);
+      expect(await knowledgeLayerCourse.isTrustedForwarder(ethers.constants.AddressZero)).to.be
+        .false;
+
+      const metaTransaction = await signMetaTransaction(alice, knowledgeLayerForwarder, {
+        to: knowledgeLayerCourse.address,
+        data: knowledgeLayerCourse.interface.encodeFunctionData('updateReferralFee', [
+          aliceId,
+          courseId,
+          1000,
+        ]),
+      });
+
+      const [success] = await knowledgeLayerForwarder
+        .connect(relayer)
+        .callStatic.execute(metaTransaction.request, metaTransaction.signature);
+      expect(success).to.be.false;
+
+      await knowledgeLayerCourse
+        .connect(deployer)
+        .setTrustedForwarder(knowledgeLayerForwarder.address);
+      await relayMetaTransaction(relayer, knowledgeLayerForwarder, metaTransaction);
+      expect(await knowledgeLayerCourse.referralFees(courseId)).to.equal(1000);
+    });
+  });
+});
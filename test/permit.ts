@@ -0,0 +1,169 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { ethers } from 'hardhat';
+import {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+  SimpleERC20,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import { CourseStatus, ETH_ADDRESS, MintStatus } from '../utils/constants';
+import { signPermit } from '../utils/signature';
+
+describe('Purchase with permit', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow,
+    simpleERC20: SimpleERC20,
+    totalPrice: BigNumber,
+    deadline: number;
+
+  const aliceId = 1;
+  const bobId = 2;
+  const platformId = 1;
+  const courseId = 1;
+  const ethCourseId = 2;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+
+  const createTransactionWithPermit = (
+    permit: KnowledgeLayerEscrow.PermitStruct,
+    id: number = courseId,
+  ) =>
+    knowledgeLayerEscrow
+      .connect(bob)
+      .createTransactionWithPermit(bobId, id, platformId, 0, '', 0, '0x', permit);
+
+  before(async () => {
+    [deployer, alice, bob, carol] = await ethers.getSigners();
+    [knowledgeLayerID, knowledgeLayerPlatformID, knowledgeLayerCourse, knowledgeLayerEscrow] =
+      await deploy();
+
+    // Deploy SimpleERC20 and send tokens to bob
+    const SimpleERC20 = await ethers.getContractFactory('SimpleERC20');
+    simpleERC20 = await SimpleERC20.deploy();
+    await simpleERC20.deployed();
+    await simpleERC20.transfer(bob.address, ethers.utils.parseEther('1'));
+    await knowledgeLayerCourse.connect(deployer).updateAllowedToken(simpleERC20.address, true);
+
+    // Add carol to whitelist and mint platform ID
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+
+    // Mint KnowledgeLayer IDs
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(platformId, 'alice');
+    await knowledgeLayerID.connect(bob).mint(platformId, 'bob__');
+
+    // Alice creates a course paid in ERC20 and a course paid in ETH
+    for (const token of [simpleERC20.address, ETH_ADDRESS]) {
+      await knowledgeLayerCourse
+        .connect(alice)
+        .createCourse(
+          aliceId,
+          platformId,
+          coursePrice,
+          token,
+          courseDataUri,
+          0,
+          CourseStatus.Published,
+          0,
+          '0x',
+        );
+    }
+
+    ({ totalPrice } = await knowledgeLayerEscrow.getPriceQuote(courseId, platformId, ''));
+    const { timestamp } = await ethers.provider.getBlock('latest');
+    deadline = timestamp + 3600;
+  });
+
+  it("Can't buy a course paid in ETH with a permit", async () => {
+    const permit = await signPermit(bob, simpleERC20, {
+      spender: knowledgeLayerEscrow.address,
+      value: totalPrice,
+      deadline,
+    });
+
+    await expect(createTransactionWithPermit(permit, ethCourseId)).to.be.revertedWith(
+      'Permit not supported for ETH',
+    );
+  });
+
+  it("Can't buy a course with an expired permit", async () => {
+    const { timestamp } = await ethers.provider.getBlock('latest');
+    const permit = await signPermit(bob, simpleERC20, {
+      spender: knowledgeLayerEscrow.address,
+      value: totalPrice,
+      deadline: timestamp - 1,
+    });
+
+    await expect(createTransactionWithPermit(permit)).to.be.revertedWith(
+      'ERC20: insufficient allowance',
+    );
+  });
+
+  it("Can't buy a course with a permit signed by another account", async () => {
+    const permit = await signPermit(carol, simpleERC20, {
+      spender: knowledgeLayerEscrow.address,
+      value: totalPrice,
+      deadline,
+    });
+
+    await expect(createTransactionWithPermit(permit)).to.be.revertedWith(
+      'ERC20: insufficient allowance',
+    );
+  });
+
+  it('Buyer can buy a course with a permit without approving the escrow first', async () => {
+    const permit = await signPermit(bob, simpleERC20, {
+      spender: knowledgeLayerEscrow.address,
+      value: totalPrice,
+      deadline,
+    });
+
+    const tx = createTransactionWithPermit(permit);
+    await expect(tx).to.changeTokenBalances(
+      simpleERC20,
+      [bob, knowledgeLayerEscrow],
+      [totalPrice.mul(-1), totalPrice],
+    );
+    await expect(tx).to.emit(knowledgeLayerEscrow, 'TransactionCreated');
+
+    expect(await knowledgeLayerCourse.balanceOf(bob.address, courseId)).to.equal(1);
+    expect(await simpleERC20.allowance(bob.address, knowledgeLayerEscrow.address)).to.equal(0);
+    expect(await simpleERC20.nonces(bob.address)).to.equal(1);
+  });
+
+  it('Purchase succeeds when the permit was front-run', async () => {
+    const permit = await signPermit(bob, simpleERC20, {
+      spender: knowledgeLayerEscrow.address,
+      value: totalPrice,
+      deadline,
+    });
+    await simpleERC20
+      .connect(carol)
+      .permit(
+        bob.address,
+        knowledgeLayerEscrow.address,
+        permit.value,
+        permit.deadline,
+        permit.v,
+        permit.r,
+        permit.s,
+      );
+
+    await expect(createTransactionWithPermit(permit)).to.changeTokenBalance(
+      simpleERC20,
+      bob,
+      totalPrice.mul(-1),
+    );
+  });
+});
@@ -0,0 +1,620 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import { CourseStatus, ETH_ADDRESS, MintStatus } from '../utils/constants';
+import {
+  signCreateBundle,
+  signCreateBundleTransaction,
+  signCreateCourse,
+  signCreateGiftTransaction,
+  signCreateTransaction,
+  signUpdateBundle,
+  signUpdateCourse,
+} from '../utils/signature';
+
+describe('Platform signature', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    dave: SignerWithAddress,
+    frank: SignerWithAddress,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow,
+    deadline: BigNumber;
+
+  const aliceId = 1;
+  const bobId = 2;
+  const daveId = 3;
+  const platformId = 1;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+  const newDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMg';
+
+  before(async () => {
+    [deployer, alice, bob, carol, frank, dave] = await ethers.getSigners();
+    [knowledgeLayerID, knowledgeLayerPlatformID, knowledgeLayerCourse, knowledgeLayerEscrow] =
+      await deploy();
+
+    // Add carol to whitelist and mint platform ID
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+
+    // Mint KnowledgeLayer IDs
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(platformId, 'alice');
+    await knowledgeLayerID.connect(bob).mint(platformId, 'bob__');
+    await knowledgeLayerID.connect(dave).mint(platformId, 'dave_');
+
+    deadline = BigNumber.from(await time.latest()).add(60 * 60);
+  });
+
+  describe('Without platform signer', async () => {
+    it('Can create a course and buy it without signature', async () => {
+      await knowledgeLayerCourse
+        .connect(alice)
+        .createCourse(
+          aliceId,
+          platformId,
+          coursePrice,
+          ETH_ADDRESS,
+          courseDataUri,
+          0,
+          CourseStatus.Published,
+          0,
+          '0x',
+        );
+
+      const tx = knowledgeLayerEscrow
+        .connect(bob)
+        .createTransaction(bobId, 1, platformId, 0, '', 0, '0x', { value: await getTotalPrice(1) });
+      await expect(tx).to.not.be.reverted;
+    });
+  });
+
+  describe('With platform signer', async () => {
+    before(async () => {
+      // Carol sets frank as the signer of her platform
+      const tx = knowledgeLayerPlatformID.connect(carol).updateSigner(platformId, frank.address);
+      await expect(tx)
+        .to.emit(knowledgeLayerPlatformID, 'SignerUpdated')
+        .withArgs(platformId, frank.address);
+    });
+
+    describe('Create course', async () => {
+      const courseId = 2;
+
+      it("Can't create a course without signature", async () => {
+        const tx = knowledgeLayerCourse
+          .connect(alice)
+          .createCourse(
+            aliceId,
+            platformId,
+            coursePrice,
+            ETH_ADDRESS,
+            courseDataUri,
+            0,
+            CourseStatus.Published,
+            deadline,
+            '0x',
+          );
+        await expect(tx).to.be.revertedWith('Invalid signature');
+      });
+
+      it("Can't create a course with a signature from another signer", async () => {
+        const signature = await signCreateCourse(bob, knowledgeLayerCourse, {
+          profileId: aliceId,
+          platformId,
+          price: coursePrice,
+          token: ETH_ADDRESS,
+          dataUri: courseDataUri,
+          accessDuration: 0,
+          status: CourseStatus.Published,
+          deadline,
+        });
+
+        const tx = knowledgeLayerCourse
+          .connect(alice)
+          .createCourse(
+            aliceId,
+            platformId,
+            coursePrice,
+            ETH_ADDRESS,
+            courseDataUri,
+            0,
+            CourseStatus.Published,
+            deadline,
+            signature,
+          );
+        await expect(tx).to.be.revertedWith('Invalid signature');
+      });
+
+      it("Can't create a course with different data than signed", async () => {
+        const signature = await signCreateCourse(frank, knowledgeLayerCourse, {
+          profileId: aliceId,
+          platformId,
+          price: coursePrice,
+          token: ETH_ADDRESS,
+          dataUri: courseDataUri,
+          accessDuration: 0,
+          status: CourseStatus.Published,
+          deadline,
+        });
+
+        const tx = knowledgeLayerCourse
+          .connect(alice)
+          .createCourse(
+            aliceId,
+            platformId,
+            1,
+            ETH_ADDRESS,
+            courseDataUri,
+            0,
+            CourseStatus.Published,
+            deadline,
+            signature,
+          );
+        await expect(tx).to.be.revertedWith('Invalid signature');
+      });
+
+      it("Can't create a course with another status than signed", async () => {
+        const signature = await signCreateCourse(frank, knowledgeLayerCourse, {
+          profileId: aliceId,
+          platformId,
+          price: coursePrice,
+          token: ETH_ADDRESS,
+          dataUri: courseDataUri,
+          accessDuration: 0,
+          status: CourseStatus.Draft,
+          deadline,
+        });
+
+        const tx = knowledgeLayerCourse
+          .connect(alice)
+          .createCourse(
+            aliceId,
+            platformId,
+            coursePrice,
+            ETH_ADDRESS,
+            courseDataUri,
+            0,
+            CourseStatus.Published,
+            deadline,
+            signature,
+          );
+        await expect(tx).to.be.revertedWith('Invalid signature');
+      });
+
+      it("Can't create a course with an expired signature", async () => {
+        const expiredDeadline = BigNumber.from(await time.latest()).sub(1);
+        const signature = await signCreateCourse(frank, knowledgeLayerCourse, {
+          profileId: aliceId,
+          platformId,
+          price: coursePrice,
+          token: ETH_ADDRESS,
+          dataUri: courseDataUri,
+          accessDuration: 0,
+          status: CourseStatus.Published,
+          deadline: expiredDeadline,
+        });
+
+        const tx = knowledgeLayerCourse
+          .connect(alice)
+          .createCourse(
+            aliceId,
+            platformId,
+            coursePrice,
+            ETH_ADDRESS,
+            courseDataUri,
+            0,
+            CourseStatus.Published,
+            expiredDeadline,
+            signature,
+          );
+        await expect(tx).to.be.revertedWith('Signature expired');
+      });
+
+      it('Can create a course with a valid signature, which cannot be replayed', async () => {
+        const signature = await signCreateCourse(frank, knowledgeLayerCourse, {
+          profileId: aliceId,
+          platformId,
+          price: coursePrice,
+          token: ETH_ADDRESS,
+          dataUri: courseDataUri,
+          accessDuration: 0,
+          status: CourseStatus.Published,
+          deadline,
+        });
+
+        await knowledgeLayerCourse
+          .connect(alice)
+          .createCourse(
+            aliceId,
+            platformId,
+            coursePrice,
+            ETH_ADDRESS,
+            courseDataUri,
+            0,
+            CourseStatus.Published,
+            deadline,
+            signature,
+          );
+
+        const course = await knowledgeLayerCourse.courses(courseId);
+        expect(course.ownerId).to.equal(aliceId);
+        expect(await knowledgeLayerCourse.nonces(aliceId)).to.equal(1);
+
+        const tx = knowledgeLayerCourse
+          .connect(alice)
+          .createCourse(
+            aliceId,
+            platformId,
+            coursePrice,
+            ETH_ADDRESS,
+            courseDataUri,
+            0,
+            CourseStatus.Published,
+            deadline,
+            signature,
+          );
+        await expect(tx).to.be.revertedWith('Invalid signature');
+      });
+    });
+
+    describe('Update course', async () => {
+      const courseId = 2;
+
+      it("Can't update a course without signature", async () => {
+        const tx = knowledgeLayerCourse
+          .connect(alice)
+          .updateCourse(aliceId, courseId, 1, ETH_ADDRESS, newDataUri, deadline, '0x');
+        await expect(tx).to.be.revertedWith('Invalid signature');
+      });
+
+      it("Can't update a course with different data than signed", async () => {
+        const signature = await signUpdateCourse(frank, knowledgeLayerCourse, {
+          profileId: aliceId,
+          courseId,
+          price: coursePrice,
+          token: ETH_ADDRESS,
+          dataUri: newDataUri,
+          deadline,
+        });
+
+        const tx = knowledgeLayerCourse
+          .connect(alice)
+          .updateCourse(aliceId, courseId, 1, ETH_ADDRESS, newDataUri, deadline, signature);
+        await expect(tx).to.be.revertedWith('Invalid signature');
+      });
+
+      it('Can update a course with a valid signature, which cannot be replayed', async () => {
+        const signature = await signUpdateCourse(frank, knowledgeLayerCourse, {
+          profileId: aliceId,
+          courseId,
+          price: coursePrice,
+          token: ETH_ADDRESS,
+          dataUri: newDataUri,
+          deadline,
+        });
+
+        await knowledgeLayerCourse
+          .connect(alice)
+          .updateCourse(
+            aliceId,
+            courseId,
+            coursePrice,
+            ETH_ADDRESS,
+            newDataUri,
+            deadline,
+            signature,
+          );
+
+        const course = await knowledgeLayerCourse.courses(courseId);
+        expect(course.dataUri).to.equal(newDataUri);
+        expect(await knowledgeLayerCourse.nonces(aliceId)).to.equal(2);
+
+        const tx = knowledgeLayerCourse
+          .connect(alice)
+          .updateCourse(
+            aliceId,
+            courseId,
+            coursePrice,
+            ETH_ADDRESS,
+            newDataUri,
+            deadline,
+            signature,
+          );
+        await expect(tx).to.be.revertedWith('Invalid signature');
+      });
+    });
+
+    describe('Create and update bundle', async () => {
+      const bundleId = 1;
+
+      it("Can't create a bundle without signature", async () => {
+        const tx = knowledgeLayerCourse
+          .connect(alice)
+          .createBundle(
+            aliceId,
+            platformId,
+            [1, 2],
+            coursePrice,
+            ETH_ADDRESS,
+            courseDataUri,
+            deadline,
+            '0x',
+          );
+        await expect(tx).to.be.revertedWith('Invalid signature');
+      });
+
+      it("Can't create a bundle with other courses than signed", async () => {
+        const signature = await signCreateBundle(frank, knowledgeLayerCourse, {
+          profileId: aliceId,
+          platformId,
+          courseIds: [1, 2],
+          price: coursePrice,
+          token: ETH_ADDRESS,
+          dataUri: courseDataUri,
+          deadline,
+        });
+
+        const tx = knowledgeLayerCourse
+          .connect(alice)
+          .createBundle(
+            aliceId,
+            platformId,
+            [2, 1],
+            coursePrice,
+            ETH_ADDRESS,
+            courseDataUri,
+            deadline,
+            signature,
+          );
+        await expect(tx).to.be.revertedWith('Invalid signature');
+      });
+
+      it('Can create a bundle with a valid signature', async () => {
+        const signature = await signCreateBundle(frank, knowledgeLayerCourse, {
+          profileId: aliceId,
+          platformId,
+          courseIds: [1, 2],
+          price: coursePrice,
+          token: ETH_ADDRESS,
+          dataUri: courseDataUri,
+          deadline,
+        });
+
+        const tx = knowledgeLayerCourse
+          .connect(alice)
+          .createBundle(
+            aliceId,
+            platformId,
+            [1, 2],
+            coursePrice,
+            ETH_ADDRESS,
+            courseDataUri,
+            deadline,
+            signature,
+          );
+        await expect(tx).to.emit(knowledgeLayerCourse, 'BundleCreated');
+        expect(await knowledgeLayerCourse.nonces(aliceId)).to.equal(3);
+      });
+
+      it("Can't update a bundle without signature", async () => {
+        const tx = knowledgeLayerCourse
+          .connect(alice)
+          .updateBundle(aliceId, bundleId, 1, ETH_ADDRESS, newDataUri, deadline, '0x');
+        await expect(tx).to.be.revertedWith('Invalid signature');
+      });
+
+      it('Can update a bundle with a valid signature', async () => {
+        const signature = await signUpdateBundle(frank, knowledgeLayerCourse, {
+          profileId: aliceId,
+          bundleId,
+          price: coursePrice,
+          token: ETH_ADDRESS,
+          dataUri: newDataUri,
+          deadline,
+        });
+
+        const tx = knowledgeLayerCourse
+          .connect(alice)
+          .updateBundle(
+            aliceId,
+            bundleId,
+            coursePrice,
+            ETH_ADDRESS,
+            newDataUri,
+            deadline,
+            signature,
+          );
+        await expect(tx)
+          .to.emit(knowledgeLayerCourse, 'BundleUpdated')
+          .withArgs(bundleId, coursePrice, ETH_ADDRESS, newDataUri);
+        expect(await knowledgeLayerCourse.nonces(aliceId)).to.equal(4);
+      });
+    });
+
+    describe('Buy course', async () => {
+      const courseId = 2;
+      const transactionId = 2;
+
+      it("Can't buy a course without a valid signature", async () => {
+        const signature = await signCreateTransaction(bob, knowledgeLayerEscrow, {
+          profileId: bobId,
+          courseId,
+          platformId,
+          deadline,
+        });
+
+        const tx = knowledgeLayerEscrow
+          .connect(bob)
+          .createTransaction(bobId, courseId, platformId, 0, '', deadline, signature, {
+            value: await getTotalPrice(courseId),
+          });
+        await expect(tx).to.be.revertedWith('Invalid signature');
+      });
+
+      it("Can't buy a course with an expired signature", async () => {
+        const expiredDeadline = BigNumber.from(await time.latest()).sub(1);
+        const signature = await signCreateTransaction(frank, knowledgeLayerEscrow, {
+          profileId: bobId,
+          courseId,
+          platformId,
+          deadline: expiredDeadline,
+        });
+
+        const tx = knowledgeLayerEscrow
+          .connect(bob)
+          .createTransaction(bobId, courseId, platformId, 0, '', expiredDeadline, signature, {
+            value: await getTotalPrice(courseId),
+          });
+        await expect(tx).to.be.revertedWith('Signature expired');
+      });
+
+      it('Can buy a course with a valid signature, which cannot be replayed', async () => {
+        const signature = await signCreateTransaction(frank, knowledgeLayerEscrow, {
+          profileId: bobId,
+          courseId,
+          platformId,
+          deadline,
+        });
+
+        await knowledgeLayerEscrow
+          .connect(bob)
+          .createTransaction(bobId, courseId, platformId, 0, '', deadline, signature, {
+            value: await getTotalPrice(courseId),
+          });
+
+        const transaction = await knowledgeLayerEscrow.connect(bob).getTransaction(transactionId);
+        expect(transaction.courseId).to.equal(courseId);
+        expect(await knowledgeLayerCourse.balanceOf(bob.address, courseId)).to.equal(1);
+        expect(await knowledgeLayerEscrow.nonces(bobId)).to.equal(1);
+
+        const tx = knowledgeLayerEscrow
+          .connect(bob)
+          .createTransaction(bobId, courseId, platformId, 0, '', deadline, signature, {
+            value: await getTotalPrice(courseId),
+          });
+        await expect(tx).to.be.revertedWith('Invalid signature');
+      });
+    });
+
+    describe('Buy bundle', async () => {
+      const bundleId = 1;
+
+      it("Can't buy a bundle with a course purchase signature", async () => {
+        const signature = await signCreateTransaction(frank, knowledgeLayerEscrow, {
+          profileId: bobId,
+          courseId: bundleId,
+          platformId,
+          deadline,
+        });
+
+        const tx = knowledgeLayerEscrow
+          .connect(bob)
+          .createBundleTransaction(bobId, bundleId, platformId, deadline, signature, {
+            value: await getBundleTotalPrice(bundleId),
+          });
+        await expect(tx).to.be.revertedWith('Invalid signature');
+      });
+
+      it('Can buy a bundle with a valid signature', async () => {
+        const signature = await signCreateBundleTransaction(frank, knowledgeLayerEscrow, {
+          profileId: bobId,
+          bundleId,
+          platformId,
+          deadline,
+        });
+
+        const tx = knowledgeLayerEscrow
+          .connect(bob)
+          .createBundleTransaction(bobId, bundleId, platformId, deadline, signature, {
+            value: await getBundleTotalPrice(bundleId),
+          });
+        await expect(tx).to.emit(knowledgeLayerEscrow, 'TransactionCreated');
+        expect(await knowledgeLayerEscrow.nonces(bobId)).to.equal(2);
+      });
+    });
+
+    describe('Gift course', async () => {
+      const courseId = 2;
+
+      it("Can't gift a course with a purchase signature", async () => {
+        const signature = await signCreateTransaction(frank, knowledgeLayerEscrow, {
+          profileId: bobId,
+          courseId,
+          platformId,
+          deadline,
+        });
+
+        const tx = knowledgeLayerEscrow
+          .connect(bob)
+          .createGiftTransaction(bobId, daveId, courseId, platformId, 0, '', deadline, signature, {
+            value: await getTotalPrice(courseId),
+          });
+        await expect(tx).to.be.revertedWith('Invalid signature');
+      });
+
+      it("Can't gift a course to another beneficiary than signed", async () => {
+        const signature = await signCreateGiftTransaction(frank, knowledgeLayerEscrow, {
+          profileId: bobId,
+          beneficiaryId: daveId,
+          courseId,
+          platformId,
+          deadline,
+        });
+
+        const tx = knowledgeLayerEscrow
+          .connect(bob)
+          .createGiftTransaction(bobId, aliceId, courseId, platformId, 0, '', deadline, signature, {
+            value: await getTotalPrice(courseId),
+          });
+        await expect(tx).to.be.revertedWith('Invalid signature');
+      });
+
+      it('Can gift a course with a valid signature', async () => {
+        const signature = await signCreateGiftTransaction(frank, knowledgeLayerEscrow, {
+          profileId: bobId,
+          beneficiaryId: daveId,
+          courseId,
+          platformId,
+          deadline,
+        });
+
+        const tx = knowledgeLayerEscrow
+          .connect(bob)
+          .createGiftTransaction(bobId, daveId, courseId, platformId, 0, '', deadline, signature, {
+            value: await getTotalPrice(courseId),
+          });
+        await expect(tx).to.emit(knowledgeLayerEscrow, 'TransactionCreated');
+        expect(await knowledgeLayerCourse.balanceOf(dave.address, courseId)).to.equal(1);
+        expect(await knowledgeLayerEscrow.nonces(bobId)).to.equal(3);
+      });
+    });
+  });
+
+  const getBundleTotalPrice = async (bundleId: number): Promise<BigNumber> => {
+    const { totalPrice } = await knowledgeLayerEscrow.getBundlePriceQuote(bundleId, platformId);
+    return totalPrice;
+  };
+
+  const getTotalPrice = async (courseId: number): Promise<BigNumber> => {
+    const protocolFee = await knowledgeLayerEscrow.protocolFee();
+    const originFee = await knowledgeLayerPlatformID.getOriginFee(platformId);
+    const buyFee = await knowledgeLayerPlatformID.getBuyFee(platformId);
+    const price = (await knowledgeLayerCourse.courses(courseId)).price;
+    return price.add(price.mul(protocolFee + originFee + buyFee).div(10000));
+  };
+});
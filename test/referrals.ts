@@ -0,0 +1,219 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import { CourseStatus, ETH_ADDRESS, FEE_DIVIDER, MintStatus } from '../utils/constants';
+
+describe('Referral fees', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    dave: SignerWithAddress,
+    eve: SignerWithAddress,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow;
+
+  const aliceId = 1;
+  const bobId = 2;
+  const daveId = 3;
+  const eveId = 4;
+  const platformId = 1;
+  const courseId = 1;
+  const referralFee = 1000;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+  const referralFeeAmount = coursePrice.mul(referralFee).div(FEE_DIVIDER);
+
+  const buyCourse = async (referrerId: number): Promise<number> => {
+    const { totalPrice } = await knowledgeLayerEscrow.getPriceQuote(courseId, platformId, '');
+    const tx = await knowledgeLayerEscrow
+      .connect(bob)
+      .createTransaction(bobId, courseId, platformId, referrerId, '', 0, '0x', {
+        value: totalPrice,
+      });
+    const receipt = await tx.wait();
+
+    return receipt.events?.find((e) => e.event === 'TransactionCreated')?.args?.id;
+  };
+
+  before(async () => {
+    [deployer, alice, bob, carol, dave, eve] = await ethers.getSigners();
+    [knowledgeLayerID, knowledgeLayerPlatformID, knowledgeLayerCourse, knowledgeLayerEscrow] =
+      await deploy();
+
+    // Add carol to whitelist and mint platform ID
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+
+    // Mint KnowledgeLayer IDs
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(platformId, 'alice');
+    await knowledgeLayerID.connect(bob).mint(platformId, 'bob__');
+    await knowledgeLayerID.connect(dave).mint(platformId, 'dave_');
+    await knowledgeLayerID.connect(eve).mint(platformId, 'eve__');
+
+    // Alice creates a course
+    await knowledgeLayerCourse
+      .connect(alice)
+      .createCourse(
+        aliceId,
+        platformId,
+        coursePrice,
+        ETH_ADDRESS,
+        courseDataUri,
+        0,
+        CourseStatus.Published,
+        0,
+        '0x',
+      );
+  });
+
+  describe('Update referral fee', async () => {
+    it("Can't update the referral fee of a course of another teacher", async () => {
+      await expect(
+        knowledgeLayerCourse.connect(dave).updateReferralFee(daveId, courseId, referralFee),
+      ).to.be.revertedWith('Not the owner');
+      await expect(
+        knowledgeLayerCourse.connect(dave).updateReferralFee(aliceId, courseId, referralFee),
+      ).to.be.revertedWith('Not owner or delegate');
+    });
+
+    it("Can't set a referral fee higher than 100%", async () => {
+      await expect(
+        knowledgeLayerCourse.connect(alice).updateReferralFee(aliceId, courseId, FEE_DIVIDER + 1),
+      ).to.be.revertedWith('Invalid referral fee');
+    });
+
+    it('Teacher can update the referral fee of a course', async () => {
+      await expect(
+        knowledgeLayerCourse.connect(alice).updateReferralFee(aliceId, courseId, referralFee),
+      )
+        .to.emit(knowledgeLayerCourse, 'ReferralFeeUpdated')
+        .withArgs(courseId, referralFee);
+
+      expect(await knowledgeLayerCourse.referralFees(courseId)).to.equal(referralFee);
+    });
+  });
+
+  describe('Purchase with a referrer', async () => {
+    it("Buyer can't refer themselves", async () => {
+      await expect(buyCourse(bobId)).to.be.revertedWith('Invalid referrer');
+    });
+
+    it("Can't use an invalid referrer", async () => {
+      await expect(buyCourse(10)).to.be.reverted;
+    });
+
+    it('Referrer and referral fee are recorded in the transaction', async () => {
+      const transactionId = await buyCourse(daveId);
+
+      const transaction = await knowledgeLayerEscrow.connect(bob).getTransaction(transactionId);
+      expect(transaction.referrerId).to.equal(daveId);
+      expect(transaction.referralFee).to.equal(referralFee);
+    });
+
+    it('Price paid by the buyer does not change with a referrer', async () => {
+      const { totalPrice } = await knowledgeLayerEscrow.getPriceQuote(courseId, platformId, '');
+      const tx = knowledgeLayerEscrow
+        .connect(bob)
+        .createTransaction(bobId, courseId, platformId, daveId, '', 0, '0x', {
+          value: totalPrice,
+        });
+      await expect(tx).to.changeEtherBalance(bob, totalPrice.mul(-1), { includeFee: false });
+    });
+
+    it('No referral fee is recorded without a referrer', async () => {
+      const transactionId = await buyCourse(0);
+
+      const transaction = await knowledgeLayerEscrow.connect(bob).getTransaction(transactionId);
+      expect(transaction.referrerId).to.equal(0);
+      expect(transaction.referralFee).to.equal(0);
+    });
+  });
+
+  describe('Release', async () => {
+    it('Referrer is credited the referral fee on release', async () => {
+      const transactionId = await buyCourse(daveId);
+
+      const tx = knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'BalanceCredited')
+        .withArgs(aliceId, ETH_ADDRESS, coursePrice.sub(referralFeeAmount));
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'BalanceCredited')
+        .withArgs(daveId, ETH_ADDRESS, referralFeeAmount);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'ReferralFeeReleased')
+        .withArgs(daveId, courseId, ETH_ADDRESS, referralFeeAmount);
+    });
+
+    it('Referral fee recorded at purchase is paid after the fee is updated', async () => {
+      const transactionId = await buyCourse(daveId);
+      await knowledgeLayerCourse.connect(alice).updateReferralFee(aliceId, courseId, 0);
+
+      const tx = knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'ReferralFeeReleased')
+        .withArgs(daveId, courseId, ETH_ADDRESS, referralFeeAmount);
+
+      await knowledgeLayerCourse.connect(alice).updateReferralFee(aliceId, courseId, referralFee);
+    });
+
+    it('Teacher is credited the whole price without a referrer', async () => {
+      const transactionId = await buyCourse(0);
+
+      const tx = knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'BalanceCredited')
+        .withArgs(aliceId, ETH_ADDRESS, coursePrice);
+      await expect(tx).to.not.emit(knowledgeLayerEscrow, 'ReferralFeeReleased');
+    });
+
+    it('Collaborators share the revenue left after the referral fee', async () => {
+      const eveShare = 5000;
+      await knowledgeLayerCourse
+        .connect(alice)
+        .updateCollaborators(aliceId, courseId, [{ profileId: eveId, share: eveShare }]);
+      const transactionId = await buyCourse(daveId);
+      const eveAmount = coursePrice.sub(referralFeeAmount).mul(eveShare).div(FEE_DIVIDER);
+
+      const tx = knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId);
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'BalanceCredited')
+        .withArgs(aliceId, ETH_ADDRESS, coursePrice.sub(referralFeeAmount).sub(eveAmount));
+      await expect(tx)
+        .to.emit(knowledgeLayerEscrow, 'BalanceCredited')
+        .withArgs(eveId, ETH_ADDRESS, eveAmount);
+    });
+
+    it('Withdrawal to an address rejecting ETH reverts and keeps the balance', async () => {
+      const EtherRejecter = await ethers.getContractFactory('EtherRejecter');
+      const etherRejecter = await EtherRejecter.deploy();
+      await etherRejecter.deployed();
+
+      const rejecterId = 5;
+      await knowledgeLayerID.mintForAddress(etherRejecter.address, platformId, 'rejecter');
+      await knowledgeLayerEscrow.connect(alice).release(aliceId, await buyCourse(rejecterId));
+
+      const withdrawData = knowledgeLayerEscrow.interface.encodeFunctionData('withdraw', [
+        rejecterId,
+        ETH_ADDRESS,
+      ]);
+      await expect(
+        etherRejecter.execute(knowledgeLayerEscrow.address, withdrawData),
+      ).to.be.revertedWith('Transfer failed');
+      expect(await knowledgeLayerEscrow.profileBalance(rejecterId, ETH_ADDRESS)).to.equal(
+        referralFeeAmount,
+      );
+    });
+  });
+});
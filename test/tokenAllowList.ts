@@ -0,0 +1,242 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+  SimpleERC20,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import { CourseStatus, ETH_ADDRESS, MintStatus } from '../utils/constants';
+
+describe('Token allow-list', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    dave: SignerWithAddress,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow,
+    simpleERC20: SimpleERC20;
+
+  const aliceId = 1;
+  const bobId = 2;
+  const carolPlatformId = 1;
+  const davePlatformId = 2;
+  const courseId = 1;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+
+  const createCourse = (platformId: number, token: string) =>
+    knowledgeLayerCourse
+      .connect(alice)
+      .createCourse(
+        aliceId,
+        platformId,
+        coursePrice,
+        token,
+        courseDataUri,
+        0,
+        CourseStatus.Published,
+        0,
+        '0x',
+      );
+
+  before(async () => {
+    [deployer, alice, bob, carol, dave] = await ethers.getSigners();
+    [knowledgeLayerID, knowledgeLayerPlatformID, knowledgeLayerCourse, knowledgeLayerEscrow] =
+      await deploy();
+
+    // Deploy SimpleERC20 and send tokens to bob
+    const SimpleERC20 = await ethers.getContractFactory('SimpleERC20');
+    simpleERC20 = await SimpleERC20.deploy();
+    await simpleERC20.deployed();
+    await simpleERC20.transfer(bob.address, ethers.utils.parseEther('1'));
+
+    // Add carol and dave to whitelist and mint platform IDs
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(dave.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+    await knowledgeLayerPlatformID.connect(dave).mint('dave-platform');
+
+    // Mint KnowledgeLayer IDs
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(carolPlatformId, 'alice');
+    await knowledgeLayerID.connect(bob).mint(carolPlatformId, 'bob__');
+  });
+
+  describe('Protocol allow-list', async () => {
+    it('ETH is allowed by default', async () => {
+      expect(await knowledgeLayerCourse.getAllowedTokens()).to.deep.equal([ETH_ADDRESS]);
+      expect(await knowledgeLayerCourse.isTokenAllowed(carolPlatformId, ETH_ADDRESS)).to.be.true;
+    });
+
+    it("Can't create a course priced in a token not allowed by the protocol", async () => {
+      expect(await knowledgeLayerCourse.isTokenAllowed(carolPlatformId, simpleERC20.address)).to.be
+        .false;
+      await expect(createCourse(carolPlatformId, simpleERC20.address)).to.be.revertedWith(
+        'Token not allowed',
+      );
+    });
+
+    it('Only the owner can update the protocol allow-list', async () => {
+      await expect(
+        knowledgeLayerCourse.connect(alice).updateAllowedToken(simpleERC20.address, true),
+      ).to.be.reverted;
+    });
+
+    it('Owner can allow a token', async () => {
+      await expect(
+        knowledgeLayerCourse.connect(deployer).updateAllowedToken(simpleERC20.address, true),
+      )
+        .to.emit(knowledgeLayerCourse, 'AllowedTokenUpdated')
+        .withArgs(simpleERC20.address, true);
+
+      expect(await knowledgeLayerCourse.getAllowedTokens()).to.deep.equal([
+        ETH_ADDRESS,
+        simpleERC20.address,
+      ]);
+      await createCourse(carolPlatformId, simpleERC20.address);
+    });
+
+    it("Can't update a course to a token not allowed by the protocol", async () => {
+      await expect(
+        knowledgeLayerCourse
+          .connect(alice)
+          .updateCourse(aliceId, courseId, coursePrice, carol.address, courseDataUri, 0, '0x'),
+      ).to.be.revertedWith('Token not allowed');
+    });
+
+    it("Can't create or update a bundle priced in a token not allowed by the protocol", async () => {
+      await createCourse(carolPlatformId, ETH_ADDRESS);
+      await expect(
+        knowledgeLayerCourse
+          .connect(alice)
+          .createBundle(
+            aliceId,
+            carolPlatformId,
+            [1, 2],
+            coursePrice,
+            carol.address,
+            courseDataUri,
+            0,
+            '0x',
+          ),
+      ).to.be.revertedWith('Token not allowed');
+
+      await knowledgeLayerCourse
+        .connect(alice)
+        .createBundle(
+          aliceId,
+          carolPlatformId,
+          [1, 2],
+          coursePrice,
+          ETH_ADDRESS,
+          courseDataUri,
+          0,
+          '0x',
+        );
+      await expect(
+        knowledgeLayerCourse
+          .connect(alice)
+          .updateBundle(aliceId, 1, coursePrice, carol.address, courseDataUri, 0, '0x'),
+      ).to.be.revertedWith('Token not allowed');
+    });
+
+    it('Courses priced in a disallowed token can still be bought', async () => {
+      await expect(
+        knowledgeLayerCourse.connect(deployer).updateAllowedToken(simpleERC20.address, false),
+      )
+        .to.emit(knowledgeLayerCourse, 'AllowedTokenUpdated')
+        .withArgs(simpleERC20.address, false);
+      expect(await knowledgeLayerCourse.getAllowedTokens()).to.deep.equal([ETH_ADDRESS]);
+
+      const { totalPrice } = await knowledgeLayerEscrow.getPriceQuote(
+        courseId,
+        carolPlatformId,
+        '',
+      );
+      await simpleERC20.connect(bob).approve(knowledgeLayerEscrow.address, totalPrice);
+      const tx = knowledgeLayerEscrow
+        .connect(bob)
+        .createTransaction(bobId, courseId, carolPlatformId, 0, '', 0, '0x');
+      await expect(tx).to.changeTokenBalance(simpleERC20, bob, totalPrice.mul(-1));
+
+      await expect(createCourse(carolPlatformId, simpleERC20.address)).to.be.revertedWith(
+        'Token not allowed',
+      );
+    });
+  });
+
+  describe('Platform allow-list', async () => {
+    before(async () => {
+      await knowledgeLayerCourse.connect(deployer).updateAllowedToken(simpleERC20.address, true);
+    });
+
+    it('Platforms allow all the tokens of the protocol by default', async () => {
+      expect(await knowledgeLayerPlatformID.getAllowedTokens(davePlatformId)).to.deep.equal([]);
+      expect(await knowledgeLayerPlatformID.isTokenAllowed(davePlatformId, simpleERC20.address)).to
+        .be.true;
+    });
+
+    it('Only the platform owner can update its allow-list', async () => {
+      await expect(
+        knowledgeLayerPlatformID
+          .connect(carol)
+          .updateAllowedToken(davePlatformId, simpleERC20.address, true),
+      ).to.be.reverted;
+    });
+
+    it("Can't get the allow-list of an invalid platform", async () => {
+      await expect(knowledgeLayerPlatformID.getAllowedTokens(10)).to.be.reverted;
+      await expect(knowledgeLayerPlatformID.isTokenAllowed(10, ETH_ADDRESS)).to.be.reverted;
+    });
+
+    it('Platform owner can restrict the tokens of its courses', async () => {
+      await expect(
+        knowledgeLayerPlatformID
+          .connect(dave)
+          .updateAllowedToken(davePlatformId, simpleERC20.address, true),
+      )
+        .to.emit(knowledgeLayerPlatformID, 'AllowedTokenUpdated')
+        .withArgs(davePlatformId, simpleERC20.address, true);
+
+      expect(await knowledgeLayerPlatformID.getAllowedTokens(davePlatformId)).to.deep.equal([
+        simpleERC20.address,
+      ]);
+      expect(await knowledgeLayerCourse.isTokenAllowed(davePlatformId, ETH_ADDRESS)).to.be.false;
+      expect(await knowledgeLayerCourse.isTokenAllowed(carolPlatformId, ETH_ADDRESS)).to.be.true;
+
+      await expect(createCourse(davePlatformId, ETH_ADDRESS)).to.be.revertedWith(
+        'Token not allowed',
+      );
+      await createCourse(davePlatformId, simpleERC20.address);
+    });
+
+    it('Tokens allowed by a platform must also be allowed by the protocol', async () => {
+      await knowledgeLayerPlatformID
+        .connect(dave)
+        .updateAllowedToken(davePlatformId, carol.address, true);
+
+      expect(await knowledgeLayerCourse.isTokenAllowed(davePlatformId, carol.address)).to.be.false;
+      await expect(createCourse(davePlatformId, carol.address)).to.be.revertedWith(
+        'Token not allowed',
+      );
+    });
+
+    it('Platform allows all tokens again once its allow-list is emptied', async () => {
+      for (const token of [simpleERC20.address, carol.address]) {
+        await knowledgeLayerPlatformID
+          .connect(dave)
+          .updateAllowedToken(davePlatformId, token, false);
+      }
+
+      expect(await knowledgeLayerPlatformID.getAllowedTokens(davePlatformId)).to.deep.equal([]);
+      await createCourse(davePlatformId, ETH_ADDRESS);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { ethers } from 'hardhat';
+import {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import { CourseStatus, ETH_ADDRESS, MintStatus } from '../utils/constants';
+
+describe('Transaction queries', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    dave: SignerWithAddress,
+    eve: SignerWithAddress,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow;
+
+  const aliceId = 1;
+  const bobId = 2;
+  const eveId = 3;
+  const carolPlatformId = 1;
+  const davePlatformId = 2;
+  const courseId = 1;
+  const otherCourseId = 2;
+  const bundleId = 1;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+
+  const buyCourse = async (
+    signer: SignerWithAddress,
+    profileId: number,
+    id: number,
+    platformId: number,
+  ) => {
+    const { totalPrice } = await knowledgeLayerEscrow.getPriceQuote(id, platformId, '');
+    await knowledgeLayerEscrow
+      .connect(signer)
+      .createTransaction(profileId, id, platformId, 0, '', 0, '0x', { value: totalPrice });
+  };
+
+  const toNumbers = (ids: BigNumber[]) => ids.map((id) => id.toNumber());
+
+  before(async () => {
+    [deployer, alice, bob, carol, dave, eve] = await ethers.getSigners();
+    [knowledgeLayerID, knowledgeLayerPlatformID, knowledgeLayerCourse, knowledgeLayerEscrow] =
+      await deploy();
+
+    // Add carol and dave to whitelist and mint platform IDs
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(dave.address);
+    await knowledgeLayerPlatformID.connect(dave).mint('dave-platform');
+
+    // Mint KnowledgeLayer IDs
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(carolPlatformId, 'alice');
+    await knowledgeLayerID.connect(bob).mint(carolPlatformId, 'bob__');
+    await knowledgeLayerID.connect(eve).mint(carolPlatformId, 'eve__');
+
+    // Alice creates two courses and a bundle of both
+    for (let i = 0; i < 2; i++) {
+      await knowledgeLayerCourse
+        .connect(alice)
+        .createCourse(
+          aliceId,
+          carolPlatformId,
+          coursePrice,
+          ETH_ADDRESS,
+          courseDataUri,
+          0,
+          CourseStatus.Published,
+          0,
+          '0x',
+        );
+    }
+    await knowledgeLayerCourse
+      .connect(alice)
+      .createBundle(
+        aliceId,
+        carolPlatformId,
+        [courseId, otherCourseId],
+        coursePrice,
+        ETH_ADDRESS,
+        courseDataUri,
+        0,
+        '0x',
+      );
+
+    // Transaction 1: bob buys the course on carol's platform
+    // Transaction 2: eve buys the course on dave's platform
+    // Transaction 3: bob buys the other course on dave's platform
+    // Transaction 4: eve buys the bundle on carol's platform
+    await buyCourse(bob, bobId, courseId, carolPlatformId);
+    await buyCourse(eve, eveId, courseId, davePlatformId);
+    await buyCourse(bob, bobId, otherCourseId, davePlatformId);
+    const { totalPrice } = await knowledgeLayerEscrow.getBundlePriceQuote(
+      bundleId,
+      carolPlatformId,
+    );
+    await knowledgeLayerEscrow
+      .connect(eve)
+      .createBundleTransaction(eveId, bundleId, carolPlatformId, 0, '0x', { value: totalPrice });
+  });
+
+  describe('Transaction ids', async () => {
+    it('Returns the transactions of a buyer', async () => {
+      const [bobIds, bobTotal] = await knowledgeLayerEscrow.getBuyerTransactionIds(bobId, 0, 10);
+      expect(toNumbers(bobIds)).to.deep.equal([1, 3]);
+      expect(bobTotal).to.equal(2);
+
+      const [eveIds] = await knowledgeLayerEscrow.getBuyerTransactionIds(eveId, 0, 10);
+      expect(toNumbers(eveIds)).to.deep.equal([2, 4]);
+    });
+
+    it('Returns the transactions of a teacher', async () => {
+      const [ids, total] = await knowledgeLayerEscrow.getTeacherTransactionIds(aliceId, 0, 10);
+      expect(toNumbers(ids)).to.deep.equal([1, 2, 3, 4]);
+      expect(total).to.equal(4);
+
+      const [bobIds, bobTotal] = await knowledgeLayerEscrow.getTeacherTransactionIds(bobId, 0, 10);
+      expect(bobIds).to.be.empty;
+      expect(bobTotal).to.equal(0);
+    });
+
+    it('Returns the transactions of a course, excluding bundle purchases', async () => {
+      const [ids] = await knowledgeLayerEscrow.getCourseTransactionIds(courseId, 0, 10);
+      expect(toNumbers(ids)).to.deep.equal([1, 2]);
+
+      const [otherIds] = await knowledgeLayerEscrow.getCourseTransactionIds(otherCourseId, 0, 10);
+      expect(toNumbers(otherIds)).to.deep.equal([3]);
+    });
+
+    it('Returns the transactions made through a platform', async () => {
+      const [carolIds] = await knowledgeLayerEscrow.getPlatformTransactionIds(
+        carolPlatformId,
+        0,
+        10,
+      );
+      expect(toNumbers(carolIds)).to.deep.equal([1, 4]);
+
+      const [daveIds] = await knowledgeLayerEscrow.getPlatformTransactionIds(davePlatformId, 0, 10);
+      expect(toNumbers(daveIds)).to.deep.equal([2, 3]);
+    });
+
+    it('Paginates the transaction ids', async () => {
+      const [firstPage, total] = await knowledgeLayerEscrow.getTeacherTransactionIds(aliceId, 0, 3);
+      expect(toNumbers(firstPage)).to.deep.equal([1, 2, 3]);
+      expect(total).to.equal(4);
+
+      const [secondPage] = await knowledgeLayerEscrow.getTeacherTransactionIds(aliceId, 3, 3);
+      expect(toNumbers(secondPage)).to.deep.equal([4]);
+
+      const [middlePage] = await knowledgeLayerEscrow.getTeacherTransactionIds(aliceId, 1, 2);
+      expect(toNumbers(middlePage)).to.deep.equal([2, 3]);
+    });
+
+    it('Returns an empty page past the end of the list', async () => {
+      const [ids, total] = await knowledgeLayerEscrow.getTeacherTransactionIds(aliceId, 4, 10);
+      expect(ids).to.be.empty;
+      expect(total).to.equal(4);
+
+      const [noIds] = await knowledgeLayerEscrow.getTeacherTransactionIds(aliceId, 0, 0);
+      expect(noIds).to.be.empty;
+    });
+
+    it("Doesn't overflow with a large limit", async () => {
+      const [ids] = await knowledgeLayerEscrow.getTeacherTransactionIds(
+        aliceId,
+        2,
+        ethers.constants.MaxUint256,
+      );
+      expect(toNumbers(ids)).to.deep.equal([3, 4]);
+    });
+  });
+
+  describe('Transaction details', async () => {
+    it('Owner of the buy platform can read its transactions', async () => {
+      const transaction = await knowledgeLayerEscrow.connect(dave).getTransaction(2);
+      expect(transaction.buyPlatformId).to.equal(davePlatformId);
+      expect(transaction.sender).to.equal(eve.address);
+    });
+
+    it("Platform owner can't read transactions made through other platforms", async () => {
+      await expect(knowledgeLayerEscrow.connect(dave).getTransaction(1)).to.be.revertedWith(
+        'You are not related to this transaction',
+      );
+    });
+
+    it("Other users can't read the transaction", async () => {
+      await expect(knowledgeLayerEscrow.connect(eve).getTransaction(1)).to.be.revertedWith(
+        'You are not related to this transaction',
+      );
+    });
+  });
+});
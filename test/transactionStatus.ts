@@ -0,0 +1,228 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+  MockArbitrator,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import {
+  ArbitratorRuling,
+  CourseStatus,
+  ETH_ADDRESS,
+  MintStatus,
+  TransactionStatus,
+} from '../utils/constants';
+
+describe('Transaction status', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow,
+    mockArbitrator: MockArbitrator,
+    totalPrice: BigNumber;
+
+  const aliceId = 1;
+  const bobId = 2;
+  const platformId = 1;
+  const courseId = 1;
+  const refundWindow = 7 * 24 * 60 * 60;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+  const arbitrationCost = ethers.utils.parseEther('0.001');
+
+  const buyCourse = async (): Promise<number> => {
+    const tx = await knowledgeLayerEscrow
+      .connect(bob)
+      .createTransaction(bobId, courseId, platformId, 0, '', 0, '0x', { value: totalPrice });
+    const receipt = await tx.wait();
+
+    return receipt.events?.find((e) => e.event === 'TransactionCreated')?.args?.id;
+  };
+
+  const getStatus = (transactionId: number) =>
+    knowledgeLayerEscrow.getTransactionStatus(transactionId);
+
+  before(async () => {
+    [deployer, alice, bob, carol] = await ethers.getSigners();
+    [knowledgeLayerID, knowledgeLayerPlatformID, knowledgeLayerCourse, knowledgeLayerEscrow] =
+      await deploy();
+
+    // Deploy MockArbitrator
+    const MockArbitrator = await ethers.getContractFactory('MockArbitrator');
+    mockArbitrator = await MockArbitrator.deploy(arbitrationCost);
+    await mockArbitrator.deployed();
+
+    // Add carol to whitelist and mint platform ID with a refund window and an arbitrator
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+    await knowledgeLayerPlatformID.connect(carol).updateRefundWindow(platformId, refundWindow);
+    await knowledgeLayerPlatformID
+      .connect(carol)
+      .updateArbitrator(platformId, mockArbitrator.address, []);
+
+    // Mint KnowledgeLayer IDs
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(platformId, 'alice');
+    await knowledgeLayerID.connect(bob).mint(platformId, 'bob__');
+
+    // Alice creates a course
+    await knowledgeLayerCourse
+      .connect(alice)
+      .createCourse(
+        aliceId,
+        platformId,
+        coursePrice,
+        ETH_ADDRESS,
+        courseDataUri,
+        0,
+        CourseStatus.Published,
+        0,
+        '0x',
+      );
+
+    ({ totalPrice } = await knowledgeLayerEscrow.getPriceQuote(courseId, platformId, ''));
+  });
+
+  it("Can't get the status of an invalid transaction", async () => {
+    await expect(getStatus(10)).to.be.revertedWith('Invalid transaction id');
+  });
+
+  describe('Release', async () => {
+    let transactionId: number;
+
+    before(async () => {
+      transactionId = await buyCourse();
+    });
+
+    it('Transaction is pending once created', async () => {
+      expect(await getStatus(transactionId)).to.equal(TransactionStatus.Pending);
+    });
+
+    it('Transaction is released once paid to the seller', async () => {
+      await time.increase(refundWindow + 1);
+      await knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId);
+      expect(await getStatus(transactionId)).to.equal(TransactionStatus.Released);
+    });
+
+    it("Can't release a transaction twice", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId),
+      ).to.be.revertedWith('Transaction already settled');
+      await expect(
+        knowledgeLayerEscrow.connect(alice).releaseMany(aliceId, [transactionId]),
+      ).to.be.revertedWith('Transaction already settled');
+    });
+
+    it("Can't release a transaction twice in the same batch", async () => {
+      const otherTransactionId = await buyCourse();
+      await time.increase(refundWindow + 1);
+      await expect(
+        knowledgeLayerEscrow
+          .connect(alice)
+          .releaseMany(aliceId, [otherTransactionId, otherTransactionId]),
+      ).to.be.revertedWith('Transaction already settled');
+      expect(await getStatus(otherTransactionId)).to.equal(TransactionStatus.Pending);
+    });
+
+    it("Can't reimburse or dispute a released transaction", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(bob).reimburse(bobId, transactionId),
+      ).to.be.revertedWith('Transaction already settled');
+      await expect(
+        knowledgeLayerEscrow
+          .connect(bob)
+          .raiseDispute(bobId, transactionId, { value: arbitrationCost }),
+      ).to.be.revertedWith('Transaction already settled');
+    });
+  });
+
+  describe('Reimburse', async () => {
+    let transactionId: number;
+
+    before(async () => {
+      transactionId = await buyCourse();
+    });
+
+    it('Transaction is reimbursed once paid back to the buyer', async () => {
+      await knowledgeLayerEscrow.connect(bob).reimburse(bobId, transactionId);
+      expect(await getStatus(transactionId)).to.equal(TransactionStatus.Reimbursed);
+    });
+
+    it("Can't release or reimburse a reimbursed transaction", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId),
+      ).to.be.revertedWith('Transaction already settled');
+      await expect(
+        knowledgeLayerEscrow.connect(bob).reimburse(bobId, transactionId),
+      ).to.be.revertedWith('Transaction already settled');
+    });
+  });
+
+  describe('Dispute', async () => {
+    let transactionId: number;
+    let disputeId: BigNumber;
+
+    before(async () => {
+      transactionId = await buyCourse();
+    });
+
+    it('Transaction is disputed once a dispute is raised', async () => {
+      await knowledgeLayerEscrow
+        .connect(bob)
+        .raiseDispute(bobId, transactionId, { value: arbitrationCost });
+      expect(await getStatus(transactionId)).to.equal(TransactionStatus.Disputed);
+    });
+
+    it("Can't release or reimburse a disputed transaction", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId),
+      ).to.be.revertedWith('Transaction in dispute');
+      await expect(
+        knowledgeLayerEscrow.connect(bob).reimburse(bobId, transactionId),
+      ).to.be.revertedWith('Transaction in dispute');
+    });
+
+    it('Transaction is released when the seller wins the dispute', async () => {
+      const tx = await knowledgeLayerEscrow
+        .connect(alice)
+        .payArbitrationFee(aliceId, transactionId, { value: arbitrationCost });
+      const receipt = await tx.wait();
+      disputeId = receipt.events?.find((e) => e.event === 'DisputeCreated')?.args?.disputeId;
+
+      await mockArbitrator.giveRuling(disputeId, ArbitratorRuling.ReceiverWins);
+      expect(await getStatus(transactionId)).to.equal(TransactionStatus.Released);
+    });
+
+    it("Can't release a transaction settled by a ruling", async () => {
+      await expect(
+        knowledgeLayerEscrow.connect(alice).release(aliceId, transactionId),
+      ).to.be.revertedWith('Transaction already settled');
+    });
+
+    it('Transaction is reimbursed when the buyer wins the dispute', async () => {
+      const otherTransactionId = await buyCourse();
+      await knowledgeLayerEscrow
+        .connect(bob)
+        .raiseDispute(bobId, otherTransactionId, { value: arbitrationCost });
+      const tx = await knowledgeLayerEscrow
+        .connect(alice)
+        .payArbitrationFee(aliceId, otherTransactionId, { value: arbitrationCost });
+      const receipt = await tx.wait();
+      const otherDisputeId = receipt.events?.find((e) => e.event === 'DisputeCreated')?.args
+        ?.disputeId;
+
+      await mockArbitrator.giveRuling(otherDisputeId, ArbitratorRuling.SenderWins);
+      expect(await getStatus(otherTransactionId)).to.equal(TransactionStatus.Reimbursed);
+    });
+  });
+});
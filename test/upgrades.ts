@@ -0,0 +1,170 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { ethers, upgrades } from 'hardhat';
+import {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerID,
+  KnowledgeLayerPlatformID,
+  KnowledgeLayerReview,
+  KnowledgeLayerReviewV2,
+} from '../typechain-types';
+import deploy from '../utils/deploy';
+import { CourseStatus, ETH_ADDRESS, MintStatus } from '../utils/constants';
+
+describe('Upgrades', () => {
+  let deployer: SignerWithAddress,
+    alice: SignerWithAddress,
+    bob: SignerWithAddress,
+    carol: SignerWithAddress,
+    knowledgeLayerID: KnowledgeLayerID,
+    knowledgeLayerPlatformID: KnowledgeLayerPlatformID,
+    knowledgeLayerCourse: KnowledgeLayerCourse,
+    knowledgeLayerEscrow: KnowledgeLayerEscrow,
+    knowledgeLayerReview: KnowledgeLayerReview;
+
+  const aliceId = 1;
+  const bobId = 2;
+  const platformId = 1;
+  const courseId = 1;
+  const reviewId = 1;
+  const coursePrice = ethers.utils.parseEther('0.01');
+  const courseDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMf';
+  const reviewDataUri = 'QmVFZBWZ9anb3HCQtSDXprjKdZMxThbKHedj1on5N2HqMg';
+
+  before(async () => {
+    [deployer, alice, bob, carol] = await ethers.getSigners();
+    [
+      knowledgeLayerID,
+      knowledgeLayerPlatformID,
+      knowledgeLayerCourse,
+      knowledgeLayerEscrow,
+      knowledgeLayerReview,
+    ] = await deploy();
+
+    // Add carol to whitelist and mint platform ID
+    await knowledgeLayerPlatformID.connect(deployer).whitelistUser(carol.address);
+    await knowledgeLayerPlatformID.connect(carol).mint('carol-platform');
+
+    // Mint KnowledgeLayer IDs
+    await knowledgeLayerID.connect(deployer).updateMintStatus(MintStatus.PUBLIC);
+    await knowledgeLayerID.connect(alice).mint(platformId, 'alice');
+    await knowledgeLayerID.connect(bob).mint(platformId, 'bob__');
+
+    // Alice creates a course, bob buys it and reviews it
+    await knowledgeLayerCourse
+      .connect(alice)
+      .createCourse(
+        aliceId,
+        platformId,
+        coursePrice,
+        ETH_ADDRESS,
+        courseDataUri,
+        0,
+        CourseStatus.Published,
+        0,
+        '0x',
+      );
+    const { totalPrice } = await knowledgeLayerEscrow.getPriceQuote(courseId, platformId, '');
+    await knowledgeLayerEscrow
+      .connect(bob)
+      .createTransaction(bobId, courseId, platformId, 0, '', 0, '0x', { value: totalPrice });
+    await knowledgeLayerReview.connect(bob).mint(bobId, courseId, reviewDataUri, 4);
+  });
+
+  describe('Initialization', async () => {
+    it("Proxies can't be initialized twice", async () => {
+      await expect(
+        knowledgeLayerID.initialize(knowledgeLayerPlatformID.address),
+      ).to.be.revertedWith('Initializable: contract is already initialized');
+      await expect(knowledgeLayerPlatformID.initialize()).to.be.revertedWith(
+        'Initializable: contract is already initialized',
+      );
+      await expect(
+        knowledgeLayerReview.initialize(knowledgeLayerID.address, knowledgeLayerCourse.address),
+      ).to.be.revertedWith('Initializable: contract is already initialized');
+    });
+
+    it("Implementations can't be initialized", async () => {
+      const implementation = await ethers.getContractAt(
+        'KnowledgeLayerPlatformID',
+        await upgrades.erc1967.getImplementationAddress(knowledgeLayerPlatformID.address),
+      );
+      await expect(implementation.connect(carol).initialize()).to.be.revertedWith(
+        'Initializable: contract is already initialized',
+      );
+    });
+
+    it('Proxies are owned by the deployer', async () => {
+      expect(await knowledgeLayerID.owner()).to.equal(deployer.address);
+      expect(await knowledgeLayerEscrow.owner()).to.equal(deployer.address);
+      expect(await knowledgeLayerReview.owner()).to.equal(deployer.address);
+      const adminRole = await knowledgeLayerCourse.DEFAULT_ADMIN_ROLE();
+      expect(await knowledgeLayerCourse.hasRole(adminRole, deployer.address)).to.be.true;
+      expect(await knowledgeLayerPlatformID.hasRole(adminRole, deployer.address)).to.be.true;
+    });
+  });
+
+  describe('Authorization', async () => {
+    it('Only the owner can upgrade the contracts', async () => {
+      for (const contract of [knowledgeLayerID, knowledgeLayerEscrow, knowledgeLayerReview]) {
+        await expect(contract.connect(alice).upgradeTo(alice.address)).to.be.revertedWith(
+          'Ownable: caller is not the owner',
+        );
+      }
+    });
+
+    it('Only the admin can upgrade the contracts', async () => {
+      for (const contract of [knowledgeLayerPlatformID, knowledgeLayerCourse]) {
+        await expect(contract.connect(alice).upgradeTo(alice.address)).to.be.revertedWith(
+          /AccessControl: account .* is missing role/,
+        );
+      }
+    });
+  });
+
+  describe('Storage layout', async () => {
+    it("Can't upgrade to an implementation which shifts the storage", async () => {
+      const KnowledgeLayerReviewStorageShift = await ethers.getContractFactory(
+        'KnowledgeLayerReviewStorageShift',
+      );
+      await expect(
+        upgrades.validateUpgrade(knowledgeLayerReview.address, KnowledgeLayerReviewStorageShift, {
+          kind: 'uups',
+        }),
+      ).to.be.rejectedWith(/New storage layout is incompatible/);
+    });
+
+    it('Upgrades to an implementation which appends to the storage, keeping the state', async () => {
+      const KnowledgeLayerReviewV2 = await ethers.getContractFactory('KnowledgeLayerReviewV2');
+      await upgrades.validateUpgrade(knowledgeLayerReview.address, KnowledgeLayerReviewV2, {
+        kind: 'uups',
+      });
+
+      const previousImplementation = await upgrades.erc1967.getImplementationAddress(
+        knowledgeLayerReview.address,
+      );
+      const knowledgeLayerReviewV2 = (await upgrades.upgradeProxy(
+        knowledgeLayerReview.address,
+        KnowledgeLayerReviewV2,
+        { kind: 'uups' },
+      )) as KnowledgeLayerReviewV2;
+
+      expect(knowledgeLayerReviewV2.address).to.equal(knowledgeLayerReview.address);
+      expect(
+        await upgrades.erc1967.getImplementationAddress(knowledgeLayerReview.address),
+      ).to.not.equal(previousImplementation);
+
+      // Existing state is kept
+      expect(await knowledgeLayerReviewV2.owner()).to.equal(deployer.address);
+      expect(await knowledgeLayerReviewV2.ownerOf(reviewId)).to.equal(alice.address);
+      const review = await knowledgeLayerReviewV2.reviews(reviewId);
+      expect(review.dataUri).to.equal(reviewDataUri);
+      expect(await knowledgeLayerReviewV2.hasBeenReviewed(courseId, bobId)).to.be.true;
+
+      // New storage is usable
+      await knowledgeLayerReviewV2.connect(deployer).setReviewCountLimit(10);
+      expect(await knowledgeLayerReviewV2.reviewCountLimit()).to.equal(10);
+    });
+  });
+});
@@ -4,6 +4,43 @@ export enum MintStatus {
   PUBLIC,
 }
 
+export enum PaymentType {
+  Release,
+  Reimburse,
+}
+
+export enum TransactionStatus {
+  Pending,
+  Released,
+  Reimbursed,
+  Disputed,
+}
+
+export enum DisputeStatus {
+  NoDispute,
+  WaitingReceiver,
+  DisputeCreated,
+  Resolved,
+}
+
+export enum ArbitratorRuling {
+  RefusedToArbitrate,
+  SenderWins,
+  ReceiverWins,
+}
+
+export enum DiscountType {
+  Percentage,
+  Fixed,
+}
+
+export enum CourseStatus {
+  Draft,
+  Published,
+  Paused,
+  Archived,
+}
+
 export const FEE_DIVIDER = 10000;
 
 export const PROTOCOL_INDEX = 0;
@@ -0,0 +1,6 @@
+import { ethers } from 'ethers';
+
+/**
+ * Returns the hash of a coupon code, as stored on-chain.
+ */
+export const getCouponCodeHash = (code: string): string => ethers.utils.id(code);
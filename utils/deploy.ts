@@ -1,10 +1,11 @@
-import { ethers } from 'hardhat';
+import { ethers, upgrades } from 'hardhat';
 import {
   KnowledgeLayerID,
   KnowledgeLayerPlatformID,
   KnowledgeLayerCourse,
   KnowledgeLayerEscrow,
   KnowledgeLayerReview,
+  KnowledgeLayerCertificate,
 } from '../typechain-types';
 
 export default async function deploy(): Promise<
@@ -14,40 +15,70 @@ export default async function deploy(): Promise<
     KnowledgeLayerCourse,
     KnowledgeLayerEscrow,
     KnowledgeLayerReview,
+    KnowledgeLayerCertificate,
   ]
 > {
   const [deployer] = await ethers.getSigners();
 
   const KnowledgeLayerPlatformID = await ethers.getContractFactory('KnowledgeLayerPlatformID');
-  const knowledgeLayerPlatformId = await KnowledgeLayerPlatformID.deploy();
+  const knowledgeLayerPlatformId = (await upgrades.deployProxy(KnowledgeLayerPlatformID, [], {
+    kind: 'uups',
+  })) as KnowledgeLayerPlatformID;
   await knowledgeLayerPlatformId.deployed();
 
   const KnowledgeLayerID = await ethers.getContractFactory('KnowledgeLayerID');
-  const knowledgeLayerId = await KnowledgeLayerID.deploy(knowledgeLayerPlatformId.address);
+  const knowledgeLayerId = (await upgrades.deployProxy(
+    KnowledgeLayerID,
+    [knowledgeLayerPlatformId.address],
+    { kind: 'uups' },
+  )) as KnowledgeLayerID;
   await knowledgeLayerId.deployed();
 
   const KnowledgeLayerCourse = await ethers.getContractFactory('KnowledgeLayerCourse');
-  const knowledgeLayerCourse = await KnowledgeLayerCourse.deploy(knowledgeLayerId.address);
+  const knowledgeLayerCourse = (await upgrades.deployProxy(
+    KnowledgeLayerCourse,
+    [knowledgeLayerId.address, knowledgeLayerPlatformId.address],
+    { kind: 'uups' },
+  )) as KnowledgeLayerCourse;
   await knowledgeLayerCourse.deployed();
 
-  const KnowledgeLayerEscrow = await ethers.getContractFactory('KnowledgeLayerEscrow');
-  const knowledgeLayerEscrow = await KnowledgeLayerEscrow.deploy(
-    knowledgeLayerId.address,
-    knowledgeLayerPlatformId.address,
-    knowledgeLayerCourse.address,
-    deployer.address,
-  );
+  // The escrow is linked to the library managing its disputes
+  const EscrowDisputes = await ethers.getContractFactory('EscrowDisputes');
+  const escrowDisputes = await EscrowDisputes.deploy();
+  await escrowDisputes.deployed();
+
+  const KnowledgeLayerEscrow = await ethers.getContractFactory('KnowledgeLayerEscrow', {
+    libraries: { EscrowDisputes: escrowDisputes.address },
+  });
+  const knowledgeLayerEscrow = (await upgrades.deployProxy(
+    KnowledgeLayerEscrow,
+    [
+      knowledgeLayerId.address,
+      knowledgeLayerPlatformId.address,
+      knowledgeLayerCourse.address,
+      deployer.address,
+    ],
+    { kind: 'uups', unsafeAllowLinkedLibraries: true },
+  )) as KnowledgeLayerEscrow;
   await knowledgeLayerEscrow.deployed();
 
   const escrowRole = await knowledgeLayerCourse.ESCROW_ROLE();
   await knowledgeLayerCourse.grantRole(escrowRole, knowledgeLayerEscrow.address);
 
   const KnowledgeLayerReview = await ethers.getContractFactory('KnowledgeLayerReview');
-  const knowledgeLayerReview = await KnowledgeLayerReview.deploy(
+  const knowledgeLayerReview = (await upgrades.deployProxy(
+    KnowledgeLayerReview,
+    [knowledgeLayerId.address, knowledgeLayerCourse.address],
+    { kind: 'uups' },
+  )) as KnowledgeLayerReview;
+  await knowledgeLayerReview.deployed();
+
+  const KnowledgeLayerCertificate = await ethers.getContractFactory('KnowledgeLayerCertificate');
+  const knowledgeLayerCertificate = await KnowledgeLayerCertificate.deploy(
     knowledgeLayerId.address,
     knowledgeLayerCourse.address,
   );
-  await knowledgeLayerReview.deployed();
+  await knowledgeLayerCertificate.deployed();
 
   return [
     knowledgeLayerId,
@@ -55,5 +86,6 @@ export default async function deploy(): Promise<
     knowledgeLayerCourse,
     knowledgeLayerEscrow,
     knowledgeLayerReview,
+    knowledgeLayerCertificate,
   ];
 }
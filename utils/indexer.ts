@@ -0,0 +1,359 @@
+import fs from 'fs';
+import path from 'path';
+import { Event } from 'ethers';
+import type {
+  KnowledgeLayerCourse,
+  KnowledgeLayerEscrow,
+  KnowledgeLayerReview,
+} from '../typechain-types';
+import { CourseStatus, ETH_ADDRESS, PaymentType, TransactionStatus } from './constants';
+import { loadJSON } from './files';
+
+export type IndexerContracts = {
+  knowledgeLayerCourse: KnowledgeLayerCourse;
+  knowledgeLayerEscrow: KnowledgeLayerEscrow;
+  knowledgeLayerReview: KnowledgeLayerReview;
+};
+
+export type IndexedCourse = {
+  id: string;
+  ownerId: string;
+  platformId: string;
+  price: string;
+  token: string;
+  dataUri: string;
+  accessDuration: string;
+  status: CourseStatus;
+  blockNumber: number;
+};
+
+export type IndexedSale = {
+  id: string;
+  buyerId: string;
+  beneficiaryId: string;
+  teacherId: string;
+  token: string;
+  amount: string;
+  courseId: string;
+  bundleId: string;
+  platformId: string;
+  referrerId: string;
+  status: TransactionStatus;
+  blockNumber: number;
+  transactionHash: string;
+};
+
+export type IndexedReview = {
+  id: string;
+  courseId: string;
+  teacherId: string;
+  studentId: string;
+  rating: number;
+  dataUri: string;
+  blockNumber: number;
+};
+
+export type IndexedFee = {
+  type: 'posting' | 'origin' | 'buy' | 'referral' | 'claim';
+  // Platform id for posting, origin, buy and claim fees, referrer profile id for referral fees
+  recipientId: string;
+  // Course id of the released fee, 0 for claims
+  courseId: string;
+  token: string;
+  amount: string;
+  blockNumber: number;
+  transactionHash: string;
+};
+
+export type IndexerStore = {
+  // Address of the escrow the store was built from, to start over after a redeployment
+  escrow: string;
+  // Last block replayed, -1 if none
+  lastBlock: number;
+  courses: Record<string, IndexedCourse>;
+  sales: Record<string, IndexedSale>;
+  reviews: Record<string, IndexedReview>;
+  fees: IndexedFee[];
+};
+
+export type CourseFilter = { ownerId?: string; platformId?: string };
+
+export type SaleFilter = {
+  buyerId?: string;
+  teacherId?: string;
+  courseId?: string;
+  platformId?: string;
+};
+
+export type ReviewFilter = { courseId?: string; teacherId?: string; studentId?: string };
+
+export const createStore = (escrow: string): IndexerStore => ({
+  escrow,
+  lastBlock: -1,
+  courses: {},
+  sales: {},
+  reviews: {},
+  fees: [],
+});
+
+/**
+ * Loads the store from a JSON file, or creates an empty one if the file doesn't exist or was built from another
+ * escrow.
+ */
+export const loadStore = (filename: string, escrow: string): IndexerStore => {
+  const store = loadJSON(filename) as Partial<IndexerStore>;
+  return store.escrow === escrow ? (store as IndexerStore) : createStore(escrow);
+};
+
+export const saveStore = (filename: string, store: IndexerStore) => {
+  fs.mkdirSync(path.dirname(filename), { recursive: true });
+  fs.writeFileSync(filename, JSON.stringify(store, null, 2));
+};
+
+/**
+ * Replays the events emitted since the last indexed block into the store, in the order they were emitted.
+ * @returns The number of events replayed
+ */
+export async function indexEvents(
+  { knowledgeLayerCourse, knowledgeLayerEscrow, knowledgeLayerReview }: IndexerContracts,
+  store: IndexerStore,
+  toBlock?: number,
+): Promise<number> {
+  const fromBlock = store.lastBlock + 1;
+  const lastBlock = toBlock ?? (await knowledgeLayerEscrow.provider.getBlockNumber());
+  if (fromBlock > lastBlock) {
+    return 0;
+  }
+
+  const queries: Promise<Event[]>[] = [
+    knowledgeLayerCourse.queryFilter(
+      knowledgeLayerCourse.filters.CourseCreated(),
+      fromBlock,
+      lastBlock,
+    ),
+    knowledgeLayerCourse.queryFilter(
+      knowledgeLayerCourse.filters.CourseUpdated(),
+      fromBlock,
+      lastBlock,
+    ),
+    knowledgeLayerCourse.queryFilter(
+      knowledgeLayerCourse.filters.CourseStatusUpdated(),
+      fromBlock,
+      lastBlock,
+    ),
+    knowledgeLayerCourse.queryFilter(
+      knowledgeLayerCourse.filters.PostingFeeReleased(),
+      fromBlock,
+      lastBlock,
+    ),
+    knowledgeLayerCourse.queryFilter(
+      knowledgeLayerCourse.filters.PostingFeesClaimed(),
+      fromBlock,
+      lastBlock,
+    ),
+    knowledgeLayerEscrow.queryFilter(
+      knowledgeLayerEscrow.filters.TransactionCreated(),
+      fromBlock,
+      lastBlock,
+    ),
+    knowledgeLayerEscrow.queryFilter(knowledgeLayerEscrow.filters.Payment(), fromBlock, lastBlock),
+    knowledgeLayerEscrow.queryFilter(
+      knowledgeLayerEscrow.filters.DisputeRaised(),
+      fromBlock,
+      lastBlock,
+    ),
+    knowledgeLayerEscrow.queryFilter(
+      knowledgeLayerEscrow.filters.OriginFeeReleased(),
+      fromBlock,
+      lastBlock,
+    ),
+    knowledgeLayerEscrow.queryFilter(
+      knowledgeLayerEscrow.filters.BuyFeeReleased(),
+      fromBlock,
+      lastBlock,
+    ),
+    knowledgeLayerEscrow.queryFilter(
+      knowledgeLayerEscrow.filters.ReferralFeeReleased(),
+      fromBlock,
+      lastBlock,
+    ),
+    knowledgeLayerEscrow.queryFilter(
+      knowledgeLayerEscrow.filters.FeesClaimed(),
+      fromBlock,
+      lastBlock,
+    ),
+    knowledgeLayerReview.queryFilter(knowledgeLayerReview.filters.Mint(), fromBlock, lastBlock),
+  ];
+
+  const events = (await Promise.all(queries))
+    .flat()
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  for (const event of events) {
+    applyEvent(store, event);
+  }
+  store.lastBlock = lastBlock;
+
+  return events.length;
+}
+
+/**
+ * Applies an event to the store.
+ */
+function applyEvent(store: IndexerStore, event: Event) {
+  const args = event.args;
+  if (!args) return;
+
+  const { blockNumber, transactionHash } = event;
+
+  switch (event.event) {
+    case 'CourseCreated':
+      store.courses[args.courseId.toString()] = {
+        id: args.courseId.toString(),
+        ownerId: args.ownerId.toString(),
+        platformId: args.platformId.toString(),
+        price: args.price.toString(),
+        token: args.token,
+        dataUri: args.dataUri,
+        accessDuration: args.accessDuration.toString(),
+        status: args.status,
+        blockNumber,
+      };
+      break;
+    case 'CourseUpdated': {
+      const course = store.courses[args.courseId.toString()];
+      if (!course) break;
+      course.price = args.price.toString();
+      course.token = args.token;
+      course.dataUri = args.dataUri;
+      break;
+    }
+    case 'CourseStatusUpdated': {
+      const course = store.courses[args.courseId.toString()];
+      if (!course) break;
+      course.status = args.status;
+      break;
+    }
+    case 'TransactionCreated':
+      store.sales[args.id.toString()] = {
+        id: args.id.toString(),
+        buyerId: args.senderId.toString(),
+        beneficiaryId: args.beneficiaryId.toString(),
+        teacherId: args.receiverId.toString(),
+        token: args.token,
+        amount: args.amount.toString(),
+        courseId: args.courseId.toString(),
+        bundleId: args.bundleId.toString(),
+        platformId: args.buyPlatformId.toString(),
+        referrerId: args.referrerId.toString(),
+        status: TransactionStatus.Pending,
+        blockNumber,
+        transactionHash,
+      };
+      break;
+    case 'DisputeRaised': {
+      const sale = store.sales[args.transactionId.toString()];
+      if (!sale) break;
+      sale.status = TransactionStatus.Disputed;
+      break;
+    }
+    case 'Payment': {
+      const sale = store.sales[args.transactionId.toString()];
+      if (!sale) break;
+      // A split ruling releases part of the funds then reimburses the rest: the sale stays released
+      if (args.paymentType === PaymentType.Release) {
+        sale.status = TransactionStatus.Released;
+      } else if (sale.status !== TransactionStatus.Released) {
+        sale.status = TransactionStatus.Reimbursed;
+      }
+      break;
+    }
+    case 'PostingFeeReleased':
+      // Posting fees are paid in ETH
+      store.fees.push({
+        type: 'posting',
+        recipientId: args.platformId.toString(),
+        courseId: args.courseId.toString(),
+        token: ETH_ADDRESS,
+        amount: args.amount.toString(),
+        blockNumber,
+        transactionHash,
+      });
+      break;
+    case 'OriginFeeReleased':
+    case 'BuyFeeReleased':
+      store.fees.push({
+        type: event.event === 'OriginFeeReleased' ? 'origin' : 'buy',
+        recipientId: args.platformId.toString(),
+        courseId: args.courseId.toString(),
+        token: args.token,
+        amount: args.amount.toString(),
+        blockNumber,
+        transactionHash,
+      });
+      break;
+    case 'ReferralFeeReleased':
+      store.fees.push({
+        type: 'referral',
+        recipientId: args.referrerId.toString(),
+        courseId: args.courseId.toString(),
+        token: args.token,
+        amount: args.amount.toString(),
+        blockNumber,
+        transactionHash,
+      });
+      break;
+    case 'PostingFeesClaimed':
+      store.fees.push({
+        type: 'claim',
+        recipientId: args.platformId.toString(),
+        courseId: '0',
+        token: ETH_ADDRESS,
+        amount: args.amount.toString(),
+        blockNumber,
+        transactionHash,
+      });
+      break;
+    case 'FeesClaimed':
+      args.tokens.forEach((token: string, i: number) => {
+        store.fees.push({
+          type: 'claim',
+          recipientId: args.platformId.toString(),
+          courseId: '0',
+          token,
+          amount: args.amounts[i].toString(),
+          blockNumber,
+          transactionHash,
+        });
+      });
+      break;
+    case 'Mint':
+      store.reviews[args.id.toString()] = {
+        id: args.id.toString(),
+        courseId: args.courseId.toString(),
+        teacherId: args.toId.toString(),
+        studentId: args.fromId.toString(),
+        rating: args.rating.toNumber(),
+        dataUri: args.dataUri,
+        blockNumber,
+      };
+      break;
+  }
+}
+
+/**
+ * Returns whether the fields of an item match all the values of a filter.
+ */
+const matches = <T extends object>(item: T, filter: Partial<Record<keyof T, string>>) =>
+  Object.entries(filter).every(
+    ([key, value]) => value === undefined || item[key as keyof T] === value,
+  );
+
+export const queryCourses = (store: IndexerStore, filter: CourseFilter = {}): IndexedCourse[] =>
+  Object.values(store.courses).filter((course) => matches(course, filter));
+
+export const querySales = (store: IndexerStore, filter: SaleFilter = {}): IndexedSale[] =>
+  Object.values(store.sales).filter((sale) => matches(sale, filter));
+
+export const queryReviews = (store: IndexerStore, filter: ReviewFilter = {}): IndexedReview[] =>
+  Object.values(store.reviews).filter((review) => matches(review, filter));
@@ -0,0 +1,116 @@
+import { TypedDataSigner } from '@ethersproject/abstract-signer';
+import { BigNumber, BigNumberish, BytesLike, ContractTransaction, Signer, utils } from 'ethers';
+import { MinimalForwarder } from '../typechain-types';
+
+type MetaTransactionSigner = Signer & TypedDataSigner;
+
+export type ForwardRequest = {
+  from: string;
+  to: string;
+  value: BigNumberish;
+  gas: BigNumberish;
+  nonce: BigNumberish;
+  data: BytesLike;
+};
+
+export type MetaTransactionParams = {
+  to: string;
+  data: BytesLike;
+  value?: BigNumberish;
+  gas?: BigNumberish;
+  nonce?: BigNumberish;
+};
+
+export type SignedMetaTransaction = {
+  request: ForwardRequest;
+  signature: string;
+};
+
+const DEFAULT_GAS = 1_000_000;
+
+// Selector of the Error(string) revert reason
+const ERROR_SELECTOR = '0x08c379a0';
+
+/**
+ * Returns the revert reason of a failed call, if any.
+ */
+const getRevertReason = (returnData: string): string | undefined => {
+  if (!returnData.startsWith(ERROR_SELECTOR)) return undefined;
+
+  const [reason] = utils.defaultAbiCoder.decode(['string'], utils.hexDataSlice(returnData, 4));
+  return reason;
+};
+
+/**
+ * Signs a request to be relayed by the forwarder on behalf of the signer.
+ * Uses the current nonce of the signer in the forwarder if none is given.
+ */
+export const signMetaTransaction = async (
+  signer: MetaTransactionSigner,
+  forwarder: MinimalForwarder,
+  params: MetaTransactionParams,
+): Promise<SignedMetaTransaction> => {
+  const from = await signer.getAddress();
+  const request: ForwardRequest = {
+    from,
+    to: params.to,
+    value: params.value ?? 0,
+    gas: params.gas ?? DEFAULT_GAS,
+    nonce: params.nonce ?? (await forwarder.getNonce(from)),
+    data: params.data,
+  };
+
+  const { chainId } = await forwarder.provider.getNetwork();
+  const domain = {
+    name: 'MinimalForwarder',
+    version: '0.0.1',
+    chainId,
+    verifyingContract: forwarder.address,
+  };
+  const types = {
+    ForwardRequest: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'gas', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'data', type: 'bytes' },
+    ],
+  };
+
+  const signature = await signer._signTypedData(domain, types, request);
+  return { request, signature };
+};
+
+/**
+ * Relays a signed request through the forwarder, the relayer paying the gas and the value of the request.
+ * Throws if the signature does not match the request, or if the call would revert: the forwarder doesn't revert when
+ * the call fails, so the relayer would pay for a request which had no effect.
+ */
+export const relayMetaTransaction = async (
+  relayer: Signer,
+  forwarder: MinimalForwarder,
+  { request, signature }: SignedMetaTransaction,
+): Promise<ContractTransaction> => {
+  const connectedForwarder = forwarder.connect(relayer);
+  if (!(await connectedForwarder.verify(request, signature))) {
+    throw new Error('Invalid meta-transaction signature');
+  }
+
+  const overrides = {
+    value: BigNumber.from(request.value),
+    gasLimit: BigNumber.from(request.gas).add(100_000),
+  };
+
+  const [success, returnData] = await connectedForwarder.callStatic.execute(
+    request,
+    signature,
+    overrides,
+  );
+  if (!success) {
+    const reason = getRevertReason(returnData);
+    throw new Error(`Meta-transaction reverted${reason ? `: ${reason}` : ''}`);
+  }
+
+  return connectedForwarder.execute(request, signature, overrides);
+};
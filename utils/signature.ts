@@ -0,0 +1,293 @@
+import { TypedDataSigner } from '@ethersproject/abstract-signer';
+import { BigNumberish, Contract, Signer, utils } from 'ethers';
+import { ERC20Permit, KnowledgeLayerCourse, KnowledgeLayerEscrow } from '../typechain-types';
+
+type PlatformSigner = Signer & TypedDataSigner;
+
+export type CreateCourseParams = {
+  profileId: BigNumberish;
+  platformId: BigNumberish;
+  price: BigNumberish;
+  token: string;
+  dataUri: string;
+  accessDuration: BigNumberish;
+  status: BigNumberish;
+  deadline: BigNumberish;
+  nonce?: BigNumberish;
+};
+
+export type UpdateCourseParams = {
+  profileId: BigNumberish;
+  courseId: BigNumberish;
+  price: BigNumberish;
+  token: string;
+  dataUri: string;
+  deadline: BigNumberish;
+  nonce?: BigNumberish;
+};
+
+export type CreateBundleParams = {
+  profileId: BigNumberish;
+  platformId: BigNumberish;
+  courseIds: BigNumberish[];
+  price: BigNumberish;
+  token: string;
+  dataUri: string;
+  deadline: BigNumberish;
+  nonce?: BigNumberish;
+};
+
+export type UpdateBundleParams = {
+  profileId: BigNumberish;
+  bundleId: BigNumberish;
+  price: BigNumberish;
+  token: string;
+  dataUri: string;
+  deadline: BigNumberish;
+  nonce?: BigNumberish;
+};
+
+export type CreateBundleTransactionParams = {
+  profileId: BigNumberish;
+  bundleId: BigNumberish;
+  platformId: BigNumberish;
+  deadline: BigNumberish;
+  nonce?: BigNumberish;
+};
+
+export type CreateTransactionParams = {
+  profileId: BigNumberish;
+  courseId: BigNumberish;
+  platformId: BigNumberish;
+  deadline: BigNumberish;
+  nonce?: BigNumberish;
+};
+
+export type CreateGiftTransactionParams = {
+  profileId: BigNumberish;
+  beneficiaryId: BigNumberish;
+  courseId: BigNumberish;
+  platformId: BigNumberish;
+  deadline: BigNumberish;
+  nonce?: BigNumberish;
+};
+
+export type PermitParams = {
+  spender: string;
+  value: BigNumberish;
+  deadline: BigNumberish;
+  nonce?: BigNumberish;
+};
+
+const getDomain = async (contract: Contract, name: string) => {
+  const { chainId } = await contract.provider.getNetwork();
+  return { name, version: '1', chainId, verifyingContract: contract.address };
+};
+
+/**
+ * Signs the authorization of a platform signer to create a course.
+ * Uses the current nonce of the profile if none is given.
+ */
+export const signCreateCourse = async (
+  signer: PlatformSigner,
+  knowledgeLayerCourse: KnowledgeLayerCourse,
+  params: CreateCourseParams,
+): Promise<string> => {
+  const nonce = params.nonce ?? (await knowledgeLayerCourse.nonces(params.profileId));
+  const domain = await getDomain(knowledgeLayerCourse, 'KnowledgeLayerCourse');
+  const types = {
+    CreateCourse: [
+      { name: 'profileId', type: 'uint256' },
+      { name: 'platformId', type: 'uint256' },
+      { name: 'price', type: 'uint256' },
+      { name: 'token', type: 'address' },
+      { name: 'dataUri', type: 'string' },
+      { name: 'accessDuration', type: 'uint256' },
+      { name: 'status', type: 'uint8' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+  };
+
+  return signer._signTypedData(domain, types, { ...params, nonce });
+};
+
+/**
+ * Signs the authorization of a platform signer to update the price, token and data of a course.
+ * Uses the current nonce of the profile if none is given.
+ */
+export const signUpdateCourse = async (
+  signer: PlatformSigner,
+  knowledgeLayerCourse: KnowledgeLayerCourse,
+  params: UpdateCourseParams,
+): Promise<string> => {
+  const nonce = params.nonce ?? (await knowledgeLayerCourse.nonces(params.profileId));
+  const domain = await getDomain(knowledgeLayerCourse, 'KnowledgeLayerCourse');
+  const types = {
+    UpdateCourse: [
+      { name: 'profileId', type: 'uint256' },
+      { name: 'courseId', type: 'uint256' },
+      { name: 'price', type: 'uint256' },
+      { name: 'token', type: 'address' },
+      { name: 'dataUri', type: 'string' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+  };
+
+  return signer._signTypedData(domain, types, { ...params, nonce });
+};
+
+/**
+ * Signs the authorization of a platform signer to create a bundle.
+ * Uses the current nonce of the profile if none is given.
+ */
+export const signCreateBundle = async (
+  signer: PlatformSigner,
+  knowledgeLayerCourse: KnowledgeLayerCourse,
+  params: CreateBundleParams,
+): Promise<string> => {
+  const nonce = params.nonce ?? (await knowledgeLayerCourse.nonces(params.profileId));
+  const domain = await getDomain(knowledgeLayerCourse, 'KnowledgeLayerCourse');
+  const types = {
+    CreateBundle: [
+      { name: 'profileId', type: 'uint256' },
+      { name: 'platformId', type: 'uint256' },
+      { name: 'courseIds', type: 'uint256[]' },
+      { name: 'price', type: 'uint256' },
+      { name: 'token', type: 'address' },
+      { name: 'dataUri', type: 'string' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+  };
+
+  return signer._signTypedData(domain, types, { ...params, nonce });
+};
+
+/**
+ * Signs the authorization of a platform signer to update the price, token and data of a bundle.
+ * Uses the current nonce of the profile if none is given.
+ */
+export const signUpdateBundle = async (
+  signer: PlatformSigner,
+  knowledgeLayerCourse: KnowledgeLayerCourse,
+  params: UpdateBundleParams,
+): Promise<string> => {
+  const nonce = params.nonce ?? (await knowledgeLayerCourse.nonces(params.profileId));
+  const domain = await getDomain(knowledgeLayerCourse, 'KnowledgeLayerCourse');
+  const types = {
+    UpdateBundle: [
+      { name: 'profileId', type: 'uint256' },
+      { name: 'bundleId', type: 'uint256' },
+      { name: 'price', type: 'uint256' },
+      { name: 'token', type: 'address' },
+      { name: 'dataUri', type: 'string' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+  };
+
+  return signer._signTypedData(domain, types, { ...params, nonce });
+};
+
+/**
+ * Signs the authorization of a platform signer to buy a course.
+ * Uses the current nonce of the profile if none is given.
+ */
+export const signCreateTransaction = async (
+  signer: PlatformSigner,
+  knowledgeLayerEscrow: KnowledgeLayerEscrow,
+  params: CreateTransactionParams,
+): Promise<string> => {
+  const nonce = params.nonce ?? (await knowledgeLayerEscrow.nonces(params.profileId));
+  const domain = await getDomain(knowledgeLayerEscrow, 'KnowledgeLayerEscrow');
+  const types = {
+    CreateTransaction: [
+      { name: 'profileId', type: 'uint256' },
+      { name: 'courseId', type: 'uint256' },
+      { name: 'platformId', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+  };
+
+  return signer._signTypedData(domain, types, { ...params, nonce });
+};
+
+/**
+ * Signs the authorization of a platform signer to buy a course as a gift for another profile.
+ * Uses the current nonce of the profile if none is given.
+ */
+export const signCreateGiftTransaction = async (
+  signer: PlatformSigner,
+  knowledgeLayerEscrow: KnowledgeLayerEscrow,
+  params: CreateGiftTransactionParams,
+): Promise<string> => {
+  const nonce = params.nonce ?? (await knowledgeLayerEscrow.nonces(params.profileId));
+  const domain = await getDomain(knowledgeLayerEscrow, 'KnowledgeLayerEscrow');
+  const types = {
+    CreateGiftTransaction: [
+      { name: 'profileId', type: 'uint256' },
+      { name: 'beneficiaryId', type: 'uint256' },
+      { name: 'courseId', type: 'uint256' },
+      { name: 'platformId', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+  };
+
+  return signer._signTypedData(domain, types, { ...params, nonce });
+};
+
+/**
+ * Signs the authorization of a platform signer to buy a bundle.
+ * Uses the current nonce of the profile if none is given.
+ */
+export const signCreateBundleTransaction = async (
+  signer: PlatformSigner,
+  knowledgeLayerEscrow: KnowledgeLayerEscrow,
+  params: CreateBundleTransactionParams,
+): Promise<string> => {
+  const nonce = params.nonce ?? (await knowledgeLayerEscrow.nonces(params.profileId));
+  const domain = await getDomain(knowledgeLayerEscrow, 'KnowledgeLayerEscrow');
+  const types = {
+    CreateBundleTransaction: [
+      { name: 'profileId', type: 'uint256' },
+      { name: 'bundleId', type: 'uint256' },
+      { name: 'platformId', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+  };
+
+  return signer._signTypedData(domain, types, { ...params, nonce });
+};
+
+/**
+ * Signs an EIP-2612 permit allowing the spender to transfer tokens of the signer.
+ * Uses the current nonce of the signer in the token if none is given.
+ */
+export const signPermit = async (
+  signer: PlatformSigner,
+  token: ERC20Permit,
+  params: PermitParams,
+): Promise<KnowledgeLayerEscrow.PermitStruct> => {
+  const owner = await signer.getAddress();
+  const nonce = params.nonce ?? (await token.nonces(owner));
+  const domain = await getDomain(token, await token.name());
+  const types = {
+    Permit: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+  };
+
+  const signature = await signer._signTypedData(domain, types, { ...params, owner, nonce });
+  const { v, r, s } = utils.splitSignature(signature);
+
+  return { value: params.value, deadline: params.deadline, v, r, s };
+};